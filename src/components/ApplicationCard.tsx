@@ -1,21 +1,52 @@
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { JobApplication } from '@/lib/types';
-import { statusLabels, statusColors } from '@/lib/applications';
-import { Pencil, Trash, ArrowSquareOut, Calendar, MapPin, CurrencyDollar, Envelope } from '@phosphor-icons/react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { StatusTimeline } from './StatusTimeline';
+import { ApplicationTasks } from './ApplicationTasks';
+import { AuditLogView } from './AuditLogView';
+import { EmailThreadView } from './EmailThreadView';
+import { JobApplication, Contact, ApplicationTask, CustomFieldDefinition, DocumentVersion } from '@/lib/types';
+import { getStatusLabel, getStatusColor, getStatusTimeline } from '@/lib/applications';
+import { salaryNormalizer } from '@/lib/salary';
+import { getNextInterview, formatInterviewTime, interviewFormatLabels } from '@/lib/interviews';
+import { isTaskOpen, isTaskOverdue } from '@/lib/tasks';
+import { formatCustomFieldValue } from '@/lib/custom-fields';
+import { documentLibrary } from '@/lib/documents';
+import { useAuditLog } from '@/hooks/use-audit-log';
+import { Pencil, Trash, ArrowSquareOut, Calendar, MapPin, CurrencyDollar, Envelope, ClockCounterClockwise, CaretDown, Ghost, Users, VideoCamera, ListChecks, FileText, GitDiff, ChatsCircle } from '@phosphor-icons/react';
 import { format } from 'date-fns';
+import { toast } from 'sonner';
 
 interface ApplicationCardProps {
   application: JobApplication;
+  staleDays?: number;
+  contacts?: Contact[];
+  customFields?: CustomFieldDefinition[];
+  documents?: DocumentVersion[];
   onEdit: (application: JobApplication) => void;
   onDelete: (id: string) => void;
+  onTasksChange?: (id: string, tasks: ApplicationTask[]) => void;
 }
 
-export function ApplicationCard({ application, onEdit, onDelete }: ApplicationCardProps) {
-  const handleDelete = () => {
-    if (window.confirm(`Are you sure you want to delete the application for ${application.position} at ${application.company}?`)) {
-      onDelete(application.id);
+export function ApplicationCard({ application, staleDays, contacts = [], customFields = [], documents = [], onEdit, onDelete, onTasksChange }: ApplicationCardProps) {
+  const statusTimeline = getStatusTimeline(application);
+  const annualSalary = application.salary ? salaryNormalizer.getAnnualSalary(application) : null;
+  const nextInterview = getNextInterview(application);
+  const auditEntries = useAuditLog(application.id);
+  const tasks = application.tasks || [];
+  const openTasks = tasks.filter(isTaskOpen);
+  const overdueCount = openTasks.filter(task => isTaskOverdue(task)).length;
+  const visibleFields = customFields
+    .filter(definition => definition.showOnCard)
+    .map(definition => ({ definition, value: formatCustomFieldValue(definition, application.customFields?.[definition.id]) }))
+    .filter(field => field.value);
+
+  const handleDownload = async (documentId: string) => {
+    try {
+      await documentLibrary.download(documentId);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to download document');
     }
   };
 
@@ -36,8 +67,8 @@ export function ApplicationCard({ application, onEdit, onDelete }: ApplicationCa
             <p className="text-muted-foreground font-medium">{application.company}</p>
           </div>
           <div className="flex items-center gap-2">
-            <Badge className={statusColors[application.status]}>
-              {statusLabels[application.status]}
+            <Badge className={getStatusColor(application.status)}>
+              {getStatusLabel(application.status)}
             </Badge>
             <div className="flex gap-1">
               <Button
@@ -51,7 +82,7 @@ export function ApplicationCard({ application, onEdit, onDelete }: ApplicationCa
               <Button
                 variant="ghost"
                 size="sm"
-                onClick={handleDelete}
+                onClick={() => onDelete(application.id)}
                 className="h-8 w-8 p-0 text-destructive hover:text-destructive"
               >
                 <Trash size={14} />
@@ -67,6 +98,38 @@ export function ApplicationCard({ application, onEdit, onDelete }: ApplicationCa
           <span>Applied {formatDate(application.appliedDate)}</span>
         </div>
 
+        {staleDays !== undefined && (
+          <div className="flex items-center gap-2 text-sm text-yellow-700">
+            <Ghost size={14} />
+            <span>No activity for {staleDays} days</span>
+          </div>
+        )}
+
+        {nextInterview && (
+          <div className="flex items-start gap-2 text-sm">
+            <VideoCamera size={14} className="mt-0.5 shrink-0 text-primary" />
+            <div>
+              <p className="font-medium">
+                Round {nextInterview.round}: {formatInterviewTime(nextInterview)}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {interviewFormatLabels[nextInterview.format]} · {nextInterview.timeZone}
+                {nextInterview.interviewers.length > 0 && ` · with ${nextInterview.interviewers.join(', ')}`}
+              </p>
+              {nextInterview.meetingLink && (
+                <a
+                  href={nextInterview.meetingLink}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-xs text-primary hover:underline"
+                >
+                  Join meeting
+                </a>
+              )}
+            </div>
+          </div>
+        )}
+
         {application.location && (
           <div className="flex items-center gap-2 text-sm text-muted-foreground">
             <MapPin size={14} />
@@ -78,6 +141,60 @@ export function ApplicationCard({ application, onEdit, onDelete }: ApplicationCa
           <div className="flex items-center gap-2 text-sm text-muted-foreground">
             <CurrencyDollar size={14} />
             <span>{application.salary}</span>
+            {annualSalary && (
+              <span className="text-xs">
+                (≈ {salaryNormalizer.formatAmount(annualSalary.min)}
+                {annualSalary.max !== annualSalary.min && `-${salaryNormalizer.formatAmount(annualSalary.max)}`}/yr)
+              </span>
+            )}
+          </div>
+        )}
+
+        {contacts.length > 0 && (
+          <div className="flex items-start gap-2 text-sm text-muted-foreground">
+            <Users size={14} className="mt-0.5 shrink-0" />
+            <span>
+              {contacts.map(contact => contact.role ? `${contact.name} (${contact.role})` : contact.name).join(', ')}
+            </span>
+          </div>
+        )}
+
+        {documents.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1">
+            <FileText size={14} className="text-muted-foreground" />
+            {documents.map(document => (
+              <Button
+                key={document.id}
+                variant="link"
+                size="sm"
+                onClick={() => handleDownload(document.id)}
+                className="h-auto p-0 text-xs"
+                title={`Download ${document.fileName}`}
+              >
+                {document.name} v{document.version}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {visibleFields.length > 0 && (
+          <dl className="grid grid-cols-2 gap-x-3 gap-y-1 text-sm">
+            {visibleFields.map(({ definition, value }) => (
+              <div key={definition.id} className="contents">
+                <dt className="text-muted-foreground">{definition.label}</dt>
+                <dd className="truncate">{value}</dd>
+              </div>
+            ))}
+          </dl>
+        )}
+
+        {application.tags && application.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {application.tags.map(tag => (
+              <Badge key={tag} variant="outline" className="text-xs">
+                {tag}
+              </Badge>
+            ))}
           </div>
         )}
 
@@ -87,6 +204,74 @@ export function ApplicationCard({ application, onEdit, onDelete }: ApplicationCa
           </div>
         )}
 
+        {onTasksChange && (
+          <Collapsible defaultOpen={overdueCount > 0}>
+            <CollapsibleTrigger asChild>
+              <Button variant="ghost" size="sm" className="gap-2 px-0 text-muted-foreground group">
+                <ListChecks size={14} />
+                Tasks ({openTasks.length})
+                {overdueCount > 0 && (
+                  <Badge variant="destructive" className="text-xs">
+                    {overdueCount} due
+                  </Badge>
+                )}
+                <CaretDown size={12} className="transition-transform group-data-[state=open]:rotate-180" />
+              </Button>
+            </CollapsibleTrigger>
+            <CollapsibleContent className="pt-2">
+              <ApplicationTasks
+                tasks={tasks}
+                onChange={(updated) => onTasksChange(application.id, updated)}
+              />
+            </CollapsibleContent>
+          </Collapsible>
+        )}
+
+        <Collapsible>
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" size="sm" className="gap-2 px-0 text-muted-foreground group">
+              <ClockCounterClockwise size={14} />
+              Status history ({statusTimeline.length})
+              <CaretDown size={12} className="transition-transform group-data-[state=open]:rotate-180" />
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent className="pt-2">
+            <StatusTimeline entries={statusTimeline} />
+          </CollapsibleContent>
+        </Collapsible>
+
+        <Collapsible>
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" size="sm" className="gap-2 px-0 text-muted-foreground group">
+              <GitDiff size={14} />
+              Change log ({auditEntries.length})
+              <CaretDown size={12} className="transition-transform group-data-[state=open]:rotate-180" />
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent className="pt-2">
+            <AuditLogView entries={auditEntries} />
+          </CollapsibleContent>
+        </Collapsible>
+
+        {application.gmailThreadIds && application.gmailThreadIds.length > 0 && (
+          <Collapsible>
+            <CollapsibleTrigger asChild>
+              <Button variant="ghost" size="sm" className="gap-2 px-0 text-muted-foreground group">
+                <ChatsCircle size={14} />
+                Email thread ({application.gmailMessageIds?.length || 0})
+                <CaretDown size={12} className="transition-transform group-data-[state=open]:rotate-180" />
+              </Button>
+            </CollapsibleTrigger>
+            {/* Content mounts on open, so Gmail is only queried when the thread is viewed */}
+            <CollapsibleContent className="pt-2">
+              <EmailThreadView
+                threadIds={application.gmailThreadIds}
+                messageIds={application.gmailMessageIds || []}
+              />
+            </CollapsibleContent>
+          </Collapsible>
+        )}
+
         <div className="flex gap-2 pt-2">
           {application.jobUrl && (
             <Button
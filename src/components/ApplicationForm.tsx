@@ -5,8 +5,19 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { JobApplication, ApplicationStatus } from '@/lib/types';
-import { statusLabels } from '@/lib/applications';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Checkbox } from '@/components/ui/checkbox';
+import { JobApplication, ApplicationStatus, CustomFieldDefinition } from '@/lib/types';
+import { pipeline } from '@/lib/pipeline';
+import { parseCustomFieldValue } from '@/lib/custom-fields';
+import { documentKindLabels } from '@/lib/documents';
+import { usePipelineStages } from '@/hooks/use-pipeline';
+import { useContacts } from '@/hooks/use-contacts';
+import { useCustomFields } from '@/hooks/use-custom-fields';
+import { useDocuments } from '@/hooks/use-documents';
+import { InterviewEventsEditor } from './InterviewEventsEditor';
+import { TagInput } from './TagInput';
+import { CaretDown } from '@phosphor-icons/react';
 
 interface ApplicationFormProps {
   open: boolean;
@@ -14,13 +25,20 @@ interface ApplicationFormProps {
   onSubmit: (application: Partial<JobApplication>) => void;
   initialData?: Partial<JobApplication>;
   mode: 'create' | 'edit';
+  tagSuggestions?: string[];
 }
 
-export function ApplicationForm({ open, onOpenChange, onSubmit, initialData, mode }: ApplicationFormProps) {
+const NO_VALUE = '__none__';
+
+export function ApplicationForm({ open, onOpenChange, onSubmit, initialData, mode, tagSuggestions }: ApplicationFormProps) {
+  const stages = usePipelineStages();
+  const contacts = useContacts();
+  const customFields = useCustomFields();
+  const documents = useDocuments();
   const [formData, setFormData] = useState<Partial<JobApplication>>({
     company: '',
     position: '',
-    status: 'applied',
+    status: pipeline.getDefaultStageId(),
     appliedDate: new Date().toISOString().split('T')[0],
     notes: '',
     contactEmail: '',
@@ -47,7 +65,7 @@ export function ApplicationForm({ open, onOpenChange, onSubmit, initialData, mod
       setFormData({
         company: '',
         position: '',
-        status: 'applied',
+        status: pipeline.getDefaultStageId(),
         appliedDate: new Date().toISOString().split('T')[0],
         notes: '',
         contactEmail: '',
@@ -67,6 +85,75 @@ export function ApplicationForm({ open, onOpenChange, onSubmit, initialData, mod
     setFormData(prev => ({ ...prev, [field]: value }));
   };
 
+  const toggleContact = (contactId: string, checked: boolean) => {
+    setFormData(prev => {
+      const current = prev.contactIds || [];
+      return {
+        ...prev,
+        contactIds: checked ? [...current, contactId] : current.filter(id => id !== contactId),
+      };
+    });
+  };
+
+  const updateCustomField = (definition: CustomFieldDefinition, input: string) => {
+    setFormData(prev => {
+      const { [definition.id]: _previous, ...rest } = prev.customFields || {};
+      const value = parseCustomFieldValue(definition, input);
+      return {
+        ...prev,
+        customFields: value === undefined ? rest : { ...rest, [definition.id]: value },
+      };
+    });
+  };
+
+  const renderCustomFieldInput = (definition: CustomFieldDefinition) => {
+    const value = formData.customFields?.[definition.id];
+    const inputId = `custom-${definition.id}`;
+
+    if (definition.type === 'select') {
+      return (
+        <Select
+          value={value !== undefined ? String(value) : NO_VALUE}
+          onValueChange={(option) => updateCustomField(definition, option === NO_VALUE ? '' : option)}
+        >
+          <SelectTrigger id={inputId}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_VALUE}>Not set</SelectItem>
+            {(definition.options || []).map(option => (
+              <SelectItem key={option} value={option}>
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    return (
+      <Input
+        id={inputId}
+        type={definition.type === 'text' ? 'text' : definition.type}
+        value={value !== undefined ? String(value) : ''}
+        onChange={(e) => updateCustomField(definition, e.target.value)}
+      />
+    );
+  };
+
+  const toggleDocument = (documentId: string, checked: boolean) => {
+    setFormData(prev => {
+      const current = prev.documentIds || [];
+      return {
+        ...prev,
+        documentIds: checked ? [...current, documentId] : current.filter(id => id !== documentId),
+      };
+    });
+  };
+
+  const selectedContacts = contacts.filter(contact => formData.contactIds?.includes(contact.id));
+  const selectedDocuments = documents.filter(document => formData.documentIds?.includes(document.id));
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
@@ -106,9 +193,9 @@ export function ApplicationForm({ open, onOpenChange, onSubmit, initialData, mod
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {Object.entries(statusLabels).map(([value, label]) => (
-                    <SelectItem key={value} value={value}>
-                      {label}
+                  {stages.map((stage) => (
+                    <SelectItem key={stage.id} value={stage.id}>
+                      {stage.label}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -171,6 +258,86 @@ export function ApplicationForm({ open, onOpenChange, onSubmit, initialData, mod
               />
             </div>
 
+            <div className="space-y-2">
+              <Label>Contacts</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button type="button" variant="outline" className="w-full justify-between font-normal">
+                    <span className="truncate">
+                      {selectedContacts.length > 0
+                        ? selectedContacts.map(contact => contact.name).join(', ')
+                        : 'Link contacts'}
+                    </span>
+                    <CaretDown size={14} />
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-72" align="start">
+                  {contacts.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      No contacts yet. Add them from the Contacts tab.
+                    </p>
+                  ) : (
+                    <div className="space-y-2 max-h-72 overflow-y-auto">
+                      {contacts.map((contact) => (
+                        <div key={contact.id} className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`contact-${contact.id}`}
+                            checked={formData.contactIds?.includes(contact.id) || false}
+                            onCheckedChange={(checked) => toggleContact(contact.id, checked as boolean)}
+                          />
+                          <label htmlFor={`contact-${contact.id}`} className="text-sm cursor-pointer flex-1">
+                            {contact.name}
+                            {contact.company && (
+                              <span className="text-muted-foreground"> ({contact.company})</span>
+                            )}
+                          </label>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </PopoverContent>
+              </Popover>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Documents Sent</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button type="button" variant="outline" className="w-full justify-between font-normal">
+                    <span className="truncate">
+                      {selectedDocuments.length > 0
+                        ? selectedDocuments.map(document => `${document.name} v${document.version}`).join(', ')
+                        : 'Link resume / cover letter'}
+                    </span>
+                    <CaretDown size={14} />
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-72" align="start">
+                  {documents.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      No documents yet. Upload them from the Documents tab.
+                    </p>
+                  ) : (
+                    <div className="space-y-2 max-h-72 overflow-y-auto">
+                      {documents.map((document) => (
+                        <div key={document.id} className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`document-${document.id}`}
+                            checked={formData.documentIds?.includes(document.id) || false}
+                            onCheckedChange={(checked) => toggleDocument(document.id, checked as boolean)}
+                          />
+                          <label htmlFor={`document-${document.id}`} className="text-sm cursor-pointer flex-1">
+                            {document.name} v{document.version}
+                            <span className="text-muted-foreground"> ({documentKindLabels[document.kind]})</span>
+                          </label>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </PopoverContent>
+              </Popover>
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="job-url">Job URL</Label>
               <Input
@@ -182,6 +349,34 @@ export function ApplicationForm({ open, onOpenChange, onSubmit, initialData, mod
             </div>
           </div>
 
+          <div className="space-y-2">
+            <Label>Tags</Label>
+            <TagInput
+              tags={formData.tags || []}
+              suggestions={tagSuggestions}
+              onChange={(tags) => setFormData(prev => ({ ...prev, tags }))}
+            />
+          </div>
+
+          {customFields.length > 0 && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {customFields.map(definition => (
+                <div key={definition.id} className="space-y-2">
+                  <Label htmlFor={`custom-${definition.id}`}>{definition.label}</Label>
+                  {renderCustomFieldInput(definition)}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Interviews</Label>
+            <InterviewEventsEditor
+              events={formData.interviews || []}
+              onChange={(interviews) => setFormData(prev => ({ ...prev, interviews }))}
+            />
+          </div>
+
           <div className="space-y-2">
             <Label htmlFor="notes">Notes</Label>
             <Textarea
@@ -3,18 +3,30 @@ import { ApplicationCard } from './ApplicationCard';
 import { ApplicationForm } from './ApplicationForm';
 import { EmailParserDialog } from './EmailParserDialog';
 import { EmailForwardingSetup } from './EmailForwardingSetup';
+import { TrashDialog } from './TrashDialog';
 import { Button } from '@/components/ui/button';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Checkbox } from '@/components/ui/checkbox';
-import { JobApplication, ApplicationStatus, ParsedEmailData } from '@/lib/types';
-import { sortByDate, statusLabels, findDuplicate, createApplication, updateApplication } from '@/lib/applications';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { JobApplication, ApplicationStatus, ApplicationTask, ParsedEmailData } from '@/lib/types';
+import { CommandSource } from '@/lib/history';
+import { sortByDate, getStatusLabel, findDuplicateEnhanced, createApplication, updateApplication } from '@/lib/applications';
+import { ghostDetector } from '@/lib/ghost-detector';
+import { salaryNormalizer } from '@/lib/salary';
+import { getAllTags, hasAllTags, matchesCustomFieldFilters, CustomFieldFilters } from '@/lib/custom-fields';
+import { usePipelineStages } from '@/hooks/use-pipeline';
+import { useContacts } from '@/hooks/use-contacts';
+import { useCustomFields } from '@/hooks/use-custom-fields';
+import { useDocuments } from '@/hooks/use-documents';
 import { syncScheduler } from '@/lib/gmail/SyncScheduler';
-import { Plus, Funnel, Briefcase, CaretDown } from '@phosphor-icons/react';
+import { Plus, Funnel, Briefcase, CaretDown, Ghost, Tag } from '@phosphor-icons/react';
 import { toast } from 'sonner';
 
 interface ApplicationListProps {
   applications: JobApplication[];
-  onApplicationsChange: (applications: JobApplication[]) => void;
+  onApplicationsChange: (applications: JobApplication[], label?: string, source?: CommandSource) => void;
+  onUndo?: () => void;
   externalStatusFilters?: ApplicationStatus[];
   onStatusFiltersChange?: (filters: ApplicationStatus[]) => void;
 }
@@ -22,9 +34,11 @@ interface ApplicationListProps {
 export function ApplicationList({ 
   applications, 
   onApplicationsChange, 
+  onUndo,
   externalStatusFilters,
   onStatusFiltersChange 
 }: ApplicationListProps) {
+  const stages = usePipelineStages();
   const [internalStatusFilters, setInternalStatusFilters] = useState<ApplicationStatus[]>([]);
   
   // Use external filters if provided, otherwise use internal
@@ -32,12 +46,47 @@ export function ApplicationList({
   const setStatusFilters = onStatusFiltersChange || setInternalStatusFilters;
   const [showForm, setShowForm] = useState(false);
   const [editingApplication, setEditingApplication] = useState<JobApplication | null>(null);
+  const [showStaleOnly, setShowStaleOnly] = useState(false);
+  const [sortBy, setSortBy] = useState<'date' | 'salary-desc' | 'salary-asc'>('date');
+  const [minSalary, setMinSalary] = useState('');
+  const [tagFilters, setTagFilters] = useState<string[]>([]);
+  const [fieldFilters, setFieldFilters] = useState<CustomFieldFilters>({});
+  const contacts = useContacts();
+  const customFields = useCustomFields();
+  const documents = useDocuments();
+  const allTags = getAllTags(applications);
 
-  const filteredApplications = sortByDate(
-    statusFilters.length === 0 
-      ? applications 
-      : applications.filter(app => statusFilters.includes(app.status))
+  const staleApplications = ghostDetector.findStaleApplications(applications);
+  const staleById = new Map(staleApplications.map(item => [item.application.id, item]));
+
+  const annualSalaries = new Map(applications.map(app => [app.id, salaryNormalizer.getAnnualSalary(app)]));
+  const minSalaryValue = parseFloat(minSalary) || 0;
+
+  const sortApplications = (list: JobApplication[]): JobApplication[] => {
+    const byDate = sortByDate(list);
+    if (sortBy === 'date') return byDate;
+
+    // Applications without a parseable salary go last either way
+    return [...byDate].sort((a, b) => {
+      const salaryA = annualSalaries.get(a.id);
+      const salaryB = annualSalaries.get(b.id);
+      if (!salaryA || !salaryB) return salaryA ? -1 : salaryB ? 1 : 0;
+      return sortBy === 'salary-desc' ? salaryB.max - salaryA.max : salaryA.min - salaryB.min;
+    });
+  };
+
+  const filteredApplications = sortApplications(
+    applications.filter(app =>
+      (statusFilters.length === 0 || statusFilters.includes(app.status)) &&
+      (!showStaleOnly || staleById.has(app.id)) &&
+      (!minSalaryValue || (annualSalaries.get(app.id)?.max ?? 0) >= minSalaryValue) &&
+      hasAllTags(app, tagFilters) &&
+      matchesCustomFieldFilters(app, customFields, fieldFilters)
+    )
   );
+  const activeFieldFilterCount = Object.values(fieldFilters).filter(value => value.trim()).length;
+  const hasActiveFilters = statusFilters.length > 0 || showStaleOnly || minSalaryValue > 0 ||
+    tagFilters.length > 0 || activeFieldFilterCount > 0;
 
   const handleAddApplication = (data: Partial<JobApplication>) => {
     if (!data.company?.trim() || !data.position?.trim()) {
@@ -45,7 +94,7 @@ export function ApplicationList({
       return;
     }
 
-    const duplicate = findDuplicate(applications, data.company, data.position);
+    const duplicate = findDuplicateEnhanced(applications, data.company, data.position);
     if (duplicate) {
       const shouldContinue = window.confirm(
         `An application for ${data.position} at ${data.company} already exists. Add anyway?`
@@ -54,7 +103,7 @@ export function ApplicationList({
     }
 
     const newApplication = createApplication(data);
-    onApplicationsChange([...applications, newApplication]);
+    onApplicationsChange([...applications, newApplication], `Add ${newApplication.position} at ${newApplication.company}`);
     toast.success('Application added successfully');
   };
 
@@ -66,15 +115,50 @@ export function ApplicationList({
       app.id === editingApplication.id ? updatedApplication : app
     );
     
-    onApplicationsChange(updatedApplications);
+    onApplicationsChange(updatedApplications, `Edit ${updatedApplication.position} at ${updatedApplication.company}`);
     setEditingApplication(null);
     toast.success('Application updated successfully');
   };
 
   const handleDeleteApplication = (id: string) => {
-    const updatedApplications = applications.filter(app => app.id !== id);
-    onApplicationsChange(updatedApplications);
-    toast.success('Application deleted');
+    const deleted = applications.find(app => app.id === id);
+    if (!deleted) return;
+
+    // Removed applications land in the trash, see commandHistory
+    onApplicationsChange(applications.filter(app => app.id !== id), `Delete ${deleted.position} at ${deleted.company}`);
+    toast.success('Application moved to trash', {
+      action: onUndo && {
+        label: 'Undo',
+        onClick: onUndo,
+      },
+    });
+  };
+
+  const handleTasksChange = (id: string, tasks: ApplicationTask[]) => {
+    const application = applications.find(app => app.id === id);
+    onApplicationsChange(applications.map(app =>
+      app.id === id ? { ...app, tasks, updatedAt: new Date().toISOString() } : app
+    ), `Update tasks for ${application?.position} at ${application?.company}`);
+  };
+
+  const handleMarkStaleAsGhosted = () => {
+    const { applications: updated, previous } = ghostDetector.markGhosted(
+      applications,
+      staleApplications.map(item => item.application.id)
+    );
+
+    if (previous.length === 0) {
+      toast.error('Add a stage with the "Ghosted" category to your pipeline first');
+      return;
+    }
+
+    onApplicationsChange(updated, `Move ${previous.length} application(s) to Ghosted`, 'inactivity');
+    toast.success(`Moved ${previous.length} application(s) to Ghosted`, {
+      action: onUndo && {
+        label: 'Undo',
+        onClick: onUndo,
+      },
+    });
   };
 
   const handleEmailParsed = (data: ParsedEmailData) => {
@@ -91,29 +175,28 @@ export function ApplicationList({
   };
 
   const handleClearAllApplications = () => {
-    if (window.confirm(`Are you sure you want to delete all ${applications.length} applications? This will also clear Gmail sync records and review queue. This action cannot be undone.`)) {
-      // Clear applications
-      onApplicationsChange([]);
+    if (window.confirm(`Are you sure you want to move all ${applications.length} applications to the trash? This will also clear Gmail sync records and review queue, which cannot be undone.`)) {
+      // Move applications to the trash
+      onApplicationsChange([], `Delete all ${applications.length} applications`);
       
       // Clear Gmail sync data (review queue, sync history, etc.)
       syncScheduler.clearAllSyncData();
       
-      toast.success('All applications and Gmail sync records cleared');
+      toast.success('Applications moved to trash and Gmail sync records cleared');
     }
   };
 
   const getStatusCounts = () => {
     const counts: Record<ApplicationStatus | 'all', number> = {
       all: applications.length,
-      applied: 0,
-      interview: 0,
-      offer: 0,
-      rejected: 0,
-      withdrawn: 0,
     };
 
+    stages.forEach(stage => {
+      counts[stage.id] = 0;
+    });
+
     applications.forEach(app => {
-      counts[app.status]++;
+      counts[app.status] = (counts[app.status] || 0) + 1;
     });
 
     return counts;
@@ -130,7 +213,7 @@ export function ApplicationList({
   };
 
   const handleSelectAll = () => {
-    setStatusFilters(['applied', 'interview', 'offer', 'rejected', 'withdrawn']);
+    setStatusFilters(stages.map(stage => stage.id));
   };
 
   const handleClearFilters = () => {
@@ -142,7 +225,7 @@ export function ApplicationList({
       return 'All Applications';
     }
     if (statusFilters.length === 1) {
-      return statusLabels[statusFilters[0]];
+      return getStatusLabel(statusFilters[0]);
     }
     return `${statusFilters.length} statuses selected`;
   };
@@ -182,23 +265,23 @@ export function ApplicationList({
                     </Button>
                   </div>
                 </div>
-                <div className="space-y-2">
-                  {Object.entries(statusLabels).map(([status, label]) => (
-                    <div key={status} className="flex items-center space-x-2">
+                <div className="space-y-2 max-h-72 overflow-y-auto">
+                  {stages.map((stage) => (
+                    <div key={stage.id} className="flex items-center space-x-2">
                       <Checkbox
-                        id={status}
-                        checked={statusFilters.includes(status as ApplicationStatus)}
+                        id={stage.id}
+                        checked={statusFilters.includes(stage.id)}
                         onCheckedChange={(checked) =>
-                          handleStatusToggle(status as ApplicationStatus, checked as boolean)
+                          handleStatusToggle(stage.id, checked as boolean)
                         }
                       />
                       <label
-                        htmlFor={status}
+                        htmlFor={stage.id}
                         className="text-sm cursor-pointer flex-1 flex justify-between"
                       >
-                        <span>{label}</span>
+                        <span>{stage.label}</span>
                         <span className="text-muted-foreground">
-                          ({statusCounts[status as ApplicationStatus]})
+                          ({statusCounts[stage.id]})
                         </span>
                       </label>
                     </div>
@@ -207,6 +290,122 @@ export function ApplicationList({
               </div>
             </PopoverContent>
           </Popover>
+          <Button
+            variant={showStaleOnly ? 'default' : 'outline'}
+            onClick={() => setShowStaleOnly(!showStaleOnly)}
+            className="gap-2"
+          >
+            <Ghost size={16} />
+            Stale ({staleApplications.length})
+          </Button>
+          {showStaleOnly && staleApplications.length > 0 && (
+            <Button variant="outline" onClick={handleMarkStaleAsGhosted}>
+              Mark all as ghosted
+            </Button>
+          )}
+          {(allTags.length > 0 || customFields.length > 0) && (
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant={tagFilters.length + activeFieldFilterCount > 0 ? 'default' : 'outline'} className="gap-2">
+                  <Tag size={16} />
+                  Tags & Fields
+                  {tagFilters.length + activeFieldFilterCount > 0 && ` (${tagFilters.length + activeFieldFilterCount})`}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-72 p-3">
+                <div className="space-y-3">
+                  <div className="flex justify-between items-center">
+                    <h4 className="font-medium text-sm">Filter by Tags & Fields</h4>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        setTagFilters([]);
+                        setFieldFilters({});
+                      }}
+                      className="h-6 px-2 text-xs"
+                    >
+                      Clear
+                    </Button>
+                  </div>
+                  {allTags.length > 0 && (
+                    <div className="space-y-2 max-h-48 overflow-y-auto">
+                      {allTags.map(({ tag, count }) => (
+                        <div key={tag} className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`tag-${tag}`}
+                            checked={tagFilters.includes(tag)}
+                            onCheckedChange={(checked) => setTagFilters(checked
+                              ? [...tagFilters, tag]
+                              : tagFilters.filter(item => item !== tag)
+                            )}
+                          />
+                          <label htmlFor={`tag-${tag}`} className="text-sm cursor-pointer flex-1 flex justify-between">
+                            <span>{tag}</span>
+                            <span className="text-muted-foreground">({count})</span>
+                          </label>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {customFields.map(definition => (
+                    <div key={definition.id} className="space-y-1">
+                      <label className="text-xs text-muted-foreground">
+                        {definition.label}
+                        {(definition.type === 'number' || definition.type === 'date') && ' (at least)'}
+                      </label>
+                      {definition.type === 'select' ? (
+                        <Select
+                          value={fieldFilters[definition.id] || 'any'}
+                          onValueChange={(value) => setFieldFilters({
+                            ...fieldFilters,
+                            [definition.id]: value === 'any' ? '' : value,
+                          })}
+                        >
+                          <SelectTrigger className="h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="any">Any</SelectItem>
+                            {(definition.options || []).map(option => (
+                              <SelectItem key={option} value={option}>
+                                {option}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <Input
+                          type={definition.type === 'text' ? 'text' : definition.type}
+                          value={fieldFilters[definition.id] || ''}
+                          onChange={(e) => setFieldFilters({ ...fieldFilters, [definition.id]: e.target.value })}
+                          className="h-8"
+                        />
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </PopoverContent>
+            </Popover>
+          )}
+          <Input
+            type="number"
+            min={0}
+            placeholder={`Min salary (${salaryNormalizer.getSettings().baseCurrency}/yr)`}
+            value={minSalary}
+            onChange={(e) => setMinSalary(e.target.value)}
+            className="w-48"
+          />
+          <Select value={sortBy} onValueChange={(value) => setSortBy(value as typeof sortBy)}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="date">Newest first</SelectItem>
+              <SelectItem value="salary-desc">Salary: high to low</SelectItem>
+              <SelectItem value="salary-asc">Salary: low to high</SelectItem>
+            </SelectContent>
+          </Select>
         </div>
 
         <div className="flex gap-2">
@@ -216,6 +415,7 @@ export function ApplicationList({
             <Plus size={16} />
             Add Application
           </Button>
+          <TrashDialog applications={applications} onRestore={onApplicationsChange} />
           {applications.length > 0 && (
             <Button 
               variant="outline" 
@@ -236,19 +436,19 @@ export function ApplicationList({
             </div>
             <div className="space-y-2">
               <h3 className="text-lg font-semibold">
-                {statusFilters.length === 0 
+                {!hasActiveFilters 
                   ? 'No applications yet' 
                   : 'No applications match the selected filters'
                 }
               </h3>
               <p className="text-muted-foreground max-w-md">
-                {statusFilters.length === 0
+                {!hasActiveFilters
                   ? 'Get started by adding your first job application or parsing an email.'
                   : 'Try adjusting your filters to see more applications.'
                 }
               </p>
             </div>
-            {statusFilters.length === 0 && (
+            {!hasActiveFilters && (
               <div className="flex gap-2">
                 <EmailForwardingSetup>
                   <Button variant="outline" className="gap-2">
@@ -274,8 +474,13 @@ export function ApplicationList({
             <ApplicationCard
               key={application.id}
               application={application}
+              staleDays={staleById.get(application.id)?.daysInactive}
+              contacts={contacts.filter(contact => application.contactIds?.includes(contact.id))}
+              customFields={customFields}
+              documents={documents.filter(document => application.documentIds?.includes(document.id))}
               onEdit={setEditingApplication}
               onDelete={handleDeleteApplication}
+              onTasksChange={handleTasksChange}
             />
           ))}
         </div>
@@ -286,6 +491,7 @@ export function ApplicationList({
         onOpenChange={setShowForm}
         onSubmit={handleAddApplication}
         mode="create"
+        tagSuggestions={allTags.map(({ tag }) => tag)}
       />
 
       <ApplicationForm
@@ -294,6 +500,7 @@ export function ApplicationList({
         onSubmit={handleUpdateApplication}
         initialData={editingApplication || undefined}
         mode="edit"
+        tagSuggestions={allTags.map(({ tag }) => tag)}
       />
     </div>
   );
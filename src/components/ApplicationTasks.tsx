@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { ApplicationTask } from '@/lib/types';
+import {
+  createTask,
+  completeTask,
+  reopenTask,
+  snoozeTask,
+  sortTasks,
+  getTaskDueAt,
+  isTaskOverdue,
+  snoozeOptions,
+} from '@/lib/tasks';
+import { Plus, Trash, Alarm, Sparkle } from '@phosphor-icons/react';
+import { format } from 'date-fns';
+
+interface ApplicationTasksProps {
+  tasks: ApplicationTask[];
+  onChange: (tasks: ApplicationTask[]) => void;
+}
+
+export function ApplicationTasks({ tasks, onChange }: ApplicationTasksProps) {
+  const [title, setTitle] = useState('');
+  const [dueDate, setDueDate] = useState('');
+
+  const replace = (task: ApplicationTask) => {
+    onChange(tasks.map(item => item.id === task.id ? task : item));
+  };
+
+  const handleAdd = () => {
+    if (!title.trim()) return;
+
+    onChange([...tasks, createTask({
+      title,
+      // Date-only input - remind at 9:00 local time
+      dueDate: dueDate ? new Date(`${dueDate}T09:00`).toISOString() : undefined,
+    })]);
+    setTitle('');
+    setDueDate('');
+  };
+
+  const formatDue = (task: ApplicationTask) => {
+    const dueAt = getTaskDueAt(task);
+    if (!dueAt) return null;
+    return `${task.snoozedUntil ? 'Snoozed until' : 'Due'} ${format(new Date(dueAt), 'MMM dd, HH:mm')}`;
+  };
+
+  return (
+    <div className="space-y-2">
+      {sortTasks(tasks).map(task => {
+        const overdue = isTaskOverdue(task);
+        const due = formatDue(task);
+
+        return (
+          <div key={task.id} className="flex items-start gap-2 text-sm">
+            <Checkbox
+              checked={!!task.completedAt}
+              onCheckedChange={(checked) => replace(checked ? completeTask(task) : reopenTask(task))}
+              className="mt-0.5"
+            />
+            <div className="flex-1 min-w-0">
+              <p className={task.completedAt ? 'line-through text-muted-foreground' : ''}>
+                {task.source === 'suggested' && (
+                  <Sparkle size={12} className="inline mr-1 text-primary" />
+                )}
+                {task.title}
+              </p>
+              {due && !task.completedAt && (
+                <Badge variant={overdue ? 'destructive' : 'outline'} className="text-xs mt-1">
+                  {due}
+                </Badge>
+              )}
+            </div>
+            {!task.completedAt && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="sm" className="h-6 w-6 p-0" title="Snooze">
+                    <Alarm size={14} />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {snoozeOptions.map(option => (
+                    <DropdownMenuItem key={option.label} onClick={() => replace(snoozeTask(task, option.ms))}>
+                      {option.label}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(tasks.filter(item => item.id !== task.id))}
+              className="h-6 w-6 p-0 text-destructive hover:text-destructive"
+            >
+              <Trash size={12} />
+            </Button>
+          </div>
+        );
+      })}
+
+      <div className="flex gap-2">
+        <Input
+          placeholder="e.g. Send thank-you note"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          className="h-8"
+        />
+        <Input
+          type="date"
+          value={dueDate}
+          onChange={(e) => setDueDate(e.target.value)}
+          className="h-8 w-36"
+        />
+        <Button variant="outline" size="sm" onClick={handleAdd} disabled={!title.trim()} className="h-8 w-8 p-0">
+          <Plus size={14} />
+        </Button>
+      </div>
+    </div>
+  );
+}
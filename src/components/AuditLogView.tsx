@@ -0,0 +1,82 @@
+import { Badge } from '@/components/ui/badge';
+import { AuditEntry, AuditValue, auditSourceLabels, getAuditFieldLabel } from '@/lib/audit-log';
+import { getStatusLabel } from '@/lib/applications';
+import { format } from 'date-fns';
+
+interface AuditLogViewProps {
+  entries: AuditEntry[];
+}
+
+// Entries written by one command share a timestamp and label
+function groupEntries(entries: AuditEntry[]): AuditEntry[][] {
+  const groups: AuditEntry[][] = [];
+  for (const entry of entries) {
+    const last = groups[groups.length - 1];
+    if (last && last[0].timestamp === entry.timestamp && last[0].label === entry.label) {
+      last.push(entry);
+    } else {
+      groups.push([entry]);
+    }
+  }
+  return groups;
+}
+
+function formatValue(field: string | undefined, value: AuditValue | undefined): string {
+  if (value === undefined || value === null) return '';
+  if (field === 'status' && typeof value === 'string') return getStatusLabel(value);
+  if (Array.isArray(value)) return value.join(', ');
+  return String(value);
+}
+
+export function AuditLogView({ entries }: AuditLogViewProps) {
+  if (entries.length === 0) {
+    return <p className="text-xs text-muted-foreground">No changes recorded yet</p>;
+  }
+
+  return (
+    <div className="space-y-3 max-h-80 overflow-y-auto">
+      {groupEntries(entries).map(group => {
+        const { id, label, source, emailId, timestamp } = group[0];
+        return (
+          <div key={id} className="text-xs space-y-1">
+            <div className="flex items-center gap-2 flex-wrap">
+              <Badge variant="outline" className="text-xs">{auditSourceLabels[source]}</Badge>
+              <span className="text-muted-foreground">{format(new Date(timestamp), 'MMM dd, yyyy HH:mm')}</span>
+            </div>
+            <p className="text-muted-foreground">
+              {label}
+              {emailId && <span className="font-mono"> · email {emailId}</span>}
+            </p>
+            {group.map(entry => {
+              if (entry.action !== 'updated') {
+                return (
+                  <p key={entry.id} className="font-medium">
+                    {entry.action === 'created' ? 'Application added' : 'Moved to trash'}
+                  </p>
+                );
+              }
+
+              const oldValue = formatValue(entry.field, entry.oldValue);
+              const newValue = formatValue(entry.field, entry.newValue);
+              return (
+                <div key={entry.id} className="pl-2 border-l">
+                  <span className="font-medium">{getAuditFieldLabel(entry.field || '')}</span>
+                  {oldValue && (
+                    <p className="text-red-700 bg-red-50 line-through whitespace-pre-wrap break-words line-clamp-3">
+                      − {oldValue}
+                    </p>
+                  )}
+                  {newValue && (
+                    <p className="text-green-700 bg-green-50 whitespace-pre-wrap break-words line-clamp-3">
+                      + {newValue}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
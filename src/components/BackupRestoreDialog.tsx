@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { JobApplication } from '@/lib/types';
+import { validateBackup, summarizeBackup, restoreBackup, completeReplaceRestore, BackupArchive, RestoreMode } from '@/lib/backup';
+import { ClockCounterClockwise, Warning } from '@phosphor-icons/react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+
+interface BackupRestoreDialogProps {
+  applications: JobApplication[];
+  onRestore: (applications: JobApplication[], label: string) => void;
+}
+
+export function BackupRestoreDialog({ applications, onRestore }: BackupRestoreDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [archive, setArchive] = useState<BackupArchive | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) {
+      setArchive(null);
+      setError(null);
+      setMode('merge');
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    setArchive(null);
+    setError(null);
+    if (!file) return;
+
+    try {
+      setArchive(await validateBackup(await file.text()));
+    } catch (validationError) {
+      setError(validationError instanceof Error ? validationError.message : 'Could not read the backup');
+    }
+  };
+
+  const handleRestore = () => {
+    if (!archive) return;
+    if (mode === 'replace' && !window.confirm('Replace all current applications and settings with the backup?')) {
+      return;
+    }
+
+    try {
+      const restored = restoreBackup(archive, applications, mode);
+      onRestore(restored, `Restore backup from ${format(new Date(archive.createdAt), 'MMM dd, yyyy')}`);
+      if (mode === 'replace') {
+        completeReplaceRestore(archive);
+      }
+      toast.success(`Backup restored (${restored.length} applications)`);
+      handleOpenChange(false);
+    } catch (restoreError) {
+      console.error('Error restoring backup:', restoreError);
+      toast.error(restoreError instanceof Error ? restoreError.message : 'Failed to restore backup');
+    }
+  };
+
+  const summary = archive ? summarizeBackup(archive) : null;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <ClockCounterClockwise size={14} />
+          Restore Backup
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Restore from Backup</DialogTitle>
+          <DialogDescription>
+            The file is checked before anything changes. A merge can be undone for applications;
+            a replace also replaces the trash and clears the undo history.
+            Settings, contacts and the review queue cannot be undone.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="backup-file">Backup file</Label>
+            <Input
+              id="backup-file"
+              type="file"
+              accept=".json,application/json"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </div>
+
+          {error && (
+            <Alert variant="destructive">
+              <Warning size={16} />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {summary && (
+            <>
+              <div className="text-sm space-y-1">
+                <p className="font-medium">
+                  Backup from {format(new Date(summary.createdAt), 'MMM dd, yyyy HH:mm')}
+                </p>
+                <p className="text-muted-foreground">
+                  {summary.applications} applications · {summary.reviewQueue} emails in review ·{' '}
+                  {summary.contacts} contacts · {summary.companies} companies
+                </p>
+              </div>
+
+              <RadioGroup value={mode} onValueChange={(value) => setMode(value as RestoreMode)} className="space-y-2">
+                <div className="flex items-start gap-2">
+                  <RadioGroupItem value="merge" id="restore-merge" className="mt-1" />
+                  <Label htmlFor="restore-merge" className="font-normal">
+                    <span className="font-medium">Merge</span> - add what is missing and keep whichever
+                    version of an application was updated last. Your settings stay as they are.
+                  </Label>
+                </div>
+                <div className="flex items-start gap-2">
+                  <RadioGroupItem value="replace" id="restore-replace" className="mt-1" />
+                  <Label htmlFor="restore-replace" className="font-normal">
+                    <span className="font-medium">Replace</span> - make this browser an exact copy of the backup.
+                  </Label>
+                </div>
+              </RadioGroup>
+
+              <div className="flex justify-end">
+                <Button onClick={handleRestore}>Restore</Button>
+              </div>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
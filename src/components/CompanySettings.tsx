@@ -0,0 +1,231 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Company } from '@/lib/types';
+import { companyDirectory } from '@/lib/companies';
+import { linkedInService } from '@/lib/linkedin/LinkedInService';
+import { useCompanies } from '@/hooks/use-companies';
+import { Trash, X, LinkedinLogo, MagnifyingGlass } from '@phosphor-icons/react';
+import { toast } from 'sonner';
+
+function CompanyRow({ company, companies }: { company: Company; companies: Company[] }) {
+  const [name, setName] = useState(company.name);
+  const [newAlias, setNewAlias] = useState('');
+  const [newDomain, setNewDomain] = useState('');
+  const [isLinking, setIsLinking] = useState(false);
+
+  useEffect(() => {
+    setName(company.name);
+  }, [company.name]);
+
+  const saveName = () => {
+    const trimmed = name.trim();
+    if (!trimmed || trimmed === company.name) {
+      setName(company.name);
+      return;
+    }
+    // Keep the old spelling resolvable
+    companyDirectory.updateCompany(company.id, {
+      name: trimmed,
+      aliases: [...new Set([...company.aliases, company.name])].filter(alias => alias !== trimmed),
+    });
+  };
+
+  const addAlias = () => {
+    const alias = newAlias.trim();
+    if (!alias) return;
+
+    const owner = companyDirectory.resolve(alias);
+    if (owner && owner.id !== company.id) {
+      toast.error(`"${alias}" already belongs to ${owner.name}. Merge the companies instead.`);
+      return;
+    }
+
+    companyDirectory.updateCompany(company.id, { aliases: [...new Set([...company.aliases, alias])] });
+    setNewAlias('');
+  };
+
+  const addDomain = () => {
+    const domain = newDomain.trim().toLowerCase().replace(/^.*@/, '');
+    if (!domain) return;
+
+    companyDirectory.updateCompany(company.id, { domains: [...new Set([...company.domains, domain])] });
+    setNewDomain('');
+  };
+
+  const handleFindOnLinkedIn = async () => {
+    setIsLinking(true);
+    try {
+      const found = await companyDirectory.linkLinkedInCompany(company.id);
+      if (found) {
+        toast.success(`Linked ${company.name} to LinkedIn`);
+      } else {
+        toast.error(`No exact LinkedIn match for ${company.name}`);
+      }
+    } finally {
+      setIsLinking(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete ${company.name}? Applications keep their company name.`)) {
+      companyDirectory.deleteCompany(company.id);
+    }
+  };
+
+  return (
+    <div className="border rounded-lg p-3 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onBlur={saveName}
+          onKeyDown={(e) => e.key === 'Enter' && saveName()}
+          className="w-56 font-medium"
+        />
+
+        {company.linkedInId ? (
+          <Badge variant="secondary" className="gap-1">
+            <LinkedinLogo size={12} />
+            {company.linkedInId}
+          </Badge>
+        ) : (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleFindOnLinkedIn}
+            disabled={isLinking || !linkedInService.isAuthenticated()}
+            className="gap-2"
+          >
+            <LinkedinLogo size={14} />
+            {isLinking ? 'Searching...' : 'Find on LinkedIn'}
+          </Button>
+        )}
+
+        <Select onValueChange={(targetId) => companyDirectory.mergeCompanies(targetId, company.id)}>
+          <SelectTrigger className="w-44 h-8 ml-auto">
+            <SelectValue placeholder="Merge into..." />
+          </SelectTrigger>
+          <SelectContent>
+            {companies.filter(other => other.id !== company.id).map(other => (
+              <SelectItem key={other.id} value={other.id}>
+                {other.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={handleDelete}
+          className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+        >
+          <Trash size={14} />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">Aliases</p>
+          <div className="flex flex-wrap gap-1">
+            {company.aliases.map(alias => (
+              <Badge key={alias} variant="outline" className="gap-1">
+                {alias}
+                <button
+                  onClick={() => companyDirectory.updateCompany(company.id, {
+                    aliases: company.aliases.filter(item => item !== alias)
+                  })}
+                >
+                  <X size={10} />
+                </button>
+              </Badge>
+            ))}
+          </div>
+          <Input
+            placeholder="Add alias (e.g. Hebrew name)"
+            value={newAlias}
+            onChange={(e) => setNewAlias(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addAlias()}
+            className="h-8"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">Email domains</p>
+          <div className="flex flex-wrap gap-1">
+            {company.domains.map(domain => (
+              <Badge key={domain} variant="outline" className="gap-1">
+                {domain}
+                <button
+                  onClick={() => companyDirectory.updateCompany(company.id, {
+                    domains: company.domains.filter(item => item !== domain)
+                  })}
+                >
+                  <X size={10} />
+                </button>
+              </Badge>
+            ))}
+          </div>
+          <Input
+            placeholder="Add domain (e.g. wix.com)"
+            value={newDomain}
+            onChange={(e) => setNewDomain(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addDomain()}
+            className="h-8"
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function CompanySettings() {
+  const companies = useCompanies();
+  const [search, setSearch] = useState('');
+
+  const query = search.toLowerCase().trim();
+  const filteredCompanies = companies.filter(company =>
+    !query ||
+    [company.name, ...company.aliases, ...company.domains].some(value => value.toLowerCase().includes(query))
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Companies</CardTitle>
+        <CardDescription>
+          Companies are created as you add applications. Aliases and email domains let
+          different spellings ("Wix", "Wix.com Ltd", "וויקס") resolve to the same company
+          for duplicate detection and email sync.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="relative max-w-sm">
+          <MagnifyingGlass size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            placeholder="Search companies"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+
+        {filteredCompanies.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {companies.length === 0 ? 'No companies yet.' : 'No companies match your search.'}
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {filteredCompanies.map(company => (
+              <CompanyRow key={company.id} company={company} companies={companies} />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
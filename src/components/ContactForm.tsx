@@ -0,0 +1,158 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Contact } from '@/lib/types';
+import { contactBook } from '@/lib/contacts';
+import { toast } from 'sonner';
+
+interface ContactFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  contact?: Contact | null;
+}
+
+const emptyForm = {
+  name: '',
+  emails: '',
+  phone: '',
+  company: '',
+  role: '',
+  linkedInUrl: '',
+  notes: '',
+};
+
+export function ContactForm({ open, onOpenChange, contact }: ContactFormProps) {
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    if (!open) return;
+    setFormData(contact ? {
+      name: contact.name,
+      emails: contact.emails.join(', '),
+      phone: contact.phone || '',
+      company: contact.company || '',
+      role: contact.role || '',
+      linkedInUrl: contact.linkedInUrl || '',
+      notes: contact.notes || '',
+    } : emptyForm);
+  }, [open, contact]);
+
+  const updateField = (field: keyof typeof emptyForm, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      contactBook.saveContact({
+        id: contact?.id,
+        name: formData.name.trim(),
+        emails: formData.emails.split(/[,;\s]+/),
+        phone: formData.phone.trim() || undefined,
+        company: formData.company.trim() || undefined,
+        role: formData.role.trim() || undefined,
+        linkedInUrl: formData.linkedInUrl.trim() || undefined,
+        notes: formData.notes.trim() || undefined,
+      });
+      toast.success(contact ? 'Contact updated' : 'Contact added');
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save contact');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{contact ? 'Edit Contact' : 'Add Contact'}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="contact-name">Name</Label>
+            <Input
+              id="contact-name"
+              value={formData.name}
+              onChange={(e) => updateField('name', e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="contact-emails">Emails</Label>
+            <Input
+              id="contact-emails"
+              placeholder="Separate multiple addresses with commas"
+              value={formData.emails}
+              onChange={(e) => updateField('emails', e.target.value)}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="contact-company">Company</Label>
+              <Input
+                id="contact-company"
+                value={formData.company}
+                onChange={(e) => updateField('company', e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="contact-role">Role</Label>
+              <Input
+                id="contact-role"
+                placeholder="Recruiter, Hiring Manager..."
+                value={formData.role}
+                onChange={(e) => updateField('role', e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="contact-phone">Phone</Label>
+              <Input
+                id="contact-phone"
+                type="tel"
+                value={formData.phone}
+                onChange={(e) => updateField('phone', e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="contact-linkedin">LinkedIn URL</Label>
+              <Input
+                id="contact-linkedin"
+                type="url"
+                value={formData.linkedInUrl}
+                onChange={(e) => updateField('linkedInUrl', e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="contact-notes">Notes</Label>
+            <Textarea
+              id="contact-notes"
+              value={formData.notes}
+              onChange={(e) => updateField('notes', e.target.value)}
+              rows={3}
+            />
+          </div>
+
+          <div className="flex gap-2">
+            <Button type="submit" className="flex-1">
+              {contact ? 'Update Contact' : 'Add Contact'}
+            </Button>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
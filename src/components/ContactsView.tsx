@@ -0,0 +1,196 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { ContactForm } from './ContactForm';
+import { Contact, JobApplication } from '@/lib/types';
+import { contactBook, getApplicationsForContact } from '@/lib/contacts';
+import { getStatusLabel, getStatusColor } from '@/lib/applications';
+import { useContacts } from '@/hooks/use-contacts';
+import { Plus, Pencil, Trash, Envelope, Phone, LinkedinLogo, AddressBook, MagnifyingGlass, ArrowsClockwise } from '@phosphor-icons/react';
+import { toast } from 'sonner';
+
+interface ContactsViewProps {
+  applications: JobApplication[];
+  onApplicationsChange: (applications: JobApplication[]) => void;
+}
+
+export function ContactsView({ applications, onApplicationsChange }: ContactsViewProps) {
+  const contacts = useContacts();
+  const [search, setSearch] = useState('');
+  const [showForm, setShowForm] = useState(false);
+  const [editingContact, setEditingContact] = useState<Contact | null>(null);
+
+  const query = search.toLowerCase().trim();
+  const filteredContacts = contacts.filter(contact =>
+    !query ||
+    contact.name.toLowerCase().includes(query) ||
+    contact.company?.toLowerCase().includes(query) ||
+    contact.role?.toLowerCase().includes(query) ||
+    contact.emails.some(email => email.includes(query))
+  );
+
+  const handleScanApplications = () => {
+    const before = contactBook.getContacts().length;
+    const updated = contactBook.linkApplications(applications);
+    onApplicationsChange(updated);
+
+    const added = contactBook.getContacts().length - before;
+    toast.success(added > 0
+      ? `Found ${added} new contact(s) in your applications`
+      : 'No new contacts found');
+  };
+
+  const handleDelete = (contact: Contact) => {
+    if (!window.confirm(`Delete ${contact.name}? They will be unlinked from all applications.`)) {
+      return;
+    }
+
+    contactBook.deleteContact(contact.id);
+    onApplicationsChange(applications.map(application =>
+      application.contactIds?.includes(contact.id)
+        ? { ...application, contactIds: application.contactIds.filter(id => id !== contact.id) }
+        : application
+    ));
+    toast.success('Contact deleted');
+  };
+
+  const openForm = (contact: Contact | null) => {
+    setEditingContact(contact);
+    setShowForm(true);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center justify-between">
+        <div className="flex items-center gap-2">
+          <AddressBook size={20} />
+          <h2 className="text-2xl font-bold">Contacts</h2>
+          <Badge variant="secondary">{contacts.length}</Badge>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleScanApplications} className="gap-2">
+            <ArrowsClockwise size={16} />
+            Find in Applications
+          </Button>
+          <Button onClick={() => openForm(null)} className="gap-2">
+            <Plus size={16} />
+            Add Contact
+          </Button>
+        </div>
+      </div>
+
+      <div className="relative max-w-sm">
+        <MagnifyingGlass size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          placeholder="Search by name, company or email"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="pl-9"
+        />
+      </div>
+
+      {filteredContacts.length === 0 ? (
+        <Card className="p-12">
+          <div className="flex flex-col items-center text-center space-y-2">
+            <AddressBook size={48} className="text-muted-foreground" />
+            <h3 className="text-lg font-semibold">
+              {contacts.length === 0 ? 'No contacts yet' : 'No contacts match your search'}
+            </h3>
+            <p className="text-muted-foreground max-w-md">
+              {contacts.length === 0
+                ? 'Recruiters and interviewers are added automatically from synced emails. You can also add them yourself.'
+                : 'Try a different name, company or email address.'}
+            </p>
+          </div>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {filteredContacts.map(contact => {
+            const contactApplications = getApplicationsForContact(contact.id, applications);
+
+            return (
+              <Card key={contact.id}>
+                <CardHeader className="pb-3">
+                  <div className="flex items-start justify-between">
+                    <div className="space-y-1">
+                      <h3 className="font-semibold text-lg leading-tight">{contact.name}</h3>
+                      {(contact.role || contact.company) && (
+                        <p className="text-sm text-muted-foreground">
+                          {[contact.role, contact.company].filter(Boolean).join(' at ')}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex gap-1">
+                      <Button variant="ghost" size="sm" onClick={() => openForm(contact)} className="h-8 w-8 p-0">
+                        <Pencil size={14} />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(contact)}
+                        className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                      >
+                        <Trash size={14} />
+                      </Button>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {contact.emails.map(email => (
+                    <a
+                      key={email}
+                      href={`mailto:${email}`}
+                      className="flex items-center gap-2 text-sm text-muted-foreground hover:underline"
+                    >
+                      <Envelope size={14} />
+                      {email}
+                    </a>
+                  ))}
+                  {contact.phone && (
+                    <a href={`tel:${contact.phone}`} className="flex items-center gap-2 text-sm text-muted-foreground hover:underline">
+                      <Phone size={14} />
+                      {contact.phone}
+                    </a>
+                  )}
+                  {contact.linkedInUrl && (
+                    <a
+                      href={contact.linkedInUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-2 text-sm text-muted-foreground hover:underline"
+                    >
+                      <LinkedinLogo size={14} />
+                      LinkedIn profile
+                    </a>
+                  )}
+
+                  <div className="border-t pt-3 space-y-2">
+                    <p className="text-sm font-medium">Applications ({contactApplications.length})</p>
+                    {contactApplications.map(application => (
+                      <div key={application.id} className="flex items-center justify-between gap-2 text-sm">
+                        <span className="truncate">
+                          {application.position} <span className="text-muted-foreground">at {application.company}</span>
+                        </span>
+                        <Badge className={getStatusColor(application.status)}>
+                          {getStatusLabel(application.status)}
+                        </Badge>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <ContactForm
+        open={showForm}
+        onOpenChange={setShowForm}
+        contact={editingContact}
+      />
+    </div>
+  );
+}
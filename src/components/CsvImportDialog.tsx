@@ -0,0 +1,265 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { JobApplication } from '@/lib/types';
+import { parseCsv } from '@/lib/csv';
+import {
+  ImportTarget,
+  ImportPreviewRow,
+  importTargetLabels,
+  guessColumnMapping,
+  buildImportPreview,
+  createImportedApplications,
+} from '@/lib/application-csv';
+import { getStatusLabel } from '@/lib/applications';
+import { pipeline } from '@/lib/pipeline';
+import { useCustomFields } from '@/hooks/use-custom-fields';
+import { UploadSimple, ArrowLeft, ArrowRight } from '@phosphor-icons/react';
+import { toast } from 'sonner';
+
+interface CsvImportDialogProps {
+  applications: JobApplication[];
+  onImport: (applications: JobApplication[], label: string) => void;
+}
+
+type Step = 'upload' | 'mapping' | 'preview';
+
+export function CsvImportDialog({ applications, onImport }: CsvImportDialogProps) {
+  const customFields = useCustomFields();
+  const [open, setOpen] = useState(false);
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ImportTarget[]>([]);
+  const [preview, setPreview] = useState<ImportPreviewRow[]>([]);
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setHeaders([]);
+    setRows([]);
+    setMapping([]);
+    setPreview([]);
+    setIncludeDuplicates(false);
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) reset();
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    try {
+      const [headerRow, ...dataRows] = parseCsv(await file.text());
+      if (!headerRow || dataRows.length === 0) {
+        toast.error('The file has no data rows');
+        return;
+      }
+
+      setFileName(file.name);
+      setHeaders(headerRow);
+      setRows(dataRows);
+      setMapping(guessColumnMapping(headerRow, customFields));
+      setStep('mapping');
+    } catch (error) {
+      console.error('Error reading CSV:', error);
+      toast.error('Could not read the file');
+    }
+  };
+
+  const isMapped = (target: ImportTarget) => mapping.includes(target);
+
+  const handleShowPreview = () => {
+    setPreview(buildImportPreview(rows, mapping, applications, customFields));
+    setStep('preview');
+  };
+
+  const importable = preview.filter(row => row.errors.length === 0 && (includeDuplicates || !row.duplicateOf));
+  const duplicateCount = preview.filter(row => row.duplicateOf).length;
+  const errorCount = preview.filter(row => row.errors.length > 0).length;
+
+  const handleImport = () => {
+    const imported = createImportedApplications(preview, includeDuplicates);
+    onImport([...applications, ...imported], `Import ${imported.length} application(s) from ${fileName}`);
+    toast.success(`Imported ${imported.length} application(s)`);
+    handleOpenChange(false);
+  };
+
+  const targetOptions: Array<[ImportTarget, string]> = [
+    ...(Object.entries(importTargetLabels) as Array<[ImportTarget, string]>),
+    ...customFields.map((definition): [ImportTarget, string] => [`custom:${definition.id}`, definition.label]),
+  ];
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <UploadSimple size={14} />
+          Import CSV
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Applications from CSV</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Works with exports from Huntr, Teal, spreadsheets and this app.'}
+            {step === 'mapping' && `Choose where each column of ${fileName} goes.`}
+            {step === 'preview' && 'Check the rows before importing. Nothing is saved until you confirm.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-2">
+            <Label htmlFor="csv-file">CSV file</Label>
+            <Input
+              id="csv-file"
+              type="file"
+              accept=".csv,.tsv,text/csv"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </div>
+        )}
+
+        {step === 'mapping' && (
+          <div className="space-y-4">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground border-b">
+                  <th className="py-2 font-medium">Column</th>
+                  <th className="py-2 font-medium">First value</th>
+                  <th className="py-2 font-medium">Import as</th>
+                </tr>
+              </thead>
+              <tbody>
+                {headers.map((header, index) => (
+                  <tr key={`${header}-${index}`} className="border-b last:border-0">
+                    <td className="py-2 pr-2 font-medium">{header || `Column ${index + 1}`}</td>
+                    <td className="py-2 pr-2 text-muted-foreground max-w-[200px] truncate">{rows[0]?.[index]}</td>
+                    <td className="py-2">
+                      <Select
+                        value={mapping[index]}
+                        onValueChange={(value) => setMapping(current =>
+                          current.map((target, i) => i === index ? value as ImportTarget : target)
+                        )}
+                      >
+                        <SelectTrigger className="w-56">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {targetOptions.map(([target, label]) => (
+                            <SelectItem key={target} value={target}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {(!isMapped('company') || !isMapped('position')) && (
+              <p className="text-sm text-destructive">Map a column to Company and one to Position to continue.</p>
+            )}
+
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={reset} className="gap-2">
+                <ArrowLeft size={14} />
+                Back
+              </Button>
+              <Button onClick={handleShowPreview} disabled={!isMapped('company') || !isMapped('position')} className="gap-2">
+                Preview
+                <ArrowRight size={14} />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="secondary">{preview.length} rows</Badge>
+              {duplicateCount > 0 && <Badge variant="outline">{duplicateCount} duplicates</Badge>}
+              {errorCount > 0 && <Badge variant="destructive">{errorCount} with errors</Badge>}
+            </div>
+
+            {duplicateCount > 0 && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="include-duplicates"
+                  checked={includeDuplicates}
+                  onCheckedChange={(checked) => setIncludeDuplicates(checked === true)}
+                />
+                <Label htmlFor="include-duplicates" className="font-normal">
+                  Import duplicates anyway
+                </Label>
+              </div>
+            )}
+
+            <div className="max-h-96 overflow-y-auto border rounded-md">
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-background">
+                  <tr className="text-left text-muted-foreground border-b">
+                    <th className="p-2 font-medium">Row</th>
+                    <th className="p-2 font-medium">Company</th>
+                    <th className="p-2 font-medium">Position</th>
+                    <th className="p-2 font-medium">Status</th>
+                    <th className="p-2 font-medium">Applied</th>
+                    <th className="p-2 font-medium">Notes</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.map(row => (
+                    <tr
+                      key={row.rowNumber}
+                      className={`border-b last:border-0 ${row.errors.length > 0 || (row.duplicateOf && !includeDuplicates) ? 'opacity-50' : ''}`}
+                    >
+                      <td className="p-2 text-muted-foreground">{row.rowNumber}</td>
+                      <td className="p-2">{row.data.company}</td>
+                      <td className="p-2">{row.data.position}</td>
+                      <td className="p-2">{getStatusLabel(row.data.status || pipeline.getDefaultStageId())}</td>
+                      <td className="p-2">{row.data.appliedDate}</td>
+                      <td className="p-2 text-xs space-y-1">
+                        {row.errors.map(error => (
+                          <p key={error} className="text-destructive">{error}</p>
+                        ))}
+                        {row.duplicateOf && (
+                          <p className="text-muted-foreground">
+                            Duplicate of {row.duplicateOf.position} at {row.duplicateOf.company}
+                          </p>
+                        )}
+                        {row.warnings.map(warning => (
+                          <p key={warning} className="text-yellow-700">{warning}</p>
+                        ))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={() => setStep('mapping')} className="gap-2">
+                <ArrowLeft size={14} />
+                Back
+              </Button>
+              <Button onClick={handleImport} disabled={importable.length === 0}>
+                Import {importable.length} Application(s)
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
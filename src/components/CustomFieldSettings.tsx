@@ -0,0 +1,194 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CustomFieldDefinition, CustomFieldType } from '@/lib/types';
+import { customFieldRegistry, customFieldTypeLabels, addTags } from '@/lib/custom-fields';
+import { useCustomFields } from '@/hooks/use-custom-fields';
+import { ArrowUp, ArrowDown, Trash, Plus, X } from '@phosphor-icons/react';
+import { toast } from 'sonner';
+
+function CustomFieldRow({ definition, index, count }: { definition: CustomFieldDefinition; index: number; count: number }) {
+  const [newOption, setNewOption] = useState('');
+
+  const addOption = () => {
+    if (!newOption.trim()) return;
+    customFieldRegistry.updateDefinition(definition.id, {
+      options: addTags(definition.options, [newOption]),
+    });
+    setNewOption('');
+  };
+
+  const removeOption = (option: string) => {
+    const options = (definition.options || []).filter(item => item !== option);
+    if (options.length === 0) {
+      toast.error('Select fields need at least one option');
+      return;
+    }
+    customFieldRegistry.updateDefinition(definition.id, { options });
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete the "${definition.label}" field? Values on applications will be hidden.`)) {
+      customFieldRegistry.removeDefinition(definition.id);
+    }
+  };
+
+  return (
+    <div className="border rounded-lg p-3 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex flex-col">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => customFieldRegistry.moveDefinition(definition.id, -1)}
+            disabled={index === 0}
+            className="h-5 w-6 p-0"
+          >
+            <ArrowUp size={12} />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => customFieldRegistry.moveDefinition(definition.id, 1)}
+            disabled={index === count - 1}
+            className="h-5 w-6 p-0"
+          >
+            <ArrowDown size={12} />
+          </Button>
+        </div>
+
+        <Input
+          defaultValue={definition.label}
+          onBlur={(e) => {
+            const label = e.target.value.trim();
+            if (label && label !== definition.label) {
+              customFieldRegistry.updateDefinition(definition.id, { label });
+            } else {
+              e.target.value = definition.label;
+            }
+          }}
+          className="w-56 font-medium"
+        />
+        <Badge variant="secondary">{customFieldTypeLabels[definition.type]}</Badge>
+
+        <label className="flex items-center gap-2 text-sm ml-auto">
+          Show on card
+          <Switch
+            checked={definition.showOnCard}
+            onCheckedChange={(checked) => customFieldRegistry.updateDefinition(definition.id, { showOnCard: checked })}
+          />
+        </label>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={handleDelete}
+          className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+        >
+          <Trash size={14} />
+        </Button>
+      </div>
+
+      {definition.type === 'select' && (
+        <div className="flex flex-wrap items-center gap-1">
+          {(definition.options || []).map(option => (
+            <Badge key={option} variant="outline" className="gap-1">
+              {option}
+              <button onClick={() => removeOption(option)}>
+                <X size={10} />
+              </button>
+            </Badge>
+          ))}
+          <Input
+            placeholder="Add option"
+            value={newOption}
+            onChange={(e) => setNewOption(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addOption()}
+            className="h-7 w-36"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function CustomFieldSettings() {
+  const definitions = useCustomFields();
+  const [label, setLabel] = useState('');
+  const [type, setType] = useState<CustomFieldType>('text');
+  const [options, setOptions] = useState('');
+
+  const handleAdd = () => {
+    try {
+      customFieldRegistry.addDefinition(label, type, options.split(','));
+      setLabel('');
+      setOptions('');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to add field');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Custom Fields</CardTitle>
+        <CardDescription>
+          Track extra details such as work model, referral or visa sponsorship. Fields
+          can be edited on every application and used as filters in the application list.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {definitions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No custom fields yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {definitions.map((definition, index) => (
+              <CustomFieldRow
+                key={definition.id}
+                definition={definition}
+                index={index}
+                count={definitions.length}
+              />
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2 items-center">
+          <Input
+            placeholder="Field name, e.g. Work model"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            className="w-56"
+          />
+          <Select value={type} onValueChange={(value) => setType(value as CustomFieldType)}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(customFieldTypeLabels).map(([value, typeLabel]) => (
+                <SelectItem key={value} value={value}>
+                  {typeLabel}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {type === 'select' && (
+            <Input
+              placeholder="Options, comma separated"
+              value={options}
+              onChange={(e) => setOptions(e.target.value)}
+              className="w-64"
+            />
+          )}
+          <Button variant="outline" onClick={handleAdd} disabled={!label.trim()} className="gap-2">
+            <Plus size={16} />
+            Add Field
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
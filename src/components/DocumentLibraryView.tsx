@@ -0,0 +1,258 @@
+import { useState, useRef } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DocumentKind, DocumentVersion, JobApplication } from '@/lib/types';
+import { documentLibrary, documentKindLabels, formatFileSize } from '@/lib/documents';
+import { useDocuments } from '@/hooks/use-documents';
+import { DownloadSimple, Trash, UploadSimple, Files, ChartBar } from '@phosphor-icons/react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+
+interface DocumentLibraryViewProps {
+  applications: JobApplication[];
+}
+
+export function DocumentLibraryView({ applications }: DocumentLibraryViewProps) {
+  const documents = useDocuments();
+  const [kind, setKind] = useState<DocumentKind>('resume');
+  const [name, setName] = useState('');
+  const [notes, setNotes] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const existingNames = documentLibrary.getDocumentNames(kind);
+  const resumeStats = documentLibrary.getResumeStats(applications);
+
+  // Group versions by kind and name, newest version first (getDocuments is already sorted)
+  const groups = documents.reduce<Record<string, DocumentVersion[]>>((result, document) => {
+    const key = `${document.kind}:${document.name}`;
+    (result[key] = result[key] || []).push(document);
+    return result;
+  }, {});
+
+  const usageCount = (id: string) =>
+    applications.filter(application => application.documentIds?.includes(id)).length;
+
+  const handleUpload = async () => {
+    if (!file) return;
+
+    setIsUploading(true);
+    try {
+      const document = await documentLibrary.addVersion(file, kind, name || file.name.replace(/\.[^.]+$/, ''), notes);
+      toast.success(`Saved ${document.name} v${document.version}`);
+      setName('');
+      setNotes('');
+      setFile(null);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save document');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleDownload = async (id: string) => {
+    try {
+      await documentLibrary.download(id);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to download document');
+    }
+  };
+
+  const handleDelete = async (document: DocumentVersion) => {
+    const used = usageCount(document.id);
+    const warning = used > 0 ? ` It is linked to ${used} application(s).` : '';
+    if (!window.confirm(`Delete ${document.name} v${document.version}?${warning}`)) return;
+
+    try {
+      await documentLibrary.deleteVersion(document.id);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete document');
+    }
+  };
+
+  const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2">
+        <Files size={20} />
+        <h2 className="text-2xl font-bold">Documents</h2>
+        <Badge variant="secondary">{documents.length}</Badge>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Add a Version</CardTitle>
+          <CardDescription>
+            Files are stored in this browser only. Uploading under an existing name adds a
+            new version, so you can tell which resume went to which company.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={kind} onValueChange={(value) => setKind(value as DocumentKind)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(documentKindLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="document-name">Name</Label>
+              <Input
+                id="document-name"
+                list="document-names"
+                placeholder="e.g. Backend resume"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+              <datalist id="document-names">
+                {existingNames.map(existing => (
+                  <option key={existing} value={existing} />
+                ))}
+              </datalist>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="document-file">File</Label>
+              <Input
+                id="document-file"
+                ref={fileInputRef}
+                type="file"
+                accept=".pdf,.doc,.docx,.txt,.md,.rtf"
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+              />
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Input
+              placeholder="What changed in this version? (optional)"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+            <Button onClick={handleUpload} disabled={!file || isUploading} className="gap-2">
+              <UploadSimple size={16} />
+              {isUploading ? 'Saving...' : 'Save Version'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {resumeStats.some(stats => stats.sent > 0) && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ChartBar size={18} />
+              Resume Performance
+            </CardTitle>
+            <CardDescription>
+              A response is any reply that moved the application past "applied", rejections included.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground border-b">
+                  <th className="py-2 font-medium">Version</th>
+                  <th className="py-2 font-medium text-right">Sent</th>
+                  <th className="py-2 font-medium text-right">Responses</th>
+                  <th className="py-2 font-medium text-right">Interviews</th>
+                </tr>
+              </thead>
+              <tbody>
+                {resumeStats.filter(stats => stats.sent > 0).map(stats => (
+                  <tr key={stats.document.id} className="border-b last:border-0">
+                    <td className="py-2">{stats.document.name} v{stats.document.version}</td>
+                    <td className="py-2 text-right">{stats.sent}</td>
+                    <td className="py-2 text-right">
+                      {stats.responses} ({formatPercent(stats.responseRate)})
+                    </td>
+                    <td className="py-2 text-right">
+                      {stats.interviews} ({formatPercent(stats.interviewRate)})
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+
+      {documents.length === 0 ? (
+        <Card className="p-12">
+          <div className="flex flex-col items-center text-center space-y-2">
+            <Files size={48} className="text-muted-foreground" />
+            <h3 className="text-lg font-semibold">No documents yet</h3>
+            <p className="text-muted-foreground max-w-md">
+              Upload your resumes and cover letters, then link them to applications from the edit form.
+            </p>
+          </div>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {Object.entries(groups).map(([key, versions]) => (
+            <Card key={key}>
+              <CardHeader className="pb-3">
+                <div className="flex items-center gap-2">
+                  <h3 className="font-semibold">{versions[0].name}</h3>
+                  <Badge variant="outline">{documentKindLabels[versions[0].kind]}</Badge>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {versions.map(document => (
+                  <div key={document.id} className="flex items-start gap-2 text-sm">
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium">
+                        v{document.version}
+                        <span className="font-normal text-muted-foreground">
+                          {' '}· {document.fileName} · {formatFileSize(document.size)} · {format(new Date(document.createdAt), 'MMM dd, yyyy')}
+                        </span>
+                      </p>
+                      {document.notes && (
+                        <p className="text-xs text-muted-foreground">{document.notes}</p>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        Used in {usageCount(document.id)} application(s)
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDownload(document.id)}
+                      className="h-8 w-8 p-0"
+                    >
+                      <DownloadSimple size={14} />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(document)}
+                      className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                    >
+                      <Trash size={14} />
+                    </Button>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -7,7 +7,11 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { parseEmailWithStatusDetection, EnhancedParsedEmailData } from '@/lib/emailParser';
+import { decodePastedEmail } from '@/lib/mime';
 import { ApplicationStatus, ParsedEmailData } from '@/lib/types';
+import { pipeline } from '@/lib/pipeline';
+import { getStatusLabel } from '@/lib/applications';
+import { usePipelineStages } from '@/hooks/use-pipeline';
 import { Envelope, Gear, Robot, CheckCircle, Clock, XCircle } from '@phosphor-icons/react';
 
 interface EmailParserDialogProps {
@@ -16,6 +20,7 @@ interface EmailParserDialogProps {
 }
 
 export function EmailParserDialog({ onParsed, children }: EmailParserDialogProps) {
+  const stages = usePipelineStages();
   const [open, setOpen] = useState(false);
   const [emailContent, setEmailContent] = useState('');
   const [emailSubject, setEmailSubject] = useState('');
@@ -27,23 +32,26 @@ export function EmailParserDialog({ onParsed, children }: EmailParserDialogProps
     if (!emailContent.trim()) return;
     
     setIsProcessing(true);
+
+    // Pasted message source or quoted-printable bodies are decoded first
+    const email = decodePastedEmail(emailContent);
     
     try {
       // Use AI-enhanced parsing
       const parsed = await parseEmailWithStatusDetection(
-        emailSubject || 'Email Content',
-        emailContent,
-        senderEmail || 'unknown@example.com'
+        emailSubject || email.subject || 'Email Content',
+        email.text,
+        senderEmail || email.from || 'unknown@example.com'
       );
       setParsedData(parsed);
     } catch (error) {
       console.error('Enhanced parsing failed:', error);
       // Fallback to basic parsing if AI fails
       const { parseEmailContent } = await import('@/lib/emailParser');
-      const basicParsed = parseEmailContent(emailContent);
+      const basicParsed = parseEmailContent(email.text);
       setParsedData({
         ...basicParsed,
-        detectedStatus: 'applied'
+        detectedStatus: pipeline.getDefaultStageId()
       });
     } finally {
       setIsProcessing(false);
@@ -143,7 +151,7 @@ export function EmailParserDialog({ onParsed, children }: EmailParserDialogProps
                       <Label className="text-sm text-blue-700">Detected Status</Label>
                       <div className="flex items-center gap-2 mt-1">
                         <Badge variant={parsedData.statusAnalysis.confidence > 0.7 ? 'default' : 'secondary'}>
-                          {parsedData.detectedStatus}
+                          {parsedData.detectedStatus && getStatusLabel(parsedData.detectedStatus)}
                         </Badge>
                         {parsedData.statusAnalysis.confidence > 0.8 && <CheckCircle size={16} className="text-green-600" />}
                         {parsedData.statusAnalysis.confidence <= 0.8 && parsedData.statusAnalysis.confidence > 0.6 && <Clock size={16} className="text-yellow-600" />}
@@ -161,7 +169,7 @@ export function EmailParserDialog({ onParsed, children }: EmailParserDialogProps
                     <div>
                       <Label className="text-sm text-blue-700">Status Override</Label>
                       <Select 
-                        value={parsedData.detectedStatus || 'applied'} 
+                        value={parsedData.detectedStatus || pipeline.getDefaultStageId()} 
                         onValueChange={(value: ApplicationStatus) => 
                           setParsedData({...parsedData, detectedStatus: value})
                         }
@@ -170,11 +178,11 @@ export function EmailParserDialog({ onParsed, children }: EmailParserDialogProps
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="applied">Applied</SelectItem>
-                          <SelectItem value="interview">Interview</SelectItem>
-                          <SelectItem value="offer">Offer</SelectItem>
-                          <SelectItem value="rejected">Rejected</SelectItem>
-                          <SelectItem value="withdrawn">Withdrawn</SelectItem>
+                          {stages.map((stage) => (
+                            <SelectItem key={stage.id} value={stage.id}>
+                              {stage.label}
+                            </SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
                     </div>
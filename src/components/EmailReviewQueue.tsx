@@ -7,21 +7,25 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { syncScheduler, ReviewQueueItem } from '@/lib/gmail/SyncScheduler';
 import { JobApplication } from '@/lib/types';
+import { commandHistory, ApplicationAddOptions } from '@/lib/history';
 import { Envelope, Check, X, Eye, Calendar, Buildings, User, LinkSimple } from '@phosphor-icons/react';
 import { toast } from 'sonner';
 
 interface EmailReviewQueueProps {
-  onApplicationAdd?: (application: Omit<JobApplication, 'id'>) => void;
+  onApplicationAdd?: (application: Omit<JobApplication, 'id'>, options?: ApplicationAddOptions) => void;
+  onReviewItemsRemoved?: (label: string, items: ReviewQueueItem[]) => void; // records rejections for undo
   onQueueChange?: () => void;
 }
 
-export function EmailReviewQueue({ onApplicationAdd, onQueueChange }: EmailReviewQueueProps) {
+export function EmailReviewQueue({ onApplicationAdd, onReviewItemsRemoved, onQueueChange }: EmailReviewQueueProps) {
   const [reviewQueue, setReviewQueue] = useState<ReviewQueueItem[]>([]);
   const [selectedItem, setSelectedItem] = useState<ReviewQueueItem | null>(null);
   const [isLoading, setIsLoading] = useState(false);
 
   useEffect(() => {
-    loadReviewQueue();
+    syncScheduler.ready().then(loadReviewQueue);
+    // Undo and redo can put items back into the queue or take them out again
+    return commandHistory.subscribe(loadReviewQueue);
   }, []);
 
   const loadReviewQueue = () => {
@@ -32,7 +36,10 @@ export function EmailReviewQueue({ onApplicationAdd, onQueueChange }: EmailRevie
   const handleApprove = async (item: ReviewQueueItem) => {
     setIsLoading(true);
     try {
-      syncScheduler.approveReviewItem(item.id, onApplicationAdd);
+      await syncScheduler.approveReviewItem(
+        item.id,
+        onApplicationAdd && (application => onApplicationAdd(application, { source: 'review-queue', reviewItem: item }))
+      );
       toast.success(`Added application for ${item.suggestedApplication.position} at ${item.suggestedApplication.company}`);
       loadReviewQueue();
       onQueueChange?.(); // Notify parent of queue change
@@ -48,6 +55,7 @@ export function EmailReviewQueue({ onApplicationAdd, onQueueChange }: EmailRevie
 
   const handleReject = (item: ReviewQueueItem) => {
     syncScheduler.rejectReviewItem(item.id);
+    onReviewItemsRemoved?.(`Reject email from ${item.suggestedApplication.company}`, [item]);
     toast.info('Email rejected and removed from queue');
     loadReviewQueue();
     onQueueChange?.(); // Notify parent of queue change
@@ -57,8 +65,9 @@ export function EmailReviewQueue({ onApplicationAdd, onQueueChange }: EmailRevie
   };
 
   const handleClearQueue = () => {
-    if (window.confirm(`Are you sure you want to clear all ${reviewQueue.length} emails from the review queue? This action cannot be undone.`)) {
+    if (window.confirm(`Are you sure you want to clear all ${reviewQueue.length} emails from the review queue?`)) {
       syncScheduler.clearReviewQueue();
+      onReviewItemsRemoved?.(`Clear ${reviewQueue.length} emails from review queue`, reviewQueue);
       toast.success('Review queue cleared');
       loadReviewQueue();
       onQueueChange?.(); // Notify parent of queue change
@@ -0,0 +1,77 @@
+import { useState, useEffect } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { gmailService, ProcessedEmail } from '@/lib/gmail/GmailService';
+import { gmailAuth } from '@/lib/gmail/GmailAuth';
+import { ArrowClockwise } from '@phosphor-icons/react';
+import { format } from 'date-fns';
+
+interface EmailThreadViewProps {
+  threadIds: string[];
+  messageIds: string[]; // messages the application was built from, highlighted in the thread
+}
+
+export function EmailThreadView({ threadIds, messageIds }: EmailThreadViewProps) {
+  const [emails, setEmails] = useState<ProcessedEmail[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!gmailAuth.getAuthState().isAuthenticated) {
+      setError('Connect Gmail to read the thread');
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    Promise.all(threadIds.map(threadId => gmailService.fetchEmailThread(threadId)))
+      .then(threads => {
+        if (cancelled) return;
+        const messages = threads.flat().map(message => gmailService.readEmail(message));
+        setEmails(messages.sort((a, b) => a.date.localeCompare(b.date)));
+      })
+      .catch(fetchError => {
+        console.error('Error loading email thread:', fetchError);
+        if (!cancelled) setError('Could not load the thread from Gmail');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [threadIds.join(',')]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <ArrowClockwise size={12} className="animate-spin" />
+        Loading thread...
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-xs text-muted-foreground">{error}</p>;
+  }
+
+  return (
+    <div className="space-y-3 max-h-96 overflow-y-auto">
+      {emails.map(email => (
+        <div key={email.id} className="text-xs space-y-1 border-l-2 pl-3">
+          <div className="flex items-center gap-2 flex-wrap">
+            <span className="font-medium">{email.from}</span>
+            <span className="text-muted-foreground">{format(new Date(email.date), 'MMM dd, yyyy HH:mm')}</span>
+            {messageIds.includes(email.id) && (
+              <Badge variant="outline" className="text-xs">Tracked</Badge>
+            )}
+          </div>
+          <p className="text-muted-foreground">{email.subject}</p>
+          <p className="whitespace-pre-wrap break-words">{email.content}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,276 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { TagInput } from '@/components/TagInput';
+import { useGmailFilterSettings } from '@/hooks/use-gmail-filters';
+import {
+  GmailFilterSettings as GmailFilterSettingsData,
+  PreviewOutcome,
+  filterSettings,
+  previewOutcomeLabels,
+  validateFilterSettings
+} from '@/lib/gmail/FilterSettings';
+import { gmailService } from '@/lib/gmail/GmailService';
+import { gmailAuth } from '@/lib/gmail/GmailAuth';
+import { syncScheduler, FilterPreview } from '@/lib/gmail/SyncScheduler';
+import { ArrowCounterClockwise, ArrowClockwise, FloppyDisk, Flask } from '@phosphor-icons/react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+
+const PREVIEW_SIZE = 50;
+const OUTCOMES: PreviewOutcome[] = ['auto-add', 'review', 'needs-ai', 'thread', 'discard'];
+
+type ListField = 'includeKeywords' | 'optionalLabels' | 'excludeKeywords' | 'excludeJobBoards' | 'contextExclusions';
+
+const LIST_FIELDS: Array<{ field: ListField; label: string; description: string; placeholder: string }> = [
+  {
+    field: 'includeKeywords',
+    label: 'Search keywords',
+    description: 'Emails containing any of these are fetched',
+    placeholder: 'Add keywords, e.g. interview, ראיון',
+  },
+  {
+    field: 'optionalLabels',
+    label: 'Gmail labels',
+    description: 'Emails with any of these labels are fetched even without a keyword',
+    placeholder: 'Add labels, e.g. _interviews_',
+  },
+  {
+    field: 'excludeKeywords',
+    label: 'Excluded keywords',
+    description: 'Left out of the search, and lower the confidence of emails that still match',
+    placeholder: 'Add keywords, e.g. webinar',
+  },
+  {
+    field: 'excludeJobBoards',
+    label: 'Excluded job boards',
+    description: 'Sender domains left out of the search',
+    placeholder: 'Add domains, e.g. glassdoor.com',
+  },
+  {
+    field: 'contextExclusions',
+    label: 'Context exclusions',
+    description: 'Phrases that mark an email as unrelated to an application',
+    placeholder: 'Add phrases, e.g. career development workshop',
+  },
+];
+
+const outcomeVariants: Record<PreviewOutcome, 'default' | 'secondary' | 'outline'> = {
+  'auto-add': 'default',
+  review: 'secondary',
+  'needs-ai': 'outline',
+  thread: 'secondary',
+  discard: 'outline',
+};
+
+function toPercent(value: number): string {
+  return String(Math.round(value * 100));
+}
+
+export function GmailFilterSettings() {
+  const settings = useGmailFilterSettings();
+  const [draft, setDraft] = useState<GmailFilterSettingsData>(settings);
+  const [preview, setPreview] = useState<FilterPreview | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+  const [isAuthenticated, setIsAuthenticated] = useState(gmailAuth.getAuthState().isAuthenticated);
+
+  // Saving or resetting replaces the draft
+  useEffect(() => {
+    setDraft(settings);
+  }, [settings]);
+
+  useEffect(() => {
+    return gmailAuth.subscribe(state => setIsAuthenticated(state.isAuthenticated));
+  }, []);
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(settings);
+  const query = gmailService.buildSearchQuery(draft);
+
+  const updateDraft = (updates: Partial<GmailFilterSettingsData>) => {
+    setDraft(current => ({ ...current, ...updates }));
+  };
+
+  const updateThreshold = (key: 'autoProcess' | 'reviewQueue', value: string) => {
+    const percent = parseFloat(value);
+    if (isNaN(percent)) return;
+    updateDraft({ confidenceThresholds: { ...draft.confidenceThresholds, [key]: percent / 100 } });
+  };
+
+  const updateCount = (key: 'lookbackDays' | 'maxEmailsPerSync', value: string) => {
+    const count = parseInt(value);
+    if (isNaN(count)) return;
+    updateDraft({ [key]: count });
+  };
+
+  const save = () => {
+    try {
+      filterSettings.updateSettings(draft);
+      toast.success('Gmail filters saved');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not save the filters');
+    }
+  };
+
+  const runPreview = async () => {
+    try {
+      validateFilterSettings(draft);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Invalid filters');
+      return;
+    }
+
+    setIsTesting(true);
+    try {
+      setPreview(await syncScheduler.previewFilters(draft, PREVIEW_SIZE));
+    } catch (error) {
+      console.error('Error previewing Gmail filters:', error);
+      toast.error('Could not load emails from Gmail');
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Gmail Filters</CardTitle>
+        <CardDescription>
+          Which emails sync fetches from Gmail and how confident it must be before adding an
+          application. Changes are stored locally on top of the defaults in the app's config.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {LIST_FIELDS.map(({ field, label, description, placeholder }) => (
+          <div key={field} className="space-y-2">
+            <div>
+              <Label>{label}</Label>
+              <p className="text-xs text-muted-foreground">{description}</p>
+            </div>
+            <TagInput
+              tags={draft[field]}
+              placeholder={placeholder}
+              onChange={tags => updateDraft({ [field]: tags })}
+            />
+          </div>
+        ))}
+
+        <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+          <div className="space-y-1">
+            <Label htmlFor="filter-auto-process">Auto-add at (%)</Label>
+            <Input
+              id="filter-auto-process"
+              type="number"
+              min="0"
+              max="100"
+              value={toPercent(draft.confidenceThresholds.autoProcess)}
+              onChange={(e) => updateThreshold('autoProcess', e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="filter-review-queue">Review at (%)</Label>
+            <Input
+              id="filter-review-queue"
+              type="number"
+              min="0"
+              max="100"
+              value={toPercent(draft.confidenceThresholds.reviewQueue)}
+              onChange={(e) => updateThreshold('reviewQueue', e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="filter-lookback">Lookback (days)</Label>
+            <Input
+              id="filter-lookback"
+              type="number"
+              min="1"
+              value={draft.lookbackDays}
+              onChange={(e) => updateCount('lookbackDays', e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="filter-max-emails">Emails per sync</Label>
+            <Input
+              id="filter-max-emails"
+              type="number"
+              min="1"
+              value={draft.maxEmailsPerSync}
+              onChange={(e) => updateCount('maxEmailsPerSync', e.target.value)}
+            />
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Emails below the review threshold are discarded.
+        </p>
+
+        <div className="space-y-2">
+          <Label>Gmail search</Label>
+          <pre className="text-xs bg-muted rounded p-3 whitespace-pre-wrap break-all">{query}</pre>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={save} disabled={!isDirty}>
+            <FloppyDisk size={16} className="mr-2" />
+            Save
+          </Button>
+          <Button variant="outline" onClick={runPreview} disabled={!isAuthenticated || isTesting}>
+            {isTesting
+              ? <ArrowClockwise size={16} className="mr-2 animate-spin" />
+              : <Flask size={16} className="mr-2" />}
+            Test against last {PREVIEW_SIZE} emails
+          </Button>
+          <Button variant="ghost" onClick={() => filterSettings.resetToDefaults()}>
+            <ArrowCounterClockwise size={16} className="mr-2" />
+            Reset to defaults
+          </Button>
+        </div>
+        {!isAuthenticated && (
+          <p className="text-xs text-muted-foreground">Connect Gmail to test the filters</p>
+        )}
+
+        {preview && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              {OUTCOMES.map(outcome => (
+                <Badge key={outcome} variant={outcomeVariants[outcome]}>
+                  {previewOutcomeLabels[outcome]}: {preview.items.filter(item => item.outcome === outcome).length}
+                </Badge>
+              ))}
+              {preview.errors.length > 0 && (
+                <span className="text-xs text-destructive">{preview.errors.length} failed to load</span>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Nothing was added, queued or labelled. Linked threads update their application
+              without being scored. A sync sends emails marked Needs AI to AI analysis, which
+              may move them up to the review queue or auto-add.
+            </p>
+            <div className="space-y-2 max-h-96 overflow-y-auto">
+              {preview.items.length === 0 && (
+                <p className="text-sm text-muted-foreground">No emails match this search</p>
+              )}
+              {preview.items.map(({ email, outcome }) => (
+                <div key={email.id} className="flex items-start justify-between gap-3 border-b pb-2 text-xs">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{email.subject || '(no subject)'}</p>
+                    <p className="text-muted-foreground truncate">
+                      {email.from} · {format(new Date(email.date), 'MMM dd, yyyy')}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    {outcome !== 'thread' && (
+                      <span className="text-muted-foreground">{Math.round(email.confidence * 100)}%</span>
+                    )}
+                    <Badge variant={outcomeVariants[outcome]}>{previewOutcomeLabels[outcome]}</Badge>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
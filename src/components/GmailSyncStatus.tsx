@@ -5,6 +5,7 @@ import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { syncScheduler, SyncResult } from '@/lib/gmail/SyncScheduler';
+import { describeSchedule } from '@/lib/gmail/SyncSchedule';
 import { gmailAuth } from '@/lib/gmail/GmailAuth';
 import { JobApplication } from '@/lib/types';
 import { ArrowClockwise, Clock, CheckCircle, WarningCircle, Envelope, Play, Calendar } from '@phosphor-icons/react';
@@ -18,24 +19,18 @@ export function GmailSyncStatus({ onApplicationAdd }: GmailSyncStatusProps) {
   const [lastSyncResult, setLastSyncResult] = useState<SyncResult | null>(null);
   const [isSyncing, setIsSyncing] = useState(false);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [nextScheduledRun, setNextScheduledRun] = useState<Date | null>(null);
 
   useEffect(() => {
     // Load initial data
     setLastSyncResult(syncScheduler.getLastSyncResult());
     setIsSyncing(syncScheduler.isSyncInProgress());
     setIsAuthenticated(gmailAuth.getAuthState().isAuthenticated);
+    setNextScheduledRun(syncScheduler.getNextScheduledRun());
 
-    // Subscribe to auth state changes
+    // Subscribe to auth state changes; the scheduler skips runs while signed out
     const unsubscribeAuth = gmailAuth.subscribe((state) => {
       setIsAuthenticated(state.isAuthenticated);
-      
-      if (state.isAuthenticated) {
-        // Temporarily disabled automatic scheduler to prevent sync loops
-        // syncScheduler.startScheduler();
-      } else {
-        // Stop scheduler when not authenticated
-        syncScheduler.stopScheduler();
-      }
     });
 
     // Subscribe to sync completion
@@ -44,14 +39,12 @@ export function GmailSyncStatus({ onApplicationAdd }: GmailSyncStatusProps) {
       setIsSyncing(false);
     });
 
-    // Automatic scheduler disabled to prevent infinite loops
-    // if (gmailAuth.getAuthState().isAuthenticated) {
-    //   syncScheduler.startScheduler();
-    // }
+    const unsubscribeSchedule = syncScheduler.onScheduleChange(setNextScheduledRun);
 
     return () => {
       unsubscribeAuth();
       unsubscribeSync();
+      unsubscribeSchedule();
     };
   }, []);
 
@@ -189,6 +182,12 @@ export function GmailSyncStatus({ onApplicationAdd }: GmailSyncStatusProps) {
                   </div>
                 </div>
 
+                {!!lastSyncResult.threadUpdates && (
+                  <p className="text-xs text-muted-foreground">
+                    {lastSyncResult.threadUpdates} email(s) in tracked threads updated their applications
+                  </p>
+                )}
+
                 {lastSyncResult.errors.length > 0 && (
                   <Alert className="bg-red-50 border-red-200">
                     <WarningCircle className="h-4 w-4 text-red-600" />
@@ -216,10 +215,12 @@ export function GmailSyncStatus({ onApplicationAdd }: GmailSyncStatusProps) {
               </h4>
               <div className="text-sm text-muted-foreground">
                 <p>
-                  <strong>Manual sync only</strong> - No automatic scheduling
+                  <strong>{describeSchedule(syncScheduler.getSchedule())}</strong>
                 </p>
                 <p className="text-xs mt-1">
-                  Sync when opening the app or by clicking the "Sync Now" button
+                  {nextScheduledRun
+                    ? `Next sync: ${formatSyncTime(nextScheduledRun.toISOString())}. Missed syncs run when the app is opened.`
+                    : 'Sync when opening the app or by clicking the "Sync Now" button'}
                 </p>
               </div>
             </div>
@@ -0,0 +1,191 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { InterviewEvent, InterviewFormat } from '@/lib/types';
+import {
+  addInterviewEvents,
+  detectMeetingLink,
+  interviewFormatLabels,
+} from '@/lib/interviews';
+import { DEFAULT_TIMEZONE, isValidTimeZone, utcToZonedTime, zonedTimeToUtc } from '@/lib/timezone';
+import { Plus, Trash } from '@phosphor-icons/react';
+
+interface InterviewEventsEditorProps {
+  events: InterviewEvent[];
+  onChange: (events: InterviewEvent[]) => void;
+}
+
+export function InterviewEventsEditor({ events, onChange }: InterviewEventsEditorProps) {
+  const updateEvent = (id: string, updates: Partial<InterviewEvent>) => {
+    onChange(events.map(event =>
+      event.id === id ? { ...event, ...updates, updatedAt: new Date().toISOString() } : event
+    ));
+  };
+
+  const removeEvent = (id: string) => {
+    onChange(events.filter(event => event.id !== id));
+  };
+
+  const addEvent = () => {
+    onChange(addInterviewEvents(events, [{
+      timeZone: DEFAULT_TIMEZONE,
+      format: 'video',
+      interviewers: [],
+    }]));
+  };
+
+  // Date and times are edited as wall-clock values in the interview's own time zone
+  const getLocalValues = (event: InterviewEvent) => {
+    const start = event.start ? utcToZonedTime(event.start, event.timeZone) : undefined;
+    const end = event.end ? utcToZonedTime(event.end, event.timeZone) : undefined;
+    return { date: start?.date || '', startTime: start?.time || '', endTime: end?.time || '' };
+  };
+
+  const updateSchedule = (event: InterviewEvent, values: { date: string; startTime: string; endTime: string; timeZone?: string }) => {
+    const timeZone = values.timeZone || event.timeZone;
+    if (!values.date || !values.startTime) {
+      updateEvent(event.id, { timeZone, start: undefined, end: undefined });
+      return;
+    }
+
+    const start = zonedTimeToUtc(values.date, values.startTime, timeZone);
+    let end = values.endTime ? zonedTimeToUtc(values.date, values.endTime, timeZone) : undefined;
+    // An end time before the start means the interview runs past midnight
+    if (end && end <= start) {
+      end = new Date(new Date(end).getTime() + 24 * 60 * 60 * 1000).toISOString();
+    }
+    updateEvent(event.id, { timeZone, start, end });
+  };
+
+  return (
+    <div className="space-y-3">
+      {events.map(event => {
+        const local = getLocalValues(event);
+        const linkProvider = event.meetingLink ? detectMeetingLink(event.meetingLink)?.provider : undefined;
+
+        return (
+          <div key={event.id} className="border rounded-lg p-3 space-y-3">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium whitespace-nowrap">Round {event.round}</span>
+              <Input
+                placeholder="Title (e.g. Technical interview)"
+                value={event.title || ''}
+                onChange={(e) => updateEvent(event.id, { title: e.target.value })}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => removeEvent(event.id)}
+                className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+              >
+                <Trash size={14} />
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              <div className="space-y-1">
+                <Label className="text-xs">Date</Label>
+                <Input
+                  type="date"
+                  value={local.date}
+                  onChange={(e) => updateSchedule(event, { ...local, date: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Start</Label>
+                <Input
+                  type="time"
+                  value={local.startTime}
+                  onChange={(e) => updateSchedule(event, { ...local, startTime: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">End</Label>
+                <Input
+                  type="time"
+                  value={local.endTime}
+                  onChange={(e) => updateSchedule(event, { ...local, endTime: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Time zone</Label>
+                <Input
+                  defaultValue={event.timeZone}
+                  onBlur={(e) => {
+                    const timeZone = e.target.value.trim();
+                    if (isValidTimeZone(timeZone)) {
+                      updateSchedule(event, { ...local, timeZone });
+                    } else {
+                      e.target.value = event.timeZone;
+                    }
+                  }}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label className="text-xs">Format</Label>
+                <Select
+                  value={event.format}
+                  onValueChange={(value) => updateEvent(event.id, { format: value as InterviewFormat })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(interviewFormatLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">
+                  Meeting link {linkProvider && <span className="text-muted-foreground">({linkProvider})</span>}
+                </Label>
+                <Input
+                  type="url"
+                  value={event.meetingLink || ''}
+                  onChange={(e) => {
+                    const meetingLink = e.target.value;
+                    updateEvent(event.id, {
+                      meetingLink,
+                      format: detectMeetingLink(meetingLink) ? 'video' : event.format,
+                    });
+                  }}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Location</Label>
+                <Input
+                  value={event.location || ''}
+                  onChange={(e) => updateEvent(event.id, { location: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Interviewers</Label>
+                <Input
+                  placeholder="Separate names with commas"
+                  defaultValue={event.interviewers.join(', ')}
+                  onBlur={(e) => updateEvent(event.id, {
+                    interviewers: e.target.value.split(',').map(name => name.trim()).filter(Boolean)
+                  })}
+                />
+              </div>
+            </div>
+          </div>
+        );
+      })}
+
+      <Button type="button" variant="outline" size="sm" onClick={addEvent} className="gap-2">
+        <Plus size={14} />
+        Add Interview
+      </Button>
+    </div>
+  );
+}
@@ -4,9 +4,13 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
 import { linkedInService } from '@/lib/linkedin/LinkedInService';
+import { reconcileLinkedInApplications, LinkedInImportResult } from '@/lib/linkedin/LinkedInArchive';
 import { JobApplication } from '@/lib/types';
-import { ArrowClockwise, Clock, CheckCircle, WarningCircle, LinkedinLogo, Play, Info } from '@phosphor-icons/react';
+import { ArrowClockwise, Clock, CheckCircle, WarningCircle, LinkedinLogo, Play, Info, UploadSimple } from '@phosphor-icons/react';
 import { toast } from 'sonner';
 
 interface LinkedInSyncResult {
@@ -19,13 +23,16 @@ interface LinkedInSyncResult {
 
 interface LinkedInSyncStatusProps {
   applications: JobApplication[];
-  onApplicationsChange?: (applications: JobApplication[]) => void;
+  onApplicationsChange?: (applications: JobApplication[], label?: string) => void;
 }
 
 export function LinkedInSyncStatus({ applications, onApplicationsChange }: LinkedInSyncStatusProps) {
   const [lastSyncResult, setLastSyncResult] = useState<LinkedInSyncResult | null>(null);
   const [isSyncing, setIsSyncing] = useState(false);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [lastImportResult, setLastImportResult] = useState<LinkedInImportResult | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [includeSavedJobs, setIncludeSavedJobs] = useState(false);
 
   useEffect(() => {
     // Check LinkedIn authentication status
@@ -40,8 +47,52 @@ export function LinkedInSyncStatus({ applications, onApplicationsChange }: Linke
         console.error('Error loading LinkedIn sync result:', error);
       }
     }
+
+    const storedImport = localStorage.getItem('linkedin_last_import');
+    if (storedImport) {
+      try {
+        setLastImportResult(JSON.parse(storedImport));
+      } catch (error) {
+        console.error('Error loading LinkedIn import result:', error);
+      }
+    }
   }, []);
 
+  const handleArchiveImport = async (file: File | undefined) => {
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      const linkedInJobs = await linkedInService.getJobApplications(file);
+      const { applications: reconciled, imported, updated, alreadyTracked } =
+        reconcileLinkedInApplications(applications, linkedInJobs, includeSavedJobs);
+
+      if ((imported > 0 || updated > 0) && onApplicationsChange) {
+        onApplicationsChange(reconciled, `Import LinkedIn data from ${file.name}`);
+      }
+
+      const result: LinkedInImportResult = {
+        fileName: file.name,
+        applicationsFound: linkedInJobs.filter(job => job.status !== 'saved').length,
+        savedJobsFound: linkedInJobs.filter(job => job.status === 'saved').length,
+        imported,
+        updated,
+        alreadyTracked,
+        timestamp: new Date().toISOString()
+      };
+
+      setLastImportResult(result);
+      localStorage.setItem('linkedin_last_import', JSON.stringify(result));
+
+      toast.success(`Imported ${imported} new application(s), updated ${updated}`);
+    } catch (error: any) {
+      console.error('LinkedIn import failed:', error);
+      toast.error(`LinkedIn import failed: ${error.message}`);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   const handleLinkedInSync = async () => {
     if (!isAuthenticated) {
       toast.error('Please connect your LinkedIn account first');
@@ -309,6 +360,76 @@ export function LinkedInSyncStatus({ applications, onApplicationsChange }: Linke
             </div>
           </>
         )}
+
+        {/* Data Export Import - works without connecting the account */}
+        <div className="space-y-3 pt-4 border-t">
+          <h4 className="font-medium text-sm flex items-center gap-2">
+            <UploadSimple size={16} />
+            Import LinkedIn Data Export
+          </h4>
+          <p className="text-xs text-muted-foreground">
+            Request "Job applications" under Settings → Data privacy → Get a copy of your data on LinkedIn,
+            then upload the ZIP archive or its Job Applications.csv. Jobs you already track are matched, not duplicated.
+          </p>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="linkedin-saved-jobs"
+              checked={includeSavedJobs}
+              onCheckedChange={(checked) => setIncludeSavedJobs(checked === true)}
+            />
+            <Label htmlFor="linkedin-saved-jobs" className="font-normal text-sm">
+              Also import saved jobs
+            </Label>
+          </div>
+
+          <Input
+            type="file"
+            accept=".zip,.csv,application/zip,text/csv"
+            disabled={isImporting}
+            onChange={(e) => {
+              handleArchiveImport(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+
+          {isImporting && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <ArrowClockwise size={16} className="animate-spin" />
+              Reading archive...
+            </div>
+          )}
+
+          {lastImportResult && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-muted-foreground truncate">{lastImportResult.fileName}</span>
+                <span className="text-xs text-muted-foreground">
+                  {formatSyncTime(lastImportResult.timestamp)}
+                </span>
+              </div>
+
+              <div className="grid grid-cols-3 gap-3">
+                <div className="text-center p-3 bg-green-50 border border-green-200 rounded-lg">
+                  <div className="text-lg font-bold text-green-700">{lastImportResult.imported}</div>
+                  <div className="text-xs text-green-600">Imported</div>
+                </div>
+                <div className="text-center p-3 bg-blue-50 border border-blue-200 rounded-lg">
+                  <div className="text-lg font-bold text-blue-700">{lastImportResult.updated}</div>
+                  <div className="text-xs text-blue-600">Updated</div>
+                </div>
+                <div className="text-center p-3 bg-gray-50 border border-gray-200 rounded-lg">
+                  <div className="text-lg font-bold text-gray-700">{lastImportResult.alreadyTracked}</div>
+                  <div className="text-xs text-gray-600">Already Tracked</div>
+                </div>
+              </div>
+
+              <p className="text-xs text-muted-foreground">
+                Found {lastImportResult.applicationsFound} application(s) and {lastImportResult.savedJobsFound} saved job(s) in the export
+              </p>
+            </div>
+          )}
+        </div>
       </CardContent>
     </Card>
   );
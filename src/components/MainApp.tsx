@@ -6,30 +6,213 @@ import { LinkedInAuth } from './LinkedInAuth';
 import { LinkedInSyncStatus } from './LinkedInSyncStatus';
 import { EmailReviewQueue } from './EmailReviewQueue';
 import { UserProfile } from './UserProfile';
+import { SettingsPage } from './SettingsPage';
+import { ContactsView } from './ContactsView';
+import { DocumentLibraryView } from './DocumentLibraryView';
 import { JobApplication, ApplicationStatus } from '../lib/types';
 import { syncScheduler } from '../lib/gmail/SyncScheduler';
-import { Briefcase, TrendUp, Gear, Envelope, LinkedinLogo } from '@phosphor-icons/react';
-import { useState, useEffect } from 'react';
+import { pipeline, INTERVIEW_CATEGORIES, OFFER_CATEGORIES } from '../lib/pipeline';
+import { ghostDetector } from '../lib/ghost-detector';
+import { taskReminder, completeTask, snoozeTask, replaceTask, snoozeOptions, addSuggestedTask } from '../lib/tasks';
+import { companyDirectory } from '../lib/companies';
+import { addInterviewEvents } from '../lib/interviews';
+import { findDuplicateEnhanced, findApplicationByThread, mergeGmailIds, mergeStatusHistory, isSameApplication } from '../lib/applications';
+import { commandHistory, diffApplications, CommandSource, ApplicationAddOptions } from '../lib/history';
+import { applicationRepository } from '../lib/storage/repositories';
+import { ReviewQueueItem } from '../lib/gmail/SyncScheduler';
+import { usePipelineStages } from '../hooks/use-pipeline';
+import { useCommandHistory } from '../hooks/use-command-history';
+import { Briefcase, TrendUp, Gear, Envelope, LinkedinLogo, SlidersHorizontal, AddressBook, Files, ArrowCounterClockwise, ArrowClockwise } from '@phosphor-icons/react';
+import { Button } from '@/components/ui/button';
+import { useState, useEffect, useRef } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { toast } from 'sonner';
 
+function describeConflicts(conflicts: number): string | undefined {
+  if (conflicts === 0) return undefined;
+  return `${conflicts} change${conflicts === 1 ? ' was' : 's were'} kept because the application was edited since`;
+}
+
 export function MainApp() {
-  const [applications, setApplications] = useState<JobApplication[]>(() => {
-    try {
-      const saved = localStorage.getItem('job-applications');
-      return saved ? JSON.parse(saved) : [];
-    } catch {
-      return [];
-    }
-  });
+  const stages = usePipelineStages();
+  const [applications, setApplications] = useState<JobApplication[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const persistedRef = useRef<JobApplication[]>([]);
+
+  const applicationsRef = useRef(applications);
+  applicationsRef.current = applications;
+  const historyState = useCommandHistory();
 
   const [reviewQueueCount, setReviewQueueCount] = useState(0);
   const [activeTab, setActiveTab] = useState('applications');
   const [statusFilters, setStatusFilters] = useState<ApplicationStatus[]>([]);
 
+  const [ghostSettings, setGhostSettings] = useState(() => ghostDetector.getSettings());
+  const [staleCheckTime, setStaleCheckTime] = useState(() => Date.now());
+
+  useEffect(() => {
+    applicationRepository.getAll()
+      .then(stored => {
+        persistedRef.current = stored;
+        applicationsRef.current = stored;
+        setApplications(stored);
+      })
+      .catch(error => {
+        console.error('Error loading applications:', error);
+        toast.error('Could not load saved applications');
+      })
+      .finally(() => setIsLoaded(true));
+  }, []);
+
+  // Write only the applications that changed since the last save
+  useEffect(() => {
+    if (!isLoaded) return;
+
+    const changes = diffApplications(persistedRef.current, applications);
+    persistedRef.current = applications;
+    if (changes.length === 0) return;
+
+    Promise.all([
+      applicationRepository.put(changes.flatMap(change => change.after ? [change.after] : [])),
+      applicationRepository.delete(changes.filter(change => !change.after).map(change => change.id)),
+    ]).catch(error => {
+      console.error('Error saving applications:', error);
+      toast.error('Failed to save changes');
+    });
+  }, [applications, isLoaded]);
+
+  /**
+   * Applies a change to the application list as an undoable command. Reads the latest
+   * list from a ref so callbacks captured by long-running syncs don't work on stale state.
+   */
+  const commitApplications = (
+    next: JobApplication[],
+    label: string,
+    source: CommandSource = 'list',
+    reviewItems?: ReviewQueueItem[],
+    emailId?: string
+  ) => {
+    const current = applicationsRef.current;
+    const result = commandHistory.execute(current, next, label, source, reviewItems, emailId);
+    if (result === current) return;
+
+    applicationsRef.current = result;
+    setApplications(result);
+  };
+
+  const handleUndo = () => {
+    const result = commandHistory.undo(applicationsRef.current);
+    if (!result) return;
+
+    applicationsRef.current = result.applications;
+    setApplications(result.applications);
+    setReviewQueueCount(syncScheduler.getReviewQueue().length);
+    toast.info(`Undone: ${result.command.label}`, {
+      description: describeConflicts(result.conflicts),
+    });
+  };
+
+  const handleRedo = () => {
+    const result = commandHistory.redo(applicationsRef.current);
+    if (!result) return;
+
+    applicationsRef.current = result.applications;
+    setApplications(result.applications);
+    setReviewQueueCount(syncScheduler.getReviewQueue().length);
+    toast.info(`Redone: ${result.command.label}`, {
+      description: describeConflicts(result.conflicts),
+    });
+  };
+
+  // Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z or Ctrl+Y to redo - except while typing
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) {
+        return;
+      }
+      if (!(event.ctrlKey || event.metaKey)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        handleRedo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Re-evaluate inactivity every hour while the app is open
+  useEffect(() => {
+    const unsubscribe = ghostDetector.subscribe(setGhostSettings);
+    const interval = setInterval(() => setStaleCheckTime(Date.now()), 60 * 60 * 1000);
+
+    return () => {
+      unsubscribe();
+      clearInterval(interval);
+    };
+  }, []);
+
+  // Automatically move stale applications to the ghosted stage (if enabled)
+  useEffect(() => {
+    if (!ghostSettings.enabled || !ghostSettings.autoMarkGhosted) return;
+
+    const stale = ghostDetector.findStaleApplications(applications, new Date(staleCheckTime));
+    if (stale.length === 0) return;
+
+    const { applications: updated, previous } = ghostDetector.markGhosted(
+      applications,
+      stale.map(item => item.application.id)
+    );
+    if (previous.length === 0) return;
+
+    commitApplications(updated, `Move ${previous.length} inactive application(s) to Ghosted`, 'inactivity');
+    toast.info(`Moved ${previous.length} inactive application(s) to Ghosted`, {
+      action: {
+        label: 'Undo',
+        onClick: handleUndo,
+      },
+    });
+  }, [applications, staleCheckTime, ghostSettings]);
+
+  // Remind about due tasks once a minute while the app is open
   useEffect(() => {
-    localStorage.setItem('job-applications', JSON.stringify(applications));
+    const checkReminders = () => {
+      const reminders = taskReminder.collectReminders(applications);
+
+      for (const { application, task } of reminders) {
+        toast.info(task.title, {
+          description: `${application.position} at ${application.company}`,
+          duration: 15000,
+          action: {
+            label: 'Done',
+            onClick: () => commitApplications(
+              replaceTask(applicationsRef.current, application.id, completeTask(task)),
+              `Complete task "${task.title}"`,
+              'reminder'
+            ),
+          },
+          cancel: {
+            label: `Snooze ${snoozeOptions[1].label}`,
+            onClick: () => commitApplications(
+              replaceTask(applicationsRef.current, application.id, snoozeTask(task, snoozeOptions[1].ms)),
+              `Snooze task "${task.title}"`,
+              'reminder'
+            ),
+          },
+        });
+      }
+    };
+
+    checkReminders();
+    const interval = setInterval(checkReminders, 60 * 1000);
+    return () => clearInterval(interval);
   }, [applications]);
 
   // Update review queue count
@@ -48,18 +231,26 @@ export function MainApp() {
     return () => clearInterval(interval);
   }, []);
 
-  // Perform initial sync on app start
+  // Perform initial sync on app start, once stored applications are loaded for duplicate checks,
+  // then keep syncing on the configured schedule
   useEffect(() => {
+    if (!isLoaded) return;
+
+    syncScheduler.setApplicationsProvider(() => applicationsRef.current);
+
     const performInitialSync = async () => {
       try {
         await syncScheduler.performInitialSync(handleAddApplication);
       } catch (error) {
         console.error('Initial sync failed:', error);
       }
+      await syncScheduler.startScheduler(handleAddApplication);
     };
 
     performInitialSync();
-  }, []);
+
+    return () => syncScheduler.stopScheduler();
+  }, [isLoaded]);
 
   // Error handling is now centralized in main.tsx - removed duplicate handlers
 
@@ -143,49 +334,98 @@ export function MainApp() {
     handleLinkedInCallback();
   }, []);
 
-  const handleAddApplication = (newApp: Omit<JobApplication, 'id'>) => {
+  const handleAddApplication = (newApp: Omit<JobApplication, 'id'>, options: ApplicationAddOptions = {}) => {
     const application: JobApplication = {
       ...newApp,
+      ...companyDirectory.assign(newApp.company, newApp.contactEmail),
       id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
     };
-
-    setApplications((currentApps) => {
-      // Check for duplicates based on company and position
-      const isDuplicate = currentApps.some(
-        app => app.company.toLowerCase() === application.company.toLowerCase() && 
-               app.position.toLowerCase() === application.position.toLowerCase()
-      );
-
-      if (isDuplicate) {
+    const source = options.source || 'sync';
+    const reviewItems = options.reviewItem ? [options.reviewItem] : undefined;
+    // Emails picked up by sync carry their message id in the status history
+    const emailId = options.reviewItem?.email.id || newApp.statusHistory?.find(entry => entry.emailId)?.emailId;
+    const currentApps = applicationsRef.current;
+
+    // A later message of a tracked Gmail thread belongs to that thread's application
+    const threadMatch = application.gmailThreadIds
+      ?.map(threadId => findApplicationByThread(currentApps, threadId))
+      .find(Boolean);
+
+    // Check for duplicates based on company (including aliases) and position
+    const duplicate = threadMatch || findDuplicateEnhanced(currentApps, application.company, application.position);
+
+    if (duplicate) {
+      if (!threadMatch) {
         toast.error(`Application for ${application.position} at ${application.company} already exists!`);
-        return currentApps;
       }
+      // A new email about a known application still counts as activity and may add people
+      commitApplications(
+        currentApps.map(app => {
+          if (app.id !== duplicate.id) {
+            return app;
+          }
 
-      return [...currentApps, application];
-    });
+          const isNewer = application.lastActivityAt &&
+            (!app.lastActivityAt || application.lastActivityAt > app.lastActivityAt);
+          const contactIds = [...new Set([...(app.contactIds || []), ...(application.contactIds || [])])];
+          const documentIds = [...new Set([...(app.documentIds || []), ...(application.documentIds || [])])];
+          // Only thread replies move the status, and only forward
+          const advancesStatus = threadMatch && application.status !== app.status &&
+            pipeline.isValidTransition(app.status, application.status);
+
+          const merged: JobApplication = {
+            ...app,
+            ...(advancesStatus ? {
+              status: application.status,
+              statusHistory: mergeStatusHistory(app.statusHistory, application.statusHistory),
+              tasks: addSuggestedTask(app.tasks, application.status),
+            } : {}),
+            ...mergeGmailIds(app, application),
+            lastActivityAt: isNewer ? application.lastActivityAt : app.lastActivityAt,
+            contactIds,
+            documentIds,
+            interviews: addInterviewEvents(app.interviews, application.interviews),
+          };
+          // Re-syncing an email that brings nothing new leaves no history or audit entries
+          return isSameApplication(merged, app) ? app : merged;
+        }),
+        `Update ${duplicate.position} at ${duplicate.company} from email`,
+        source,
+        reviewItems,
+        emailId
+      );
+      return;
+    }
+
+    commitApplications(
+      [...currentApps, application],
+      `Add ${application.position} at ${application.company}`,
+      source,
+      reviewItems,
+      emailId
+    );
   };
 
+  const activeStatuses = stages
+    .filter(stage => !stage.terminal && stage.category !== 'saved')
+    .map(stage => stage.id);
+  const interviewStatuses = pipeline.getStagesInCategories(INTERVIEW_CATEGORIES).map(stage => stage.id);
+  const offerStatuses = pipeline.getStagesInCategories(OFFER_CATEGORIES).map(stage => stage.id);
+
   const getStatusCounts = () => {
-    const counts = {
+    const countIn = (statuses: ApplicationStatus[]) =>
+      applications.filter(app => statuses.includes(app.status)).length;
+
+    return {
       total: applications.length,
-      applied: 0,
-      interview: 0,
-      offer: 0,
-      rejected: 0,
+      active: countIn(activeStatuses),
+      interview: countIn(interviewStatuses),
+      offer: countIn(offerStatuses),
     };
-
-    applications.forEach(app => {
-      if (app.status === 'applied') counts.applied++;
-      else if (app.status === 'interview') counts.interview++;
-      else if (app.status === 'offer') counts.offer++;
-      else if (app.status === 'rejected') counts.rejected++;
-    });
-
-    return counts;
   };
 
   const stats = getStatusCounts();
-  const activeApplications = stats.applied + stats.interview;
+  const activeApplications = stats.active;
 
   // Handle statistics card navigation
   const handleStatClick = (filterType: 'all' | 'active' | 'interview' | 'offer') => {
@@ -193,16 +433,16 @@ export function MainApp() {
     
     switch (filterType) {
       case 'all':
-        setStatusFilters(['applied', 'interview', 'offer', 'rejected', 'withdrawn']);
+        setStatusFilters(stages.map(stage => stage.id));
         break;
       case 'active':
-        setStatusFilters(['applied', 'interview']);
+        setStatusFilters(activeStatuses);
         break;
       case 'interview':
-        setStatusFilters(['interview']);
+        setStatusFilters(interviewStatuses);
         break;
       case 'offer':
-        setStatusFilters(['offer']);
+        setStatusFilters(offerStatuses);
         break;
     }
   };
@@ -224,6 +464,26 @@ export function MainApp() {
               </div>
             </div>
             <div className="flex items-center gap-3">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleUndo}
+                disabled={!historyState.undoLabel}
+                title={historyState.undoLabel ? `Undo: ${historyState.undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+                className="h-8 w-8 p-0"
+              >
+                <ArrowCounterClockwise size={18} />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleRedo}
+                disabled={!historyState.redoLabel}
+                title={historyState.redoLabel ? `Redo: ${historyState.redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                className="h-8 w-8 p-0"
+              >
+                <ArrowClockwise size={18} />
+              </Button>
               <UserProfile />
               <ThemeToggle />
             </div>
@@ -296,7 +556,7 @@ export function MainApp() {
 
         <main>
           <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
-            <TabsList className="grid w-full grid-cols-5">
+            <TabsList className="grid w-full grid-cols-8">
               <TabsTrigger value="applications" className="gap-2">
                 <Briefcase size={16} />
                 Applications
@@ -306,6 +566,14 @@ export function MainApp() {
                   </Badge>
                 )}
               </TabsTrigger>
+              <TabsTrigger value="contacts" className="gap-2">
+                <AddressBook size={16} />
+                Contacts
+              </TabsTrigger>
+              <TabsTrigger value="documents" className="gap-2">
+                <Files size={16} />
+                Documents
+              </TabsTrigger>
               <TabsTrigger value="gmail-setup" className="gap-2">
                 <Envelope size={16} />
                 Gmail Setup
@@ -327,17 +595,33 @@ export function MainApp() {
                   </Badge>
                 )}
               </TabsTrigger>
+              <TabsTrigger value="settings" className="gap-2">
+                <SlidersHorizontal size={16} />
+                Settings
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="applications" className="space-y-4">
               <ApplicationList 
                 applications={applications} 
-                onApplicationsChange={setApplications}
+                onApplicationsChange={(next, label, source) => commitApplications(next, label || 'Update applications', source)}
+                onUndo={handleUndo}
                 externalStatusFilters={statusFilters}
                 onStatusFiltersChange={setStatusFilters}
               />
             </TabsContent>
 
+            <TabsContent value="contacts" className="space-y-4">
+              <ContactsView 
+                applications={applications} 
+                onApplicationsChange={(next) => commitApplications(next, 'Update contacts on applications', 'contacts')} 
+              />
+            </TabsContent>
+
+            <TabsContent value="documents" className="space-y-4">
+              <DocumentLibraryView applications={applications} />
+            </TabsContent>
+
             <TabsContent value="gmail-setup" className="space-y-4">
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                 <GmailAuth />
@@ -353,7 +637,7 @@ export function MainApp() {
                 <div className="space-y-4">
                   <LinkedInSyncStatus 
                     applications={applications} 
-                    onApplicationsChange={setApplications} 
+                    onApplicationsChange={(next, label) => commitApplications(next, label || 'LinkedIn sync', 'linkedin')} 
                   />
                 </div>
               </div>
@@ -364,7 +648,7 @@ export function MainApp() {
                 <GmailSyncStatus onApplicationAdd={handleAddApplication} />
                 <LinkedInSyncStatus 
                   applications={applications} 
-                  onApplicationsChange={setApplications} 
+                  onApplicationsChange={(next, label) => commitApplications(next, label || 'LinkedIn sync', 'linkedin')} 
                 />
               </div>
             </TabsContent>
@@ -372,6 +656,7 @@ export function MainApp() {
             <TabsContent value="review-queue" className="space-y-4">
               <EmailReviewQueue 
                 onApplicationAdd={handleAddApplication}
+                onReviewItemsRemoved={(label, items) => commitApplications(applicationsRef.current, label, 'review-queue', items)}
                 onQueueChange={() => {
                   // Update review queue count immediately when queue changes
                   const queue = syncScheduler.getReviewQueue();
@@ -379,6 +664,13 @@ export function MainApp() {
                 }}
               />
             </TabsContent>
+
+            <TabsContent value="settings" className="space-y-4">
+              <SettingsPage
+                applications={applications}
+                onApplicationsChange={(next, label) => commitApplications(next, label, 'import')}
+              />
+            </TabsContent>
           </Tabs>
         </main>
       </div>
@@ -0,0 +1,411 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { PipelineStage, StageCategory, StageColor, JobApplication } from '@/lib/types';
+import { updateApplication } from '@/lib/applications';
+import { DEFAULT_PIPELINE_STAGES, pipeline, stageCategoryLabels, stageColorClasses } from '@/lib/pipeline';
+import { ghostDetector, GhostDetectionSettings } from '@/lib/ghost-detector';
+import { taskReminder, TaskReminderSettings } from '@/lib/tasks';
+import { usePipelineStages } from '@/hooks/use-pipeline';
+import { ArrowUp, ArrowDown, Trash, Plus, ArrowCounterClockwise } from '@phosphor-icons/react';
+import { toast } from 'sonner';
+
+interface PipelineSettingsProps {
+  applications: JobApplication[];
+  onApplicationsChange: (applications: JobApplication[], label: string) => void;
+}
+
+export function PipelineSettings({ applications, onApplicationsChange }: PipelineSettingsProps) {
+  const savedStages = usePipelineStages();
+  const [stages, setStages] = useState<PipelineStage[]>(savedStages);
+  // Removed stage id -> stage its applications move to when the pipeline is saved
+  const [stageMoves, setStageMoves] = useState<Record<string, string>>({});
+  const [pendingRemoval, setPendingRemoval] = useState<{ stage: PipelineStage; count: number; targetId: string } | null>(null);
+  // Stages left over from a reset that still hold applications, asked about one at a time
+  const [removalQueue, setRemovalQueue] = useState<string[]>([]);
+  const [newStageLabel, setNewStageLabel] = useState('');
+  const [ghostSettings, setGhostSettings] = useState<GhostDetectionSettings>(ghostDetector.getSettings());
+  const [reminderSettings, setReminderSettings] = useState<TaskReminderSettings>(taskReminder.getSettings());
+
+  useEffect(() => {
+    setStages(savedStages);
+    setStageMoves({});
+  }, [savedStages]);
+
+  useEffect(() => {
+    return ghostDetector.subscribe(setGhostSettings);
+  }, []);
+
+  useEffect(() => {
+    return taskReminder.subscribe(setReminderSettings);
+  }, []);
+
+  const handleBrowserNotificationsChange = async (checked: boolean) => {
+    if (!checked) {
+      taskReminder.updateSettings({ browserNotifications: false });
+      return;
+    }
+
+    const granted = await taskReminder.enableBrowserNotifications();
+    if (!granted) {
+      toast.error('Notifications are blocked or not supported by this browser');
+    }
+  };
+
+  const isDirty = JSON.stringify(stages) !== JSON.stringify(savedStages);
+
+  const updateStage = (id: string, updates: Partial<PipelineStage>) => {
+    setStages(current => current.map(stage => stage.id === id ? { ...stage, ...updates } : stage));
+  };
+
+  const moveStage = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= stages.length) return;
+
+    const reordered = [...stages];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setStages(reordered.map((stage, order) => ({ ...stage, order })));
+  };
+
+  /**
+   * Where an application in `status` ends up after the pending moves
+   */
+  const resolveMove = (status: string): string => {
+    const seen = new Set<string>();
+    while (stageMoves[status] && !seen.has(status)) {
+      seen.add(status);
+      status = stageMoves[status];
+    }
+    return status;
+  };
+
+  const countApplicationsIn = (id: string) =>
+    applications.filter(application => resolveMove(application.status) === id).length;
+
+  const removeStage = (id: string) => {
+    if (stages.length <= 1) {
+      toast.error('The pipeline needs at least one stage');
+      return;
+    }
+
+    const stage = stages.find(item => item.id === id);
+    const count = countApplicationsIn(id);
+    if (stage && count > 0) {
+      // Ask where the applications go instead of leaving them in a stage that no longer exists
+      const target = stages.find(item => item.id !== id && item.category === stage.category) ||
+        stages.find(item => item.id !== id)!;
+      setPendingRemoval({ stage, count, targetId: target.id });
+      return;
+    }
+    setStages(current => current.filter(stage => stage.id !== id));
+  };
+
+  useEffect(() => {
+    if (pendingRemoval || removalQueue.length === 0) return;
+    const [next, ...rest] = removalQueue;
+    setRemovalQueue(rest);
+    removeStage(next);
+  }, [pendingRemoval, removalQueue]);
+
+  const confirmRemoval = () => {
+    if (!pendingRemoval) return;
+    const { stage, targetId } = pendingRemoval;
+    setStageMoves(current => ({ ...current, [stage.id]: targetId }));
+    setStages(current => current.filter(item => item.id !== stage.id));
+    setPendingRemoval(null);
+  };
+
+  const addStage = () => {
+    const label = newStageLabel.trim();
+    if (!label) return;
+
+    const stage: PipelineStage = {
+      id: pipeline.createStageId(label, stages),
+      label,
+      order: stages.length,
+      terminal: false,
+      category: 'interview',
+      color: 'secondary'
+    };
+
+    setStages([...stages, stage]);
+    setNewStageLabel('');
+  };
+
+  const handleSave = () => {
+    if (stages.some(stage => !stage.label.trim())) {
+      toast.error('Every stage needs a name');
+      return;
+    }
+
+    try {
+      pipeline.saveStages(stages.map(stage => ({ ...stage, label: stage.label.trim() })));
+
+      const moved = applications.filter(application => resolveMove(application.status) !== application.status);
+      if (moved.length > 0) {
+        const movedIds = new Set(moved.map(application => application.id));
+        onApplicationsChange(
+          applications.map(application => movedIds.has(application.id)
+            ? updateApplication(application, { status: resolveMove(application.status) })
+            : application),
+          `Move ${moved.length} application(s) out of removed stages`
+        );
+      }
+      setStageMoves({});
+      toast.success(moved.length > 0 ? `Pipeline saved, ${moved.length} application(s) moved` : 'Pipeline saved');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save pipeline');
+    }
+  };
+
+  const handleReset = () => {
+    if (!window.confirm('Replace your stages with the default stages? Nothing changes until you save the pipeline.')) {
+      return;
+    }
+
+    // Stages missing from the defaults go through the same removal flow, so their
+    // applications move to a stage of the user's choice when the pipeline is saved
+    const defaultIds = new Set(DEFAULT_PIPELINE_STAGES.map(stage => stage.id));
+    const occupied = stages.filter(stage => !defaultIds.has(stage.id) && countApplicationsIn(stage.id) > 0);
+    setStages([...DEFAULT_PIPELINE_STAGES, ...occupied].map((stage, order) => ({ ...stage, order })));
+    setRemovalQueue(occupied.map(stage => stage.id));
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle>Hiring Pipeline</CardTitle>
+          <CardDescription>
+            Define the stages your applications move through. Email detection maps each
+            email to a category and picks the matching stage from this list.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            {stages.map((stage, index) => (
+              <div key={stage.id} className="flex flex-wrap items-center gap-2 border rounded-lg p-2">
+                <div className="flex flex-col">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-5 w-6 p-0"
+                    onClick={() => moveStage(index, -1)}
+                    disabled={index === 0}
+                  >
+                    <ArrowUp size={12} />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-5 w-6 p-0"
+                    onClick={() => moveStage(index, 1)}
+                    disabled={index === stages.length - 1}
+                  >
+                    <ArrowDown size={12} />
+                  </Button>
+                </div>
+
+                <Input
+                  value={stage.label}
+                  onChange={(e) => updateStage(stage.id, { label: e.target.value })}
+                  className="w-44"
+                />
+
+                <Select
+                  value={stage.category}
+                  onValueChange={(value) => updateStage(stage.id, { category: value as StageCategory })}
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(stageCategoryLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                <Select
+                  value={stage.color}
+                  onValueChange={(value) => updateStage(stage.id, { color: value as StageColor })}
+                >
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.keys(stageColorClasses).map((color) => (
+                      <SelectItem key={color} value={color}>
+                        <Badge className={stageColorClasses[color as StageColor]}>{color}</Badge>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                <label className="flex items-center gap-2 text-sm">
+                  <Switch
+                    checked={stage.terminal}
+                    onCheckedChange={(checked) => updateStage(stage.id, { terminal: checked })}
+                  />
+                  Terminal
+                </label>
+
+                {!stage.terminal && (
+                  <label className="flex items-center gap-2 text-sm">
+                    Stale after
+                    <Input
+                      type="number"
+                      min={0}
+                      value={stage.staleAfterDays ?? ''}
+                      onChange={(e) => {
+                        const days = parseInt(e.target.value, 10);
+                        updateStage(stage.id, { staleAfterDays: days > 0 ? days : undefined });
+                      }}
+                      placeholder="-"
+                      className="w-16"
+                    />
+                    days
+                  </label>
+                )}
+
+                <span className="text-xs text-muted-foreground ml-auto">{stage.id}</span>
+
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeStage(stage.id)}
+                  className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                >
+                  <Trash size={14} />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <Input
+              placeholder="New stage name"
+              value={newStageLabel}
+              onChange={(e) => setNewStageLabel(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addStage()}
+            />
+            <Button variant="outline" onClick={addStage} className="gap-2">
+              <Plus size={16} />
+              Add Stage
+            </Button>
+          </div>
+
+          <div className="flex gap-2">
+            <Button onClick={handleSave} disabled={!isDirty}>
+              Save Pipeline
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => {
+                setStages(savedStages);
+                setStageMoves({});
+              }}
+              disabled={!isDirty}
+            >
+              Discard Changes
+            </Button>
+            <Button variant="outline" onClick={handleReset} className="gap-2 ml-auto">
+              <ArrowCounterClockwise size={16} />
+              Reset to Defaults
+            </Button>
+          </div>
+
+          <div className="border-t pt-4 space-y-3">
+            <div>
+              <h4 className="font-medium">Inactivity detection</h4>
+              <p className="text-sm text-muted-foreground">
+                Applications with no emails or updates for longer than their stage's
+                "stale after" period are flagged as stale. Leave the field empty to never flag a stage.
+              </p>
+            </div>
+            <label className="flex items-center justify-between text-sm">
+              Flag stale applications
+              <Switch
+                checked={ghostSettings.enabled}
+                onCheckedChange={(checked) => ghostDetector.updateSettings({ enabled: checked })}
+              />
+            </label>
+            <label className="flex items-center justify-between text-sm">
+              Move stale applications to Ghosted automatically
+              <Switch
+                checked={ghostSettings.autoMarkGhosted}
+                disabled={!ghostSettings.enabled}
+                onCheckedChange={(checked) => ghostDetector.updateSettings({ autoMarkGhosted: checked })}
+              />
+            </label>
+          </div>
+
+          <div className="border-t pt-4 space-y-3">
+            <div>
+              <h4 className="font-medium">Follow-up tasks</h4>
+              <p className="text-sm text-muted-foreground">
+                When an application moves to a new stage, a follow-up task is suggested from the
+                detected next step. Due tasks are shown as reminders while the app is open.
+              </p>
+            </div>
+            <label className="flex items-center justify-between text-sm">
+              Suggest a task on stage changes
+              <Switch
+                checked={reminderSettings.suggestTasks}
+                onCheckedChange={(checked) => taskReminder.updateSettings({ suggestTasks: checked })}
+              />
+            </label>
+            <label className="flex items-center justify-between text-sm">
+              Browser notifications for due tasks
+              <Switch
+                checked={reminderSettings.browserNotifications}
+                disabled={!taskReminder.isNotificationSupported()}
+                onCheckedChange={handleBrowserNotificationsChange}
+              />
+            </label>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!pendingRemoval} onOpenChange={(open) => !open && setPendingRemoval(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Remove "{pendingRemoval?.stage.label}"?</DialogTitle>
+            <DialogDescription>
+              {pendingRemoval?.count} application(s) are in this stage. Choose where they move
+              when you save the pipeline.
+            </DialogDescription>
+          </DialogHeader>
+          <Select
+            value={pendingRemoval?.targetId}
+            onValueChange={(targetId) => pendingRemoval && setPendingRemoval({ ...pendingRemoval, targetId })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {stages.filter(stage => stage.id !== pendingRemoval?.stage.id).map(stage => (
+                <SelectItem key={stage.id} value={stage.id}>{stage.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingRemoval(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={confirmRemoval}>
+              Move and Remove
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,135 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { salaryNormalizer, SalarySettings as SalarySettingsData } from '@/lib/salary';
+import { Plus, Trash, ArrowCounterClockwise } from '@phosphor-icons/react';
+import { toast } from 'sonner';
+
+export function SalarySettings() {
+  const [settings, setSettings] = useState<SalarySettingsData>(salaryNormalizer.getSettings());
+  const [newCurrency, setNewCurrency] = useState('');
+  const [newRate, setNewRate] = useState('');
+
+  useEffect(() => {
+    return salaryNormalizer.subscribe(setSettings);
+  }, []);
+
+  const currencies = Object.keys(settings.exchangeRates).sort();
+
+  const updateRate = (currency: string, value: string) => {
+    const rate = parseFloat(value);
+    if (!(rate > 0)) return;
+    salaryNormalizer.updateSettings({
+      exchangeRates: { ...settings.exchangeRates, [currency]: rate }
+    });
+  };
+
+  const removeCurrency = (currency: string) => {
+    const { [currency]: _removed, ...exchangeRates } = settings.exchangeRates;
+    salaryNormalizer.updateSettings({ exchangeRates });
+  };
+
+  const addCurrency = () => {
+    const code = newCurrency.trim().toUpperCase();
+    const rate = parseFloat(newRate);
+    if (!/^[A-Z]{3}$/.test(code)) {
+      toast.error('Use a three-letter currency code, e.g. CHF');
+      return;
+    }
+    if (!(rate > 0)) {
+      toast.error('Enter a positive exchange rate');
+      return;
+    }
+
+    salaryNormalizer.updateSettings({
+      exchangeRates: { ...settings.exchangeRates, [code]: rate }
+    });
+    setNewCurrency('');
+    setNewRate('');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Salary Comparison</CardTitle>
+        <CardDescription>
+          Salaries are annualized and converted to your base currency for sorting and
+          filtering. Exchange rates are only stored locally - update them when they drift.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2 max-w-xs">
+          <Label>Base currency</Label>
+          <Select
+            value={settings.baseCurrency}
+            onValueChange={(currency) => salaryNormalizer.setBaseCurrency(currency)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {currencies.map(currency => (
+                <SelectItem key={currency} value={currency}>
+                  {currency}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Exchange rates (value of 1 unit in {settings.baseCurrency})</Label>
+          {currencies.filter(currency => currency !== settings.baseCurrency).map(currency => (
+            <div key={currency} className="flex items-center gap-2">
+              <span className="w-12 text-sm font-medium">{currency}</span>
+              <Input
+                type="number"
+                step="0.0001"
+                min="0"
+                defaultValue={settings.exchangeRates[currency]}
+                key={`${currency}-${settings.baseCurrency}`}
+                onBlur={(e) => updateRate(currency, e.target.value)}
+                className="w-32"
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => removeCurrency(currency)}
+                className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+              >
+                <Trash size={14} />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2 items-center">
+          <Input
+            placeholder="Code"
+            value={newCurrency}
+            onChange={(e) => setNewCurrency(e.target.value)}
+            className="w-24"
+          />
+          <Input
+            type="number"
+            placeholder="Rate"
+            value={newRate}
+            onChange={(e) => setNewRate(e.target.value)}
+            className="w-32"
+          />
+          <Button variant="outline" onClick={addCurrency} className="gap-2">
+            <Plus size={16} />
+            Add Currency
+          </Button>
+          <Button variant="outline" onClick={() => salaryNormalizer.resetToDefaults()} className="gap-2 ml-auto">
+            <ArrowCounterClockwise size={16} />
+            Reset
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
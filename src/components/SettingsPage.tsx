@@ -3,14 +3,32 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { Badge } from './ui/badge';
 import { Button } from './ui/button';
-import { Settings, Mail, Building, Brain, Database } from 'lucide-react';
+import { Settings, Mail, Building, Brain, Database, Workflow, Building2, Tags, Download } from 'lucide-react';
 import { GmailAuth } from './GmailAuth';
 import { LinkedInAuth } from './LinkedInAuth';
 import { EmailForwardingSetup } from './EmailForwardingSetup';
+import { GmailFilterSettings } from './GmailFilterSettings';
+import { PipelineSettings } from './PipelineSettings';
+import { CompanySettings } from './CompanySettings';
+import { SalarySettings } from './SalarySettings';
+import { CustomFieldSettings } from './CustomFieldSettings';
+import { CsvImportDialog } from './CsvImportDialog';
+import { BackupRestoreDialog } from './BackupRestoreDialog';
 import { googleAI } from '../lib/googleAI';
 import { LinkedInProfile } from '../lib/linkedin/LinkedInService';
+import { JobApplication } from '../lib/types';
+import { exportApplicationsToCsv } from '../lib/application-csv';
+import { createBackup } from '../lib/backup';
+import { downloadTextFile } from '../lib/csv';
+import { customFieldRegistry } from '../lib/custom-fields';
+import { format } from 'date-fns';
 
-export function SettingsPage() {
+interface SettingsPageProps {
+  applications: JobApplication[];
+  onApplicationsChange: (applications: JobApplication[], label: string) => void;
+}
+
+export function SettingsPage({ applications, onApplicationsChange }: SettingsPageProps) {
   const [linkedInProfile, setLinkedInProfile] = useState<LinkedInProfile | null>(null);
   const [aiStats, setAiStats] = useState<any>(null);
 
@@ -36,6 +54,16 @@ export function SettingsPage() {
     setAiStats(googleAI.getUsageStats());
   };
 
+  const handleExportCsv = () => {
+    const csv = exportApplicationsToCsv(applications, customFieldRegistry.getDefinitions());
+    downloadTextFile(`job-applications-${format(new Date(), 'yyyy-MM-dd')}.csv`, csv, 'text/csv;charset=utf-8');
+  };
+
+  const handleDownloadBackup = async () => {
+    const backup = await createBackup(applications);
+    downloadTextFile(`job-tracker-backup-${format(new Date(), 'yyyy-MM-dd')}.json`, JSON.stringify(backup, null, 2), 'application/json');
+  };
+
   return (
     <div className="container mx-auto py-6 space-y-6">
       <div className="flex items-center gap-2 mb-6">
@@ -44,7 +72,7 @@ export function SettingsPage() {
       </div>
 
       <Tabs defaultValue="gmail" className="space-y-6">
-        <TabsList className="grid grid-cols-4 w-full">
+        <TabsList className="grid grid-cols-7 w-full">
           <TabsTrigger value="gmail" className="flex items-center gap-2">
             <Mail className="w-4 h-4" />
             Gmail
@@ -57,6 +85,18 @@ export function SettingsPage() {
             <Brain className="w-4 h-4" />
             AI Models
           </TabsTrigger>
+          <TabsTrigger value="pipeline" className="flex items-center gap-2">
+            <Workflow className="w-4 h-4" />
+            Pipeline
+          </TabsTrigger>
+          <TabsTrigger value="companies" className="flex items-center gap-2">
+            <Building2 className="w-4 h-4" />
+            Companies
+          </TabsTrigger>
+          <TabsTrigger value="fields" className="flex items-center gap-2">
+            <Tags className="w-4 h-4" />
+            Fields
+          </TabsTrigger>
           <TabsTrigger value="data" className="flex items-center gap-2">
             <Database className="w-4 h-4" />
             Data
@@ -65,6 +105,7 @@ export function SettingsPage() {
 
         <TabsContent value="gmail" className="space-y-6">
           <GmailAuth />
+          <GmailFilterSettings />
           <EmailForwardingSetup />
         </TabsContent>
 
@@ -173,6 +214,18 @@ export function SettingsPage() {
           </Card>
         </TabsContent>
 
+        <TabsContent value="pipeline" className="space-y-6">
+          <PipelineSettings applications={applications} onApplicationsChange={onApplicationsChange} />
+        </TabsContent>
+
+        <TabsContent value="companies" className="space-y-6">
+          <CompanySettings />
+        </TabsContent>
+
+        <TabsContent value="fields" className="space-y-6">
+          <CustomFieldSettings />
+        </TabsContent>
+
         <TabsContent value="data" className="space-y-6">
           <Card>
             <CardHeader>
@@ -205,16 +258,32 @@ export function SettingsPage() {
                   Export your data for backup or import from other systems.
                 </p>
                 <div className="flex gap-2">
-                  <Button variant="outline" size="sm" disabled>
-                    Export Data (Coming Soon)
+                  <Button variant="outline" size="sm" onClick={handleExportCsv} disabled={applications.length === 0}>
+                    <Download className="w-4 h-4 mr-2" />
+                    Export CSV
                   </Button>
-                  <Button variant="outline" size="sm" disabled>
-                    Import Data (Coming Soon)
+                  <CsvImportDialog applications={applications} onImport={onApplicationsChange} />
+                </div>
+              </div>
+
+              <div className="border rounded-lg p-4 space-y-3">
+                <h4 className="font-medium">Backup & Restore</h4>
+                <p className="text-sm text-muted-foreground">
+                  A single file with your applications, review queue, sync state, contacts, companies,
+                  settings and AI usage stats. Uploaded documents are not included.
+                </p>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={handleDownloadBackup}>
+                    <Download className="w-4 h-4 mr-2" />
+                    Download Backup
                   </Button>
+                  <BackupRestoreDialog applications={applications} onRestore={onApplicationsChange} />
                 </div>
               </div>
             </CardContent>
           </Card>
+
+          <SalarySettings />
         </TabsContent>
       </Tabs>
     </div>
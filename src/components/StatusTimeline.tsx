@@ -0,0 +1,42 @@
+import { Badge } from '@/components/ui/badge';
+import { StatusHistoryEntry } from '@/lib/types';
+import { getStatusLabel, getStatusColor, statusSourceLabels } from '@/lib/applications';
+import { format } from 'date-fns';
+
+interface StatusTimelineProps {
+  entries: StatusHistoryEntry[];
+}
+
+export function StatusTimeline({ entries }: StatusTimelineProps) {
+  const formatDate = (dateString: string) => {
+    try {
+      return format(new Date(dateString), 'MMM dd, yyyy HH:mm');
+    } catch {
+      return dateString;
+    }
+  };
+
+  return (
+    <ol className="relative border-l border-border ml-2 space-y-3">
+      {entries.map((entry, index) => (
+        <li key={`${entry.date}-${entry.status}-${index}`} className="ml-4">
+          <span
+            className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background ${
+              index === 0 ? 'bg-primary' : 'bg-muted-foreground/40'
+            }`}
+          />
+          <div className="flex items-center gap-2 flex-wrap">
+            <Badge className={getStatusColor(entry.status)}>
+              {getStatusLabel(entry.status)}
+            </Badge>
+            <span className="text-xs text-muted-foreground">{formatDate(entry.date)}</span>
+          </div>
+          <p className="text-xs text-muted-foreground mt-1">
+            {statusSourceLabels[entry.source]}
+            {entry.confidence !== undefined && ` · ${Math.round(entry.confidence * 100)}% confidence`}
+          </p>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { addTags } from '@/lib/custom-fields';
+import { X } from '@phosphor-icons/react';
+
+interface TagInputProps {
+  tags: string[];
+  suggestions?: string[];
+  onChange: (tags: string[]) => void;
+  placeholder?: string;
+}
+
+export function TagInput({ tags, suggestions = [], onChange, placeholder = 'Add tags, e.g. remote, referral' }: TagInputProps) {
+  const [input, setInput] = useState('');
+
+  const commit = (value: string) => {
+    onChange(addTags(tags, value.split(',')));
+    setInput('');
+  };
+
+  const query = input.trim().toLowerCase();
+  const selected = new Set(tags.map(tag => tag.toLowerCase()));
+  const matchingSuggestions = suggestions
+    .filter(tag => !selected.has(tag.toLowerCase()) && (!query || tag.toLowerCase().includes(query)))
+    .slice(0, 8);
+
+  return (
+    <div className="space-y-2">
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {tags.map(tag => (
+            <Badge key={tag} variant="secondary" className="gap-1">
+              {tag}
+              <button type="button" onClick={() => onChange(tags.filter(item => item !== tag))}>
+                <X size={10} />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <Input
+        placeholder={placeholder}
+        value={input}
+        onChange={(e) => setInput(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ',') {
+            e.preventDefault();
+            commit(input);
+          } else if (e.key === 'Backspace' && !input && tags.length > 0) {
+            onChange(tags.slice(0, -1));
+          }
+        }}
+        onBlur={() => input.trim() && commit(input)}
+      />
+      {matchingSuggestions.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {matchingSuggestions.map(tag => (
+            <Badge
+              key={tag}
+              variant="outline"
+              className="cursor-pointer hover:bg-accent"
+              onMouseDown={(e) => {
+                // Keep the input's blur from committing the partial text first
+                e.preventDefault();
+                commit(tag);
+              }}
+            >
+              + {tag}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
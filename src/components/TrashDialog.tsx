@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { JobApplication } from '@/lib/types';
+import { applicationTrash, TrashItem, TRASH_RETENTION_DAYS } from '@/lib/trash';
+import { getStatusLabel } from '@/lib/applications';
+import { useTrash } from '@/hooks/use-trash';
+import { Trash, ArrowCounterClockwise, X } from '@phosphor-icons/react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+
+interface TrashDialogProps {
+  applications: JobApplication[];
+  onRestore: (applications: JobApplication[], label: string) => void;
+}
+
+export function TrashDialog({ applications, onRestore }: TrashDialogProps) {
+  const items = useTrash();
+  const [open, setOpen] = useState(false);
+
+  const handleRestore = (item: TrashItem) => {
+    const { application } = item;
+    onRestore([...applications, application], `Restore ${application.position} at ${application.company}`);
+    toast.success(`Restored ${application.position} at ${application.company}`);
+  };
+
+  const handleRestoreAll = () => {
+    const restored = items.map(item => item.application);
+    onRestore([...applications, ...restored], `Restore ${restored.length} application(s) from trash`);
+    toast.success(`Restored ${restored.length} application(s)`);
+  };
+
+  const handleDeleteForever = (item: TrashItem) => {
+    const { application } = item;
+    if (window.confirm(`Permanently delete ${application.position} at ${application.company}? This cannot be undone.`)) {
+      applicationTrash.remove([application.id]);
+    }
+  };
+
+  const handleEmpty = () => {
+    if (window.confirm(`Permanently delete all ${items.length} application(s) in the trash? This cannot be undone.`)) {
+      applicationTrash.empty();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <Trash size={16} />
+          Trash
+          {items.length > 0 && <Badge variant="secondary">{items.length}</Badge>}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Trash size={20} />
+            Trash
+          </DialogTitle>
+          <DialogDescription>
+            Deleted applications are kept for {TRASH_RETENTION_DAYS} days before they are removed for good.
+          </DialogDescription>
+        </DialogHeader>
+
+        {items.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">The trash is empty</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={handleRestoreAll} className="gap-2">
+                <ArrowCounterClockwise size={14} />
+                Restore All
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleEmpty}
+                className="gap-2 text-red-600 hover:text-red-700 hover:bg-red-50"
+              >
+                Empty Trash
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              {items.map(item => (
+                <div key={item.application.id} className="flex items-center gap-3 border rounded-md p-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">
+                      {item.application.position} at {item.application.company}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {getStatusLabel(item.application.status)} · Deleted {format(new Date(item.deletedAt), 'MMM dd, yyyy')} · {applicationTrash.getDaysLeft(item)} day(s) left
+                    </p>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => handleRestore(item)} className="gap-1">
+                    <ArrowCounterClockwise size={14} />
+                    Restore
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDeleteForever(item)}
+                    className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                    title="Delete forever"
+                  >
+                    <X size={14} />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,13 @@
+import { useEffect, useState } from "react"
+import { auditLog } from "@/lib/audit-log"
+
+export function useAuditLog(applicationId: string) {
+  const [entries, setEntries] = useState(() => auditLog.getEntries(applicationId))
+
+  useEffect(() => {
+    setEntries(auditLog.getEntries(applicationId))
+    return auditLog.subscribe(() => setEntries(auditLog.getEntries(applicationId)))
+  }, [applicationId])
+
+  return entries
+}
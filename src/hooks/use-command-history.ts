@@ -0,0 +1,12 @@
+import { useEffect, useState } from "react"
+import { commandHistory } from "@/lib/history"
+
+export function useCommandHistory() {
+  const [state, setState] = useState(() => commandHistory.getState())
+
+  useEffect(() => {
+    return commandHistory.subscribe(setState)
+  }, [])
+
+  return state
+}
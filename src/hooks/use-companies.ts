@@ -0,0 +1,13 @@
+import { useEffect, useState } from "react"
+import { companyDirectory } from "@/lib/companies"
+import { Company } from "@/lib/types"
+
+export function useCompanies() {
+  const [companies, setCompanies] = useState<Company[]>(() => companyDirectory.getCompanies())
+
+  useEffect(() => {
+    return companyDirectory.subscribe(setCompanies)
+  }, [])
+
+  return companies
+}
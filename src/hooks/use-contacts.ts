@@ -0,0 +1,13 @@
+import { useEffect, useState } from "react"
+import { contactBook } from "@/lib/contacts"
+import { Contact } from "@/lib/types"
+
+export function useContacts() {
+  const [contacts, setContacts] = useState<Contact[]>(() => contactBook.getContacts())
+
+  useEffect(() => {
+    return contactBook.subscribe(setContacts)
+  }, [])
+
+  return contacts
+}
@@ -0,0 +1,13 @@
+import { useEffect, useState } from "react"
+import { customFieldRegistry } from "@/lib/custom-fields"
+import { CustomFieldDefinition } from "@/lib/types"
+
+export function useCustomFields() {
+  const [definitions, setDefinitions] = useState<CustomFieldDefinition[]>(() => customFieldRegistry.getDefinitions())
+
+  useEffect(() => {
+    return customFieldRegistry.subscribe(setDefinitions)
+  }, [])
+
+  return definitions
+}
@@ -0,0 +1,13 @@
+import { useEffect, useState } from "react"
+import { documentLibrary } from "@/lib/documents"
+import { DocumentVersion } from "@/lib/types"
+
+export function useDocuments() {
+  const [documents, setDocuments] = useState<DocumentVersion[]>(() => documentLibrary.getDocuments())
+
+  useEffect(() => {
+    return documentLibrary.subscribe(setDocuments)
+  }, [])
+
+  return documents
+}
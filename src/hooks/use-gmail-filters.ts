@@ -0,0 +1,12 @@
+import { useEffect, useState } from "react"
+import { filterSettings, GmailFilterSettings } from "@/lib/gmail/FilterSettings"
+
+export function useGmailFilterSettings() {
+  const [settings, setSettings] = useState<GmailFilterSettings>(() => filterSettings.getSettings())
+
+  useEffect(() => {
+    return filterSettings.subscribe(setSettings)
+  }, [])
+
+  return settings
+}
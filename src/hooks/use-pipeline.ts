@@ -0,0 +1,13 @@
+import { useEffect, useState } from "react"
+import { pipeline } from "@/lib/pipeline"
+import { PipelineStage } from "@/lib/types"
+
+export function usePipelineStages() {
+  const [stages, setStages] = useState<PipelineStage[]>(() => pipeline.getStages())
+
+  useEffect(() => {
+    return pipeline.subscribe(setStages)
+  }, [])
+
+  return stages
+}
@@ -0,0 +1,12 @@
+import { useEffect, useState } from "react"
+import { applicationTrash } from "@/lib/trash"
+
+export function useTrash() {
+  const [items, setItems] = useState(() => applicationTrash.getItems())
+
+  useEffect(() => {
+    return applicationTrash.subscribe(setItems)
+  }, [])
+
+  return items
+}
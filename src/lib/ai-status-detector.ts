@@ -1,8 +1,10 @@
 import { googleAI } from './googleAI';
-import { ApplicationStatus } from './types';
+import { ApplicationStatus, StageCategory } from './types';
+import { pipeline, stageCategoryLabels } from './pipeline';
 
 export interface StatusAnalysis {
   detectedStatus: ApplicationStatus;
+  detectedCategory: StageCategory;
   confidence: number;
   reasoning: string;
   keyIndicators: string[];
@@ -32,7 +34,7 @@ class AIStatusDetector {
     
     try {
       // First try rule-based detection for quick common patterns
-      const ruleBasedResult = this.detectStatusByRules(emailSubject, emailContent);
+      const ruleBasedResult = this.detectStatusByRules(emailSubject, emailContent, currentStatus);
       
       // Use AI for sophisticated analysis
       let aiResult: StatusAnalysis | null = null;
@@ -61,8 +63,10 @@ class AIStatusDetector {
       console.error('Status detection failed:', error);
       
       // Fallback to unknown status
+      const fallbackStatus = currentStatus || pipeline.getDefaultStageId();
       return {
-        detectedStatus: currentStatus || 'applied',
+        detectedStatus: fallbackStatus,
+        detectedCategory: pipeline.getStage(fallbackStatus)?.category || 'applied',
         confidence: 0.1,
         reasoning: 'Failed to analyze email content',
         keyIndicators: [],
@@ -74,11 +78,25 @@ class AIStatusDetector {
   /**
    * Rule-based status detection for common patterns
    */
-  private detectStatusByRules(subject: string, content: string): StatusAnalysis {
+  private detectStatusByRules(subject: string, content: string, currentStatus?: ApplicationStatus): StatusAnalysis {
     const subjectLower = subject.toLowerCase();
     const contentLower = content.toLowerCase();
     const combinedText = `${subjectLower} ${contentLower}`;
     
+    // Take-home / assessment patterns
+    const assessmentPatterns = [
+      'take-home', 'take home', 'home assignment', 'home assessment', 'coding challenge',
+      'technical assessment', 'online assessment', 'codility', 'hackerrank',
+      'מטלת בית', 'מבחן בית', 'מטלה מקצועית'
+    ];
+    
+    // Recruiter / phone screen patterns
+    const screeningPatterns = [
+      'phone screen', 'phone screening', 'screening call', 'recruiter call', 'intro call',
+      'introductory call', 'initial call', 'quick chat',
+      'שיחת היכרות', 'שיחה טלפונית', 'שיחת סינון'
+    ];
+    
     // Interview patterns
     const interviewPatterns = [
       'interview', 'ראיון', 'הראיון', 'zoom', 'teams', 'meet', 'schedule', 'invitation',
@@ -107,39 +125,50 @@ class AIStatusDetector {
     ];
     
     // Check for patterns
-    let detectedStatus: ApplicationStatus = 'applied';
+    let detectedCategory: StageCategory = 'applied';
     let confidence = 0.5;
     let reasoning = 'Default status based on application context';
     let keyIndicators: string[] = [];
     
-    if (interviewPatterns.some(pattern => combinedText.includes(pattern))) {
-      detectedStatus = 'interview';
+    if (assessmentPatterns.some(pattern => combinedText.includes(pattern))) {
+      detectedCategory = 'assessment';
+      confidence = 0.8;
+      reasoning = 'Email contains take-home or assessment language';
+      keyIndicators = assessmentPatterns.filter(pattern => combinedText.includes(pattern));
+    } else if (screeningPatterns.some(pattern => combinedText.includes(pattern))) {
+      detectedCategory = 'screening';
+      confidence = 0.8;
+      reasoning = 'Email contains recruiter or phone screen language';
+      keyIndicators = screeningPatterns.filter(pattern => combinedText.includes(pattern));
+    } else if (interviewPatterns.some(pattern => combinedText.includes(pattern))) {
+      detectedCategory = 'interview';
       confidence = 0.8;
       reasoning = 'Email contains interview-related keywords';
       keyIndicators = interviewPatterns.filter(pattern => combinedText.includes(pattern));
     } else if (rejectionPatterns.some(pattern => combinedText.includes(pattern))) {
-      detectedStatus = 'rejected';
+      detectedCategory = 'rejected';
       confidence = 0.85;
       reasoning = 'Email contains rejection language';
       keyIndicators = rejectionPatterns.filter(pattern => combinedText.includes(pattern));
     } else if (offerPatterns.some(pattern => combinedText.includes(pattern))) {
-      detectedStatus = 'offer';
+      detectedCategory = 'offer';
       confidence = 0.9;
       reasoning = 'Email contains job offer language';
       keyIndicators = offerPatterns.filter(pattern => combinedText.includes(pattern));
     } else if (withdrawalPatterns.some(pattern => combinedText.includes(pattern))) {
-      detectedStatus = 'withdrawn';
+      detectedCategory = 'withdrawn';
       confidence = 0.75;
       reasoning = 'Email indicates application withdrawal';
       keyIndicators = withdrawalPatterns.filter(pattern => combinedText.includes(pattern));
     }
     
     return {
-      detectedStatus,
+      detectedStatus: pipeline.resolveStageForCategory(detectedCategory, currentStatus),
+      detectedCategory,
       confidence,
       reasoning,
       keyIndicators,
-      suggestedNextAction: this.getSuggestedAction(detectedStatus)
+      suggestedNextAction: this.getSuggestedAction(detectedCategory)
     };
   }
 
@@ -154,6 +183,10 @@ class AIStatusDetector {
     ruleBasedHint?: StatusAnalysis
   ): Promise<StatusAnalysis> {
     
+    const stageList = pipeline.getStages()
+      .map(stage => `- ${stage.id} - ${stage.label} - ${stage.category}${stage.terminal ? ' (terminal)' : ''}`)
+      .join('\n');
+
     const prompt = `
 Analyze this email to determine the job application status. This email is related to a job application.
 
@@ -167,15 +200,26 @@ ${content}
 
 Rule-based hint: ${ruleBasedHint ? `${ruleBasedHint.detectedStatus} (${ruleBasedHint.confidence})` : 'none'}
 
-Your task is to determine which of these statuses best describes this email:
+Your task is to determine which stage of the candidate's hiring pipeline this email belongs to.
+The pipeline stages, in order, are (stage id - label - category):
 
-1. **applied** - Initial application submitted, confirmation, or acknowledgment
-2. **interview** - Interview invitation, scheduling, confirmation, or follow-up
-3. **offer** - Job offer, offer letter, salary negotiation, or acceptance
-4. **rejected** - Application rejection, position filled, or "no thank you"
-5. **withdrawn** - Candidate withdrawing application or company withdrawing offer
+${stageList}
+
+Categories mean:
+- **saved** - Job saved for later, not applied yet
+- **applied** - Initial application submitted, confirmation, or acknowledgment
+- **screening** - Recruiter or phone screen invitation or scheduling
+- **assessment** - Take-home assignment, coding challenge or online test
+- **interview** - Interview invitation, scheduling, confirmation, or follow-up
+- **offer** - Job offer, offer letter, salary negotiation
+- **accepted** / **declined** - Candidate accepted or declined an offer
+- **rejected** - Application rejection, position filled, or "no thank you"
+- **withdrawn** - Candidate withdrawing application or company withdrawing offer
+- **ghosted** - Company stopped responding
 
 Look for these indicators:
+- **Screening**: "phone screen", "intro call", "recruiter call", "שיחת היכרות"
+- **Assessment**: "take-home", "home assignment", "coding challenge", "מטלת בית"
 - **Interview**: "schedule", "invite", "interview", "zoom", "teams", "call", "meet", "next step"
 - **Rejection**: "unfortunately", "regret", "not selected", "another candidate", "decided to go"
 - **Offer**: "offer", "congratulations", "pleased to offer", "compensation", "salary", "start date"
@@ -192,7 +236,8 @@ Consider the email tone, sender (HR, recruiter, hiring manager), and context.
 
 Respond in JSON format:
 {
-  "detectedStatus": "status_name",
+  "detectedStatus": "stage_id",
+  "detectedCategory": "category_name",
   "confidence": 0.95,
   "reasoning": "detailed explanation",
   "keyIndicators": ["indicator1", "indicator2"],
@@ -234,12 +279,15 @@ Respond in JSON format:
         parsedResult = this.extractFromAIResult(result, ruleBasedHint);
       }
       
+      const { detectedStatus, detectedCategory } = this.resolveAIStage(parsedResult, currentStatus, ruleBasedHint);
+      
       return {
-        detectedStatus: parsedResult.detectedStatus || ruleBasedHint?.detectedStatus || 'applied',
+        detectedStatus,
+        detectedCategory,
         confidence: Math.min(parsedResult.confidence || result.confidence, 0.95),
         reasoning: parsedResult.reasoning || result.reasoning || 'AI analysis completed',
         keyIndicators: parsedResult.keyIndicators || [],
-        suggestedNextAction: parsedResult.suggestedNextAction || this.getSuggestedAction(parsedResult.detectedStatus),
+        suggestedNextAction: parsedResult.suggestedNextAction || this.getSuggestedAction(detectedCategory),
         extractedDetails: parsedResult.extractedDetails
       };
       
@@ -249,6 +297,39 @@ Respond in JSON format:
     }
   }
 
+  /**
+   * Maps the AI answer onto a stage of the user's pipeline. Trusts the stage id when it
+   * exists in the pipeline, otherwise resolves the category (or legacy status name).
+   */
+  private resolveAIStage(
+    parsedResult: any,
+    currentStatus?: ApplicationStatus,
+    ruleBasedHint?: StatusAnalysis
+  ): { detectedStatus: ApplicationStatus; detectedCategory: StageCategory } {
+    const stage = parsedResult.detectedStatus ? pipeline.getStage(parsedResult.detectedStatus) : undefined;
+    if (stage) {
+      return { detectedStatus: stage.id, detectedCategory: stage.category };
+    }
+
+    const candidates = [parsedResult.detectedCategory, parsedResult.detectedStatus];
+    const category = candidates.find((value): value is StageCategory => Object.hasOwn(stageCategoryLabels, value));
+    if (category) {
+      return {
+        detectedStatus: pipeline.resolveStageForCategory(category, currentStatus),
+        detectedCategory: category
+      };
+    }
+
+    if (ruleBasedHint) {
+      return { detectedStatus: ruleBasedHint.detectedStatus, detectedCategory: ruleBasedHint.detectedCategory };
+    }
+
+    return {
+      detectedStatus: pipeline.resolveStageForCategory('applied', currentStatus),
+      detectedCategory: 'applied'
+    };
+  }
+
   /**
    * Extracts status information from AI result when not in JSON format
    */
@@ -257,61 +338,69 @@ Respond in JSON format:
     const notes = (aiResult.notes || '').toLowerCase();
     
     if (notes.includes('interview') || notes.includes('schedule')) {
-      return { detectedStatus: 'interview', confidence: 0.7 };
+      return { detectedCategory: 'interview', confidence: 0.7 };
     } else if (notes.includes('reject') || notes.includes('unfortunately')) {
-      return { detectedStatus: 'rejected', confidence: 0.8 };
+      return { detectedCategory: 'rejected', confidence: 0.8 };
     } else if (notes.includes('offer') || notes.includes('congratulations')) {
-      return { detectedStatus: 'offer', confidence: 0.9 };
+      return { detectedCategory: 'offer', confidence: 0.9 };
     } else if (notes.includes('withdraw')) {
-      return { detectedStatus: 'withdrawn', confidence: 0.7 };
+      return { detectedCategory: 'withdrawn', confidence: 0.7 };
     }
     
-    return ruleBasedHint || { detectedStatus: 'applied', confidence: 0.5 };
+    return ruleBasedHint || { detectedCategory: 'applied', confidence: 0.5 };
   }
 
   /**
-   * Gets suggested action based on detected status
+   * Gets suggested action based on detected stage category. Also used for
+   * follow-up tasks when a status changes without an email analysis.
    */
-  private getSuggestedAction(status: ApplicationStatus): string {
-    const actions: Record<ApplicationStatus, string> = {
+  getSuggestedAction(category: StageCategory): string {
+    const actions: Record<StageCategory, string> = {
+      saved: 'Review the job posting and apply when ready',
       applied: 'Wait for response or follow up if needed',
+      screening: 'Prepare a short pitch and confirm the call time',
+      assessment: 'Plan time for the assignment and confirm the deadline',
       interview: 'Prepare for interview and confirm attendance',
       offer: 'Review offer details and respond appropriately',
+      accepted: 'Confirm start date and close other applications',
+      declined: 'Thank the company and keep the contact warm',
       rejected: 'Update application tracking and continue job search',
-      withdrawn: 'Mark as withdrawn and continue with other opportunities'
+      withdrawn: 'Mark as withdrawn and continue with other opportunities',
+      ghosted: 'Send a final follow-up or move on'
     };
     
-    return actions[status] || 'Review and update application status';
+    return actions[category] || 'Review and update application status';
   }
 
   /**
-   * Validates if a status transition makes sense
+   * Validates if a status transition makes sense in the configured pipeline
    */
   isValidStatusTransition(from: ApplicationStatus, to: ApplicationStatus): boolean {
-    const validTransitions: Record<ApplicationStatus, ApplicationStatus[]> = {
-      applied: ['interview', 'rejected', 'withdrawn', 'offer'],
-      interview: ['offer', 'rejected', 'withdrawn', 'interview'], // Multiple interviews
-      offer: ['rejected', 'withdrawn'], // Can reject offer or withdraw
-      rejected: [], // Terminal state
-      withdrawn: [] // Terminal state
-    };
-    
-    return validTransitions[from]?.includes(to) || false;
+    return pipeline.isValidTransition(from, to);
   }
 
   /**
    * Gets human-readable description of status
    */
   getStatusDescription(status: ApplicationStatus): string {
-    const descriptions: Record<ApplicationStatus, string> = {
+    const stage = pipeline.getStage(status);
+    if (!stage) return 'Unknown status';
+
+    const descriptions: Record<StageCategory, string> = {
+      saved: 'Saved for later, not applied yet',
       applied: 'Application submitted and pending response',
+      screening: 'Recruiter or phone screen in progress',
+      assessment: 'Working on a take-home or assessment',
       interview: 'Interview scheduled or in progress',
       offer: 'Job offer received',
+      accepted: 'Offer accepted',
+      declined: 'Offer declined',
       rejected: 'Application was rejected',
-      withdrawn: 'Application was withdrawn'
+      withdrawn: 'Application was withdrawn',
+      ghosted: 'No response from the company'
     };
     
-    return descriptions[status] || 'Unknown status';
+    return `${stage.label}: ${descriptions[stage.category]}`;
   }
 }
 
@@ -0,0 +1,346 @@
+import {
+  JobApplication,
+  ApplicationStatus,
+  CustomFieldDefinition,
+  StageCategory,
+} from './types';
+import { pipeline } from './pipeline';
+import { createApplication, findDuplicateEnhanced } from './applications';
+import { addTags, parseCustomFieldValue } from './custom-fields';
+import { FORMULA_START, toCsv } from './csv';
+
+type TextField =
+  | 'company'
+  | 'position'
+  | 'status'
+  | 'appliedDate'
+  | 'salary'
+  | 'location'
+  | 'jobUrl'
+  | 'contactEmail'
+  | 'recruiter'
+  | 'interviewer'
+  | 'notes';
+
+// Fields stored as JSON in our own export, so a round trip keeps them
+type JsonField = 'statusHistory' | 'interviews' | 'tasks';
+
+// Gmail ids from our own export; without them the next sync wouldn't recognize the threads
+type IdListField = 'gmailThreadIds' | 'gmailMessageIds';
+
+/**
+ * What a CSV column is imported into. Custom fields are `custom:<definition id>`.
+ */
+export type ImportTarget = TextField | JsonField | IdListField | 'tags' | `custom:${string}` | 'ignore';
+
+export interface ImportPreviewRow {
+  rowNumber: number; // line in the file, counting the header as line 1
+  data: Partial<JobApplication>;
+  duplicateOf?: JobApplication; // existing application, or an earlier row of the same file
+  warnings: string[];
+  errors: string[]; // rows with errors are never imported
+}
+
+export const importTargetLabels: Record<TextField | JsonField | IdListField | 'tags' | 'ignore', string> = {
+  company: 'Company',
+  position: 'Position',
+  status: 'Status',
+  appliedDate: 'Applied date',
+  salary: 'Salary',
+  location: 'Location',
+  jobUrl: 'Job URL',
+  contactEmail: 'Contact email',
+  recruiter: 'Recruiter',
+  interviewer: 'Interviewer',
+  notes: 'Notes',
+  tags: 'Tags',
+  statusHistory: 'Status history (JSON)',
+  interviews: 'Interviews (JSON)',
+  tasks: 'Tasks (JSON)',
+  gmailThreadIds: 'Gmail thread IDs',
+  gmailMessageIds: 'Gmail message IDs',
+  ignore: "Don't import",
+};
+
+// Header spellings used by Huntr, Teal, LinkedIn and hand-made spreadsheets, normalized
+const HEADER_ALIASES: Record<Exclude<ImportTarget, `custom:${string}` | 'ignore'>, string[]> = {
+  company: ['company', 'companyname', 'employer', 'organization', 'organisation'],
+  position: ['position', 'jobtitle', 'title', 'role', 'jobposition', 'job', 'jobname'],
+  status: ['status', 'stage', 'list', 'applicationstatus', 'jobstatus'],
+  appliedDate: ['applieddate', 'dateapplied', 'applied', 'appliedon', 'applicationdate', 'dateofapplication', 'date'],
+  salary: ['salary', 'salaryrange', 'compensation', 'pay'],
+  location: ['location', 'city', 'joblocation'],
+  jobUrl: ['joburl', 'url', 'link', 'joblink', 'postingurl', 'jobpostingurl', 'jobposting'],
+  contactEmail: ['contactemail', 'email', 'recruiteremail'],
+  recruiter: ['recruiter', 'recruitername', 'contact', 'contactname'],
+  interviewer: ['interviewer', 'interviewers'],
+  notes: ['notes', 'note', 'comments', 'description'],
+  tags: ['tags', 'tag', 'labels'],
+  statusHistory: ['statushistory'],
+  interviews: ['interviews'],
+  tasks: ['tasks'],
+  gmailThreadIds: ['gmailthreadids'],
+  gmailMessageIds: ['gmailmessageids'],
+};
+
+// Checked in order, so "offer accepted" wins over "offer" and "phone interview" counts as screening
+const STATUS_KEYWORDS: Array<[StageCategory, string[]]> = [
+  ['accepted', ['accepted', 'hired']],
+  ['declined', ['declined']],
+  ['rejected', ['rejected', 'rejection', 'not selected', 'closed']],
+  ['withdrawn', ['withdrawn', 'withdrew']],
+  ['ghosted', ['ghosted', 'no response']],
+  ['offer', ['offer']],
+  ['screening', ['screen', 'phone']],
+  ['assessment', ['assessment', 'take home', 'take-home', 'assignment', 'test']],
+  ['interview', ['interview', 'onsite']],
+  ['applied', ['applied', 'applying', 'submitted']],
+  ['saved', ['saved', 'wishlist', 'wish list', 'bookmarked', 'interested', 'to apply']],
+];
+
+const CUSTOM_PREFIX = 'custom:';
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Suggests a target for every column from its header
+ */
+export function guessColumnMapping(headers: string[], customFields: CustomFieldDefinition[]): ImportTarget[] {
+  const used = new Set<ImportTarget>();
+
+  return headers.map(header => {
+    const normalized = normalizeHeader(header);
+    const customField = customFields.find(definition => normalizeHeader(definition.label) === normalized);
+    const target: ImportTarget | undefined = customField
+      ? `${CUSTOM_PREFIX}${customField.id}`
+      : (Object.keys(HEADER_ALIASES) as Array<keyof typeof HEADER_ALIASES>)
+          .find(field => HEADER_ALIASES[field].includes(normalized));
+
+    // Only the first matching column wins, e.g. "Date Applied" over a later "Date"
+    if (!target || used.has(target)) return 'ignore';
+    used.add(target);
+    return target;
+  });
+}
+
+/**
+ * Maps a status from another tracker onto a stage of the user's pipeline
+ */
+export function resolveImportStatus(value: string): ApplicationStatus | undefined {
+  const normalized = value.trim().toLowerCase();
+  if (!normalized) return undefined;
+
+  const stage = pipeline.getStages().find(stage =>
+    stage.id.toLowerCase() === normalized || stage.label.toLowerCase() === normalized
+  );
+  if (stage) return stage.id;
+
+  const match = STATUS_KEYWORDS.find(([, keywords]) => keywords.some(keyword => normalized.includes(keyword)));
+  return match ? pipeline.resolveStageForCategory(match[0]) : undefined;
+}
+
+/**
+ * Parses a date cell into yyyy-MM-dd. Slash dates are read as month/day unless the
+ * first part can only be a day.
+ */
+export function parseImportDate(value: string): string | undefined {
+  const trimmed = value.trim();
+  if (!trimmed) return undefined;
+
+  const iso = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+
+  const slash = trimmed.match(/^(\d{1,2})[/.](\d{1,2})[/.](\d{2,4})$/);
+  if (slash) {
+    const [first, second] = [parseInt(slash[1]), parseInt(slash[2])];
+    const year = slash[3].length === 2 ? 2000 + parseInt(slash[3]) : parseInt(slash[3]);
+    const [month, day] = first > 12 ? [second, first] : [first, second];
+    if (month < 1 || month > 12 || day < 1 || day > 31) return undefined;
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  }
+
+  const parsed = new Date(trimmed);
+  if (isNaN(parsed.getTime())) return undefined;
+  return `${parsed.getFullYear()}-${String(parsed.getMonth() + 1).padStart(2, '0')}-${String(parsed.getDate()).padStart(2, '0')}`;
+}
+
+function parseJsonArray(value: string): unknown[] | undefined {
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function readRow(
+  cells: string[],
+  mapping: ImportTarget[],
+  customFields: CustomFieldDefinition[]
+): Pick<ImportPreviewRow, 'data' | 'warnings' | 'errors'> {
+  const data: Partial<JobApplication> = {};
+  const warnings: string[] = [];
+  const errors: string[] = [];
+
+  mapping.forEach((target, index) => {
+    // Undo the formula guard added by toCsv, which guards the untrimmed value
+    const cell = cells[index] || '';
+    const value = (cell.startsWith("'") && FORMULA_START.test(cell.slice(1)) ? cell.slice(1) : cell).trim();
+    if (target === 'ignore' || !value) return;
+
+    if (target.startsWith(CUSTOM_PREFIX)) {
+      const definition = customFields.find(field => field.id === target.slice(CUSTOM_PREFIX.length));
+      const parsed = definition ? parseCustomFieldValue(definition, value) : undefined;
+      if (definition && parsed !== undefined) {
+        data.customFields = { ...data.customFields, [definition.id]: parsed };
+      } else if (definition) {
+        warnings.push(`"${value}" is not a valid ${definition.label}`);
+      }
+      return;
+    }
+
+    switch (target) {
+      case 'status': {
+        const status = resolveImportStatus(value);
+        if (status) {
+          data.status = status;
+        } else {
+          warnings.push(`Unknown status "${value}", using ${pipeline.getLabel(pipeline.getDefaultStageId())}`);
+        }
+        break;
+      }
+      case 'appliedDate': {
+        const date = parseImportDate(value);
+        if (date) {
+          data.appliedDate = date;
+        } else {
+          warnings.push(`Unreadable date "${value}"`);
+        }
+        break;
+      }
+      case 'tags':
+        data.tags = addTags(data.tags || [], value.split(/[,;]/));
+        break;
+      case 'gmailThreadIds':
+      case 'gmailMessageIds':
+        data[target] = [...new Set(value.split(/[,;]/).map(id => id.trim()).filter(Boolean))];
+        break;
+      case 'statusHistory':
+      case 'interviews':
+      case 'tasks': {
+        const parsed = parseJsonArray(value);
+        if (parsed) {
+          // Our own export - trust the shape
+          (data as Record<string, unknown>)[target] = parsed;
+        } else {
+          warnings.push(`Ignored unreadable ${importTargetLabels[target].toLowerCase()}`);
+        }
+        break;
+      }
+      default:
+        data[target] = value;
+    }
+  });
+
+  if (!data.company) errors.push('Missing company');
+  if (!data.position) errors.push('Missing position');
+
+  return { data, warnings, errors };
+}
+
+/**
+ * Reads the data rows with a column mapping and flags duplicates of existing
+ * applications and of earlier rows in the same file
+ */
+export function buildImportPreview(
+  rows: string[][],
+  mapping: ImportTarget[],
+  existing: JobApplication[],
+  customFields: CustomFieldDefinition[]
+): ImportPreviewRow[] {
+  const accepted: JobApplication[] = [];
+
+  return rows.map((cells, index) => {
+    const row: ImportPreviewRow = { rowNumber: index + 2, ...readRow(cells, mapping, customFields) };
+    if (row.errors.length > 0) return row;
+
+    const company = row.data.company || '';
+    const position = row.data.position || '';
+    row.duplicateOf = findDuplicateEnhanced(existing, company, position) ||
+      findDuplicateEnhanced(accepted, company, position);
+
+    if (!row.duplicateOf) {
+      // Stand-in for duplicate checks only; the real application is created on import
+      accepted.push({ ...row.data, id: `row-${row.rowNumber}` } as JobApplication);
+    }
+    return row;
+  });
+}
+
+/**
+ * Creates applications for the importable preview rows
+ */
+export function createImportedApplications(preview: ImportPreviewRow[], includeDuplicates = false): JobApplication[] {
+  return preview
+    .filter(row => row.errors.length === 0 && (includeDuplicates || !row.duplicateOf))
+    .map(row => {
+      const status = row.data.status || pipeline.getDefaultStageId();
+      const appliedDate = row.data.appliedDate || new Date().toISOString().split('T')[0];
+      const application = createApplication({
+        ...row.data,
+        status,
+        appliedDate,
+        statusHistory: row.data.statusHistory || [{ status, date: new Date(appliedDate).toISOString(), source: 'import' }],
+      }, 'import');
+
+      // Old applications shouldn't flood the task list with follow-up suggestions
+      return { ...application, tasks: row.data.tasks || [] };
+    });
+}
+
+/**
+ * Exports every field of every application. Lists are comma separated and nested
+ * records are JSON, which the importer reads back.
+ */
+export function exportApplicationsToCsv(applications: JobApplication[], customFields: CustomFieldDefinition[]): string {
+  const columns: Array<[string, (application: JobApplication) => string]> = [
+    ['ID', application => application.id],
+    ['Company', application => application.company],
+    ['Position', application => application.position],
+    ['Status', application => pipeline.getLabel(application.status)],
+    ['Applied Date', application => application.appliedDate],
+    ['Salary', application => application.salary || ''],
+    ['Location', application => application.location || ''],
+    ['Job URL', application => application.jobUrl || ''],
+    ['Contact Email', application => application.contactEmail || ''],
+    ['Recruiter', application => application.recruiter || ''],
+    ['Interviewer', application => application.interviewer || ''],
+    ['Notes', application => application.notes || ''],
+    ['Tags', application => (application.tags || []).join(', ')],
+    ...customFields.map((definition): [string, (application: JobApplication) => string] => [
+      definition.label,
+      application => String(application.customFields?.[definition.id] ?? ''),
+    ]),
+    ['Status History', application => JSON.stringify(application.statusHistory || [])],
+    ['Interviews', application => JSON.stringify(application.interviews || [])],
+    ['Tasks', application => JSON.stringify(application.tasks || [])],
+    ['Contact IDs', application => (application.contactIds || []).join(', ')],
+    ['Document IDs', application => (application.documentIds || []).join(', ')],
+    ['Gmail Thread IDs', application => (application.gmailThreadIds || []).join(', ')],
+    ['Gmail Message IDs', application => (application.gmailMessageIds || []).join(', ')],
+    ['Company ID', application => application.companyId || ''],
+    ['Last Activity', application => application.lastActivityAt || ''],
+    ['Created At', application => application.createdAt],
+    ['Updated At', application => application.updatedAt],
+    ['Email Content', application => application.emailContent || ''],
+  ];
+
+  const rows = [
+    columns.map(([header]) => header),
+    ...applications.map(application => columns.map(([, getValue]) => getValue(application))),
+  ];
+  // The BOM makes Excel read Hebrew and other non-ASCII text as UTF-8
+  return '\uFEFF' + toCsv(rows);
+}
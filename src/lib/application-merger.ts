@@ -1,7 +1,12 @@
 import { ProcessedEmail } from './gmail/GmailService';
 import { JobApplication, ApplicationStatus } from './types';
-import { aiStatusDetector } from './ai-status-detector';
+import { aiStatusDetector, StatusAnalysis } from './ai-status-detector';
 import { parseEmailWithStatusDetection, detectStatusFromEmail } from './emailParser';
+import { pipeline, INTERVIEW_CATEGORIES } from './pipeline';
+import { extractInterviewFromEmail, InterviewDraft } from './interviews';
+import { ContactCandidate, parseEmailAddress } from './contacts';
+import { companyDirectory } from './companies';
+import { parseSalary } from './salary';
 
 export interface MergedApplicationData {
   company: string;
@@ -15,6 +20,9 @@ export interface MergedApplicationData {
   notes?: string;
   recruiter?: string;
   interviewer?: string;
+  contacts: ContactCandidate[]; // recruiter/interviewer to store in the contact book
+  interviews: InterviewDraft[];
+  suggestedNextAction?: string; // from the analysis that determined the status
   mergeMetadata: {
     emailCount: number;
     dataSourceSummary: Record<string, string>; // field -> source email info
@@ -63,8 +71,10 @@ class ApplicationMerger {
     const mergedData: MergedApplicationData = {
       company: '',
       position: '',
-      status: 'applied',
+      status: pipeline.getDefaultStageId(),
       appliedDate: '',
+      contacts: [],
+      interviews: [],
       mergeMetadata: {
         emailCount: emails.length,
         dataSourceSummary: {},
@@ -76,9 +86,21 @@ class ApplicationMerger {
     const statusResult = await this.determineCurrentStatus(sortedByDate, existingApplication?.status);
     mergedData.status = statusResult.status;
     mergedData.mergeMetadata.statusHistory = statusResult.history;
+    mergedData.suggestedNextAction = statusResult.finalAnalysis?.suggestedNextAction;
+
+    // Interview events from emails detected as interview stages, using the AI-extracted details
+    for (const email of oldestFirst) {
+      const analysis = statusResult.analyses.get(email.id);
+      if (!analysis || !INTERVIEW_CATEGORIES.includes(analysis.detectedCategory)) continue;
+
+      const interview = extractInterviewFromEmail(email, analysis.extractedDetails);
+      if (interview) {
+        mergedData.interviews.push(interview);
+      }
+    }
 
     // 2. Extract core identity fields (company, position) - prefer oldest/most confident
-    const companyResult = this.findBestFieldValue(emails, 'company');
+    const companyResult = this.resolveCompany(emails, this.findBestFieldValue(emails, 'company'));
     const positionResult = this.findBestFieldValue(emails, 'position');
     
     mergedData.company = companyResult.value;
@@ -106,7 +128,9 @@ class ApplicationMerger {
     }
 
     // 6. Salary information - use most recent mention
-    const salaryResult = this.findBestFieldValue(emails, 'salary');
+    // Prefer mentions that contain an actual amount over vague "competitive salary" lines
+    const emailsWithAmount = emails.filter(email => parseSalary(email.extractedData.salary));
+    const salaryResult = this.findBestFieldValue(emailsWithAmount.length > 0 ? emailsWithAmount : emails, 'salary');
     if (salaryResult.value) {
       mergedData.salary = salaryResult.value;
       mergedData.mergeMetadata.dataSourceSummary['salary'] = this.formatSourceInfo(salaryResult);
@@ -124,12 +148,14 @@ class ApplicationMerger {
     if (recruiterResult) {
       mergedData.recruiter = recruiterResult.value;
       mergedData.mergeMetadata.dataSourceSummary['recruiter'] = this.formatSourceInfo(recruiterResult);
+      mergedData.contacts.push(this.buildContactCandidate(recruiterResult, emails, mergedData.company, 'Recruiter'));
     }
 
     const interviewerResult = this.findInterviewerInfo(emails);
     if (interviewerResult) {
       mergedData.interviewer = interviewerResult.value;
       mergedData.mergeMetadata.dataSourceSummary['interviewer'] = this.formatSourceInfo(interviewerResult);
+      mergedData.contacts.push(this.buildContactCandidate(interviewerResult, emails, mergedData.company, 'Interviewer'));
     }
 
     // 9. Comprehensive notes from all emails
@@ -160,6 +186,8 @@ class ApplicationMerger {
       emailId: string;
       confidence: number;
     }>;
+    analyses: Map<string, StatusAnalysis>;
+    finalAnalysis?: StatusAnalysis;
   }> {
     
     const statusHistory: Array<{
@@ -169,8 +197,10 @@ class ApplicationMerger {
       confidence: number;
     }> = [];
 
-    let finalStatus: ApplicationStatus = currentStatus || 'applied';
+    let finalStatus: ApplicationStatus = currentStatus || pipeline.getDefaultStageId();
     let highestConfidence = 0;
+    const analyses = new Map<string, StatusAnalysis>();
+    let finalAnalysis: StatusAnalysis | undefined;
 
     // Analyze each email for status indicators
     for (const email of emailsSortedByDate) {
@@ -181,6 +211,7 @@ class ApplicationMerger {
           email.from,
           currentStatus
         );
+        analyses.set(email.id, statusAnalysis);
 
         statusHistory.push({
           status: statusAnalysis.detectedStatus,
@@ -194,6 +225,7 @@ class ApplicationMerger {
             statusAnalysis.confidence > 0.7) {
           finalStatus = statusAnalysis.detectedStatus;
           highestConfidence = statusAnalysis.confidence;
+          finalAnalysis = statusAnalysis;
         }
 
       } catch (error) {
@@ -205,26 +237,28 @@ class ApplicationMerger {
         
         if (content.includes('unfortunately') || content.includes('regret') || 
             content.includes('not selected') || content.includes('decided to go')) {
+          const rejectedStatus = pipeline.resolveStageForCategory('rejected', currentStatus);
           statusHistory.push({
-            status: 'rejected',
+            status: rejectedStatus,
             date: email.date,
             emailId: email.id,
             confidence: 0.6
           });
           if (0.6 > highestConfidence) {
-            finalStatus = 'rejected';
+            finalStatus = rejectedStatus;
             highestConfidence = 0.6;
           }
         } else if (subject.includes('interview') || content.includes('schedule') ||
                    content.includes('zoom') || content.includes('teams')) {
+          const interviewStatus = pipeline.resolveStageForCategory('interview', currentStatus);
           statusHistory.push({
-            status: 'interview',
+            status: interviewStatus,
             date: email.date,
             emailId: email.id,
             confidence: 0.6
           });
           if (0.6 > highestConfidence) {
-            finalStatus = 'interview';
+            finalStatus = interviewStatus;
             highestConfidence = 0.6;
           }
         }
@@ -236,7 +270,9 @@ class ApplicationMerger {
 
     return {
       status: finalStatus,
-      history: statusHistory
+      history: statusHistory,
+      analyses,
+      finalAnalysis
     };
   }
 
@@ -278,6 +314,35 @@ class ApplicationMerger {
     return bestResult;
   }
 
+  /**
+   * Maps the extracted company onto its canonical name in the company directory.
+   * When no email names the company, a known sender domain is used instead.
+   */
+  private resolveCompany(emails: ProcessedEmail[], result: FieldExtractionResult): FieldExtractionResult {
+    const sourceEmail = emails.find(email => email.id === result.sourceEmailId);
+    const known = companyDirectory.resolve(result.value, sourceEmail?.from);
+    if (known) {
+      return { ...result, value: known.name };
+    }
+
+    if (result.value) return result;
+
+    for (const email of emails) {
+      const byDomain = companyDirectory.resolve(undefined, email.from);
+      if (byDomain) {
+        return {
+          value: byDomain.name,
+          confidence: 0.6,
+          sourceEmailId: email.id,
+          sourceDate: email.date,
+          extractionMethod: 'rule-based'
+        };
+      }
+    }
+
+    return result;
+  }
+
   /**
    * Finds the applied date from the oldest relevant email
    */
@@ -592,6 +657,28 @@ class ApplicationMerger {
     return null;
   }
 
+  /**
+   * Turns a recruiter/interviewer result into a contact, taking the address from the
+   * source email when the name came from its sender
+   */
+  private buildContactCandidate(
+    result: FieldExtractionResult,
+    emails: ProcessedEmail[],
+    company: string,
+    role: string
+  ): ContactCandidate {
+    const sourceEmail = emails.find(email => email.id === result.sourceEmailId);
+    const sender = sourceEmail ? parseEmailAddress(sourceEmail.from) : {};
+    const isSender = sender.name?.toLowerCase() === result.value.toLowerCase();
+
+    return {
+      name: result.value,
+      email: isSender ? sender.email : undefined,
+      company: company || undefined,
+      role
+    };
+  }
+
   /**
    * Builds comprehensive notes from all emails
    */
@@ -608,7 +695,7 @@ class ApplicationMerger {
       statusHistory.forEach((entry, index) => {
         const date = new Date(entry.date).toLocaleDateString();
         const confidence = Math.round(entry.confidence * 100);
-        notes.push(`  ${index + 1}. ${entry.status} (${date}, ${confidence}% confidence)`);
+        notes.push(`  ${index + 1}. ${pipeline.getLabel(entry.status)} (${date}, ${confidence}% confidence)`);
       });
       notes.push('');
     }
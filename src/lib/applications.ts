@@ -1,19 +1,31 @@
-import { JobApplication, ApplicationStatus } from './types';
+import { JobApplication, ApplicationStatus, StatusHistoryEntry, StatusChangeSource } from './types';
 import { applicationMerger, MergedApplicationData } from './application-merger';
 import { gmailService, ProcessedEmail } from './gmail/GmailService';
+import { pipeline } from './pipeline';
+import { contactBook, getContactCandidatesFromEmail } from './contacts';
+import { companyDirectory, normalizeCompanyName } from './companies';
+import { addInterviewEvents } from './interviews';
+import { addSuggestedTask } from './tasks';
+import { addTags } from './custom-fields';
 
 export function generateId(): string {
   return Date.now().toString(36) + Math.random().toString(36).substr(2);
 }
 
-export function createApplication(data: Partial<JobApplication>): JobApplication {
+export function createApplication(
+  data: Partial<JobApplication>,
+  source: StatusChangeSource = 'manual'
+): JobApplication {
   const now = new Date().toISOString();
+  const status = data.status || pipeline.getDefaultStageId();
+  const { company, companyId } = companyDirectory.assign(data.company, data.contactEmail);
   
   return {
     id: generateId(),
-    company: data.company || '',
+    company: company || data.company || '',
+    companyId,
     position: data.position || '',
-    status: data.status || 'applied',
+    status,
     appliedDate: data.appliedDate || new Date().toISOString().split('T')[0],
     notes: data.notes || '',
     contactEmail: data.contactEmail || '',
@@ -23,19 +35,162 @@ export function createApplication(data: Partial<JobApplication>): JobApplication
     salary: data.salary || '',
     location: data.location || '',
     emailContent: data.emailContent || '',
+    statusHistory: data.statusHistory?.length
+      ? data.statusHistory
+      : [{ status, date: now, source }],
+    lastActivityAt: data.lastActivityAt || now,
+    contactIds: data.contactIds || [],
+    interviews: data.interviews || [],
+    tasks: addSuggestedTask(data.tasks, status),
+    tags: addTags([], data.tags || []),
+    customFields: data.customFields || {},
+    documentIds: data.documentIds || [],
     createdAt: now,
     updatedAt: now,
   };
 }
 
-export function updateApplication(existing: JobApplication, updates: Partial<JobApplication>): JobApplication {
+/**
+ * Applies an edit to an application. `activityAt` is when the change happened, e.g. the
+ * date of the email an update comes from; it defaults to now.
+ */
+export function updateApplication(
+  existing: JobApplication,
+  updates: Partial<JobApplication>,
+  source: StatusChangeSource = 'manual',
+  activityAt?: string
+): JobApplication {
+  const now = new Date().toISOString();
+  const happenedAt = activityAt || now;
+  let statusHistory = updates.statusHistory || existing.statusHistory || [];
+  let tasks = updates.tasks || existing.tasks;
+
+  // Record the transition unless the caller already supplied it in the history
+  if (updates.status && updates.status !== existing.status) {
+    statusHistory = recordStatusChange(statusHistory, {
+      status: updates.status,
+      date: happenedAt,
+      source,
+    });
+    tasks = addSuggestedTask(tasks, updates.status);
+  }
+
+  // Re-resolve the company record when the name was edited
+  const companyFields = updates.company !== undefined && updates.company !== existing.company
+    ? companyDirectory.assign(updates.company, updates.contactEmail ?? existing.contactEmail)
+    : {};
+
   return {
     ...existing,
     ...updates,
-    updatedAt: new Date().toISOString(),
+    ...companyFields,
+    statusHistory,
+    tasks,
+    // Automatic inactivity changes must not count as activity themselves, and a late sync of
+    // an old email must not make the application look more recent than it is
+    lastActivityAt: source === 'inactivity' || (existing.lastActivityAt && existing.lastActivityAt > happenedAt)
+      ? existing.lastActivityAt
+      : happenedAt,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Appends a status change to the history, skipping it when the latest entry already has that status
+ */
+export function recordStatusChange(
+  history: StatusHistoryEntry[],
+  entry: StatusHistoryEntry
+): StatusHistoryEntry[] {
+  const latest = history[history.length - 1];
+  if (latest && latest.status === entry.status) {
+    return history;
+  }
+  return [...history, entry];
+}
+
+/**
+ * Combines two status histories into a single chronological list of transitions.
+ * Entries from the same email are only kept once, and consecutive entries with the
+ * same status are collapsed into the earliest one.
+ */
+export function mergeStatusHistory(
+  existing: StatusHistoryEntry[] = [],
+  incoming: StatusHistoryEntry[] = []
+): StatusHistoryEntry[] {
+  const seenEmailIds = new Set(existing.filter(entry => entry.emailId).map(entry => entry.emailId));
+  const combined = [
+    ...existing,
+    ...incoming.filter(entry => !entry.emailId || !seenEmailIds.has(entry.emailId)),
+  ].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  return combined.reduce<StatusHistoryEntry[]>(
+    (history, entry) => recordStatusChange(history, entry),
+    []
+  );
+}
+
+/**
+ * The application a Gmail thread was linked to by an earlier sync
+ */
+export function findApplicationByThread(
+  applications: JobApplication[],
+  threadId?: string
+): JobApplication | undefined {
+  if (!threadId) return undefined;
+  return applications.find(application => application.gmailThreadIds?.includes(threadId));
+}
+
+/**
+ * Thread and message ids of both applications, without duplicates
+ */
+export function mergeGmailIds(
+  existing: Pick<JobApplication, 'gmailThreadIds' | 'gmailMessageIds'>,
+  incoming: Pick<JobApplication, 'gmailThreadIds' | 'gmailMessageIds'>
+): Pick<JobApplication, 'gmailThreadIds' | 'gmailMessageIds'> {
+  return {
+    gmailThreadIds: [...new Set([...(existing.gmailThreadIds || []), ...(incoming.gmailThreadIds || [])])],
+    gmailMessageIds: [...new Set([...(existing.gmailMessageIds || []), ...(incoming.gmailMessageIds || [])])],
   };
 }
 
+/**
+ * Whether two values of an application field are the same. Missing and empty lists count
+ * as the same, so merging nothing into an application doesn't look like a change.
+ */
+export function isSameFieldValue(a: unknown, b: unknown): boolean {
+  const normalize = (value: unknown) =>
+    value === undefined || (Array.isArray(value) && value.length === 0) ? null : JSON.stringify(value);
+  return normalize(a) === normalize(b);
+}
+
+/**
+ * The fields that differ between two versions of an application
+ */
+export function getChangedFields(a: JobApplication, b: JobApplication): Array<keyof JobApplication> {
+  const fields = [...new Set([...Object.keys(a), ...Object.keys(b)])] as Array<keyof JobApplication>;
+  return fields.filter(field => !isSameFieldValue(a[field], b[field]));
+}
+
+/**
+ * Whether two versions of an application hold the same data
+ */
+export function isSameApplication(a: JobApplication, b: JobApplication): boolean {
+  return getChangedFields(a, b).length === 0;
+}
+
+/**
+ * Returns the status history of an application, newest first.
+ * Applications created before history tracking fall back to a single entry.
+ */
+export function getStatusTimeline(application: JobApplication): StatusHistoryEntry[] {
+  const history = application.statusHistory?.length
+    ? application.statusHistory
+    : [{ status: application.status, date: application.createdAt, source: 'manual' as const }];
+
+  return [...history].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+}
+
 export function findDuplicate(applications: JobApplication[], company: string, position: string): JobApplication | undefined {
   return applications.find(app => 
     app.company.toLowerCase().trim() === company.toLowerCase().trim() &&
@@ -66,7 +221,7 @@ export async function createOrUpdateApplicationWithMerging(
 }> {
   
   // Check if this is a duplicate application
-  const existingApp = findDuplicate(
+  const existingApp = findDuplicateEnhanced(
     existingApplications,
     applicationData.company || '',
     applicationData.position || ''
@@ -114,9 +269,26 @@ export async function createOrUpdateApplicationWithMerging(
     existingApp
   );
 
+  // Keep the detected status transitions (only confident detections count as transitions)
+  const detectedHistory: StatusHistoryEntry[] = mergedData.mergeMetadata.statusHistory
+    .filter(entry => entry.confidence > 0.7)
+    .map(entry => ({ ...entry, source: 'gmail-sync' as const }));
+
+  // Store the people involved in the contact book
+  const contactIds = contactBook.upsertCandidates([
+    ...mergedData.contacts,
+    ...emailsToMerge.flatMap(email => getContactCandidatesFromEmail(email)),
+  ]);
+
+  // The application was last active when its latest email arrived, not when it was synced
+  const latestEmailDate = emailsToMerge
+    .map(email => email.date)
+    .reduce<string | undefined>((latest, date) => !latest || date > latest ? date : latest, undefined);
+
   // Create the final application data
   const finalApplicationData: Partial<JobApplication> = {
     ...applicationData,
+    lastActivityAt: latestEmailDate || applicationData.lastActivityAt,
     company: mergedData.company || applicationData.company,
     position: mergedData.position || applicationData.position,
     status: mergedData.status,
@@ -128,6 +300,13 @@ export async function createOrUpdateApplicationWithMerging(
     salary: mergedData.salary || applicationData.salary,
     location: mergedData.location || applicationData.location,
     notes: mergedData.notes || applicationData.notes,
+    statusHistory: mergeStatusHistory(existingApp?.statusHistory, detectedHistory),
+    contactIds: [...new Set([...(existingApp?.contactIds || applicationData.contactIds || []), ...contactIds])],
+    interviews: addInterviewEvents(existingApp?.interviews || applicationData.interviews, mergedData.interviews),
+    // Suggest a follow-up based on the email that moved the application to its new stage
+    tasks: mergedData.status !== existingApp?.status
+      ? addSuggestedTask(existingApp?.tasks || applicationData.tasks, mergedData.status, mergedData.suggestedNextAction)
+      : existingApp?.tasks || applicationData.tasks,
   };
 
   let finalApplication: JobApplication;
@@ -135,7 +314,7 @@ export async function createOrUpdateApplicationWithMerging(
 
   if (existingApp) {
     // Update existing application
-    finalApplication = updateApplication(existingApp, finalApplicationData);
+    finalApplication = updateApplication(existingApp, finalApplicationData, 'gmail-sync', latestEmailDate);
     isUpdate = true;
     
     console.log('Updated existing application with merged data:', {
@@ -147,7 +326,7 @@ export async function createOrUpdateApplicationWithMerging(
     
   } else {
     // Create new application
-    finalApplication = createApplication(finalApplicationData);
+    finalApplication = createApplication(finalApplicationData, 'gmail-sync');
     
     console.log('Created new application with merged data:', {
       company: finalApplication.company,
@@ -177,11 +356,12 @@ export function findDuplicateEnhanced(
   const normalizeString = (str: string) =>
     str.toLowerCase()
        .trim()
-       .replace(/[^\w\s]/g, '')
+       .replace(/[^\p{L}\p{N}\s]/gu, '')
        .replace(/\s+/g, ' ');
 
-  const normalizedCompany = normalizeString(company);
+  const normalizedCompany = normalizeCompanyName(company);
   const normalizedPosition = normalizeString(position);
+  const resolvedCompany = companyDirectory.resolve(company);
 
   // First try exact match
   const exactMatch = findDuplicate(applications, company, position);
@@ -189,11 +369,17 @@ export function findDuplicateEnhanced(
 
   // Then try fuzzy matching
   for (const app of applications) {
-    const appCompany = normalizeString(app.company);
+    const appCompany = normalizeCompanyName(app.company);
     const appPosition = normalizeString(app.position);
 
+    // Aliases of the same company record ("Wix", "Wix.com Ltd", "וויקס") count as a full match
+    const isSameCompanyRecord = !!resolvedCompany && (
+      (app.companyId && companyDirectory.getCompany(app.companyId)?.id === resolvedCompany.id) ||
+      companyDirectory.resolve(app.company)?.id === resolvedCompany.id
+    );
+
     // Simple word-based similarity
-    const companyScore = calculateSimilarity(normalizedCompany, appCompany);
+    const companyScore = isSameCompanyRecord ? 1 : calculateSimilarity(normalizedCompany, appCompany);
     const positionScore = calculateSimilarity(normalizedPosition, appPosition);
     
     // Both company and position must meet threshold
@@ -334,18 +520,18 @@ export function sortByDate(applications: JobApplication[], direction: 'asc' | 'd
   });
 }
 
-export const statusLabels: Record<ApplicationStatus, string> = {
-  applied: 'Applied',
-  interview: 'Interview',
-  offer: 'Offer',
-  rejected: 'Rejected',
-  withdrawn: 'Withdrawn',
-};
+export function getStatusLabel(status: ApplicationStatus): string {
+  return pipeline.getLabel(status);
+}
+
+export function getStatusColor(status: ApplicationStatus): string {
+  return pipeline.getColorClass(status);
+}
 
-export const statusColors: Record<ApplicationStatus, string> = {
-  applied: 'bg-secondary text-secondary-foreground',
-  interview: 'bg-primary text-primary-foreground',
-  offer: 'bg-accent text-accent-foreground',
-  rejected: 'bg-destructive text-destructive-foreground',
-  withdrawn: 'bg-muted text-muted-foreground',
+export const statusSourceLabels: Record<StatusChangeSource, string> = {
+  manual: 'Manual edit',
+  'gmail-sync': 'Gmail sync',
+  'review-queue': 'Review queue',
+  inactivity: 'No activity (auto)',
+  import: 'Imported',
 };
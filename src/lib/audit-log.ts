@@ -0,0 +1,254 @@
+import { JobApplication, ApplicationTask, InterviewEvent } from './types';
+import { ApplicationChange, CommandSource } from './history';
+import { contactBook } from './contacts';
+import { documentLibrary } from './documents';
+import { customFieldRegistry, formatCustomFieldValue } from './custom-fields';
+import { auditLogRepository } from './storage/repositories';
+
+const CUSTOM_FIELD_PREFIX = 'customFields.';
+
+export type AuditSource = CommandSource | 'undo' | 'redo';
+export type AuditAction = 'created' | 'updated' | 'deleted';
+export type AuditValue = string | number | string[] | null;
+
+/**
+ * One recorded change. `field` is a JobApplication key, or `customFields.<id>` for custom fields.
+ */
+export interface AuditEntry {
+  id: string;
+  applicationId: string;
+  action: AuditAction;
+  field?: string;
+  oldValue?: AuditValue;
+  newValue?: AuditValue;
+  source: AuditSource;
+  label: string; // the command that made the change, e.g. "Edit Backend Engineer at Wix"
+  emailId?: string; // Gmail message that caused the change
+  timestamp: string;
+}
+
+export interface FieldChange {
+  field: string;
+  oldValue: AuditValue;
+  newValue: AuditValue;
+}
+
+export const auditSourceLabels: Record<AuditSource, string> = {
+  list: 'Manual edit',
+  'review-queue': 'Review queue',
+  sync: 'Gmail sync',
+  linkedin: 'LinkedIn sync',
+  import: 'Import',
+  trash: 'Trash',
+  inactivity: 'No activity (auto)',
+  reminder: 'Task reminder',
+  contacts: 'Contacts',
+  undo: 'Undo',
+  redo: 'Redo',
+};
+
+const fieldLabels: Partial<Record<keyof JobApplication, string>> = {
+  company: 'Company',
+  companyId: 'Company record',
+  position: 'Position',
+  status: 'Status',
+  appliedDate: 'Applied date',
+  notes: 'Notes',
+  contactEmail: 'Contact email',
+  recruiter: 'Recruiter',
+  interviewer: 'Interviewer',
+  jobUrl: 'Job URL',
+  salary: 'Salary',
+  location: 'Location',
+  contactIds: 'Contacts',
+  interviews: 'Interviews',
+  tasks: 'Tasks',
+  tags: 'Tags',
+  documentIds: 'Documents',
+};
+
+// Bookkeeping fields that change on every edit, are derived from other fields or hold raw email text
+const IGNORED_FIELDS = new Set<string>([
+  'id', 'createdAt', 'updatedAt', 'lastActivityAt', 'statusHistory', 'customFields', 'emailContent',
+  'gmailThreadIds', 'gmailMessageIds',
+]);
+
+export function getAuditFieldLabel(field: string): string {
+  if (field.startsWith(CUSTOM_FIELD_PREFIX)) {
+    return customFieldRegistry.getDefinition(field.slice(CUSTOM_FIELD_PREFIX.length))?.label || 'Custom field';
+  }
+  return fieldLabels[field as keyof JobApplication] || field;
+}
+
+/**
+ * Turns a field value into something small and readable. Ids are resolved to names at
+ * record time so the log still makes sense after the contact or document is deleted.
+ */
+function toAuditValue(field: string, value: unknown): AuditValue {
+  if (value === undefined || value === null || value === '') return null;
+
+  if (field.startsWith(CUSTOM_FIELD_PREFIX)) {
+    const definition = customFieldRegistry.getDefinition(field.slice(CUSTOM_FIELD_PREFIX.length));
+    return definition ? formatCustomFieldValue(definition, value as string | number) || null : String(value);
+  }
+
+  switch (field) {
+    case 'contactIds':
+      return (value as string[]).map(id => contactBook.getContact(id)?.name || id);
+    case 'documentIds':
+      return (value as string[]).map(id => {
+        const document = documentLibrary.getDocument(id);
+        return document ? `${document.name} v${document.version}` : id;
+      });
+    case 'tasks':
+      return (value as ApplicationTask[]).map(task =>
+        task.completedAt ? `${task.title} (done)` : task.title
+      );
+    case 'interviews':
+      return (value as InterviewEvent[]).map(interview =>
+        [interview.title || `Round ${interview.round}`, interview.start].filter(Boolean).join(' @ ')
+      );
+  }
+
+  if (typeof value === 'string' || typeof value === 'number') return value;
+  if (Array.isArray(value) && value.every(item => typeof item === 'string')) return value;
+  return JSON.stringify(value);
+}
+
+function isSameValue(a: AuditValue, b: AuditValue): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Field-by-field differences between two versions of an application
+ */
+export function diffApplicationFields(before: JobApplication, after: JobApplication): FieldChange[] {
+  const changes: FieldChange[] = [];
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+
+    const oldValue = toAuditValue(field, before[field as keyof JobApplication]);
+    const newValue = toAuditValue(field, after[field as keyof JobApplication]);
+    if (!isSameValue(oldValue, newValue)) {
+      changes.push({ field, oldValue, newValue });
+    }
+  }
+
+  const customFieldIds = new Set([...Object.keys(before.customFields || {}), ...Object.keys(after.customFields || {})]);
+  for (const id of customFieldIds) {
+    const field = CUSTOM_FIELD_PREFIX + id;
+    const oldValue = toAuditValue(field, before.customFields?.[id]);
+    const newValue = toAuditValue(field, after.customFields?.[id]);
+    if (!isSameValue(oldValue, newValue)) {
+      changes.push({ field, oldValue, newValue });
+    }
+  }
+
+  return changes;
+}
+
+function generateEntryId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).substr(2);
+}
+
+/**
+ * Append-only record of every change made to applications, with where it came from
+ */
+class AuditLog {
+  private entries: AuditEntry[] = [];
+  private listeners: Array<(entries: AuditEntry[]) => void> = [];
+  private loaded: Promise<void>;
+
+  constructor() {
+    this.loaded = this.loadEntries();
+  }
+
+  private async loadEntries() {
+    try {
+      const stored = await auditLogRepository.getAll();
+      // Keep anything recorded while the database was loading
+      const recordedIds = new Set(this.entries.map(entry => entry.id));
+      this.entries = [...stored.filter(entry => !recordedIds.has(entry.id)), ...this.entries];
+      this.notifyListeners();
+    } catch (error) {
+      console.error('Error loading audit log:', error);
+    }
+  }
+
+  /**
+   * Resolves once the log is loaded from the database
+   */
+  ready(): Promise<void> {
+    return this.loaded;
+  }
+
+  private notifyListeners() {
+    this.listeners.forEach(listener => listener(this.entries));
+  }
+
+  /**
+   * Entries for one application, newest first
+   */
+  getEntries(applicationId: string): AuditEntry[] {
+    return this.entries
+      .filter(entry => entry.applicationId === applicationId)
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  }
+
+  getAllEntries(): AuditEntry[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Replaces the whole log, e.g. with the one from a backup
+   */
+  replaceEntries(entries: AuditEntry[]): void {
+    this.entries = [...entries];
+    auditLogRepository.replaceAll(this.entries).catch(error => {
+      console.error('Error persisting audit log:', error);
+    });
+    this.notifyListeners();
+  }
+
+  /**
+   * Appends entries for a set of application changes (see commandHistory)
+   */
+  record(changes: ApplicationChange[], source: AuditSource, label: string, emailId?: string): void {
+    const timestamp = new Date().toISOString();
+    const base = { source, label, emailId, timestamp };
+    const added: AuditEntry[] = [];
+
+    for (const change of changes) {
+      if (!change.before) {
+        added.push({ ...base, id: generateEntryId(), applicationId: change.id, action: 'created' });
+      } else if (!change.after) {
+        added.push({ ...base, id: generateEntryId(), applicationId: change.id, action: 'deleted' });
+      } else {
+        for (const fieldChange of diffApplicationFields(change.before, change.after)) {
+          added.push({ ...base, ...fieldChange, id: generateEntryId(), applicationId: change.id, action: 'updated' });
+        }
+      }
+    }
+
+    if (added.length === 0) return;
+    this.entries = [...this.entries, ...added];
+    auditLogRepository.put(added).catch(error => {
+      console.error('Error persisting audit log:', error);
+    });
+    this.notifyListeners();
+  }
+
+  subscribe(listener: (entries: AuditEntry[]) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+}
+
+export const auditLog = new AuditLog();
@@ -0,0 +1,339 @@
+import { JobApplication, PipelineStage, CustomFieldDefinition, Company, Contact } from './types';
+import { syncScheduler, ReviewQueueItem, SyncResult } from './gmail/SyncScheduler';
+import { pipeline } from './pipeline';
+import { ghostDetector, GhostDetectionSettings } from './ghost-detector';
+import { taskReminder, TaskReminderSettings } from './tasks';
+import { salaryNormalizer, SalarySettings } from './salary';
+import { customFieldRegistry } from './custom-fields';
+import { companyDirectory } from './companies';
+import { contactBook } from './contacts';
+import { googleAI } from './googleAI';
+import { applicationTrash, TrashItem } from './trash';
+import { auditLog, AuditEntry } from './audit-log';
+import { commandHistory } from './history';
+
+const BACKUP_FORMAT = 'job-application-tracker-backup';
+
+// Bump when the shape of BackupData changes, and teach validateBackup to upgrade older files
+export const BACKUP_SCHEMA_VERSION = 2;
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface AIUsageStats {
+  flashCalls: number;
+  proCalls: number;
+  totalTokens: number;
+}
+
+export interface BackupData {
+  applications: JobApplication[];
+  reviewQueue: ReviewQueueItem[];
+  lastSyncResult: SyncResult | null;
+  companies: Company[];
+  contacts: Contact[];
+  trash: TrashItem[]; // since schema 2
+  auditLog: AuditEntry[]; // since schema 2
+  settings: {
+    pipelineStages: PipelineStage[];
+    customFields: CustomFieldDefinition[];
+    ghostDetection: GhostDetectionSettings;
+    taskReminders: TaskReminderSettings;
+    salary: SalarySettings;
+  };
+  aiUsageStats: AIUsageStats;
+}
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number;
+  createdAt: string;
+  checksum: string; // SHA-256 of JSON.stringify(data), hex
+  data: BackupData;
+}
+
+export interface BackupSummary {
+  createdAt: string;
+  applications: number;
+  reviewQueue: number;
+  contacts: number;
+  companies: number;
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isRecordList(value: unknown, requiredStrings: string[]): boolean {
+  return Array.isArray(value) && value.every(item =>
+    isObject(item) && requiredStrings.every(key => typeof item[key] === 'string')
+  );
+}
+
+/**
+ * Collects everything needed to rebuild the tracker in another browser.
+ * Document files are not included.
+ */
+export async function createBackup(applications: JobApplication[]): Promise<BackupArchive> {
+  await Promise.all([applicationTrash.ready(), auditLog.ready()]);
+  const { flashCalls, proCalls, totalTokens } = googleAI.getUsageStats();
+  const data: BackupData = {
+    applications,
+    reviewQueue: syncScheduler.getReviewQueue(),
+    lastSyncResult: syncScheduler.getLastSyncResult(),
+    companies: companyDirectory.getCompanies(),
+    contacts: contactBook.getContacts(),
+    trash: applicationTrash.getItems(),
+    auditLog: auditLog.getAllEntries(),
+    settings: {
+      pipelineStages: pipeline.getStages(),
+      customFields: customFieldRegistry.getDefinitions(),
+      ghostDetection: ghostDetector.getSettings(),
+      taskReminders: taskReminder.getSettings(),
+      salary: salaryNormalizer.getSettings(),
+    },
+    aiUsageStats: { flashCalls, proCalls, totalTokens },
+  };
+
+  return {
+    format: BACKUP_FORMAT,
+    schemaVersion: BACKUP_SCHEMA_VERSION,
+    createdAt: new Date().toISOString(),
+    checksum: await sha256(JSON.stringify(data)),
+    data,
+  };
+}
+
+/**
+ * Parses and checks a backup file. Throws with a readable message when the file is
+ * not a backup, comes from a newer version of the app, was modified or is incomplete.
+ */
+export async function validateBackup(text: string): Promise<BackupArchive> {
+  let archive: unknown;
+  try {
+    archive = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  if (!isObject(archive) || archive.format !== BACKUP_FORMAT) {
+    throw new Error('The file is not a job tracker backup');
+  }
+  if (typeof archive.schemaVersion !== 'number' || archive.schemaVersion > BACKUP_SCHEMA_VERSION) {
+    throw new Error('The backup was made by a newer version of the app');
+  }
+  if (!isObject(archive.data) || typeof archive.checksum !== 'string') {
+    throw new Error('The backup is incomplete');
+  }
+  if (await sha256(JSON.stringify(archive.data)) !== archive.checksum) {
+    throw new Error('Checksum mismatch - the backup is corrupted or was edited');
+  }
+
+  const { data } = archive;
+  // Schema 1 backups had no trash or audit log
+  if (archive.schemaVersion < 2) {
+    data.trash = [];
+    data.auditLog = [];
+  }
+
+  const problems: string[] = [];
+  if (!isRecordList(data.applications, ['id', 'company', 'position', 'status'])) problems.push('applications');
+  if (!isRecordList(data.reviewQueue, ['id'])) problems.push('review queue');
+  if (data.lastSyncResult !== null && !isObject(data.lastSyncResult)) problems.push('last sync result');
+  if (!isRecordList(data.companies, ['id', 'name'])) problems.push('companies');
+  if (!isRecordList(data.contacts, ['id', 'name'])) problems.push('contacts');
+  const isTrashItem = (item: unknown) => isObject(item) && isObject(item.application) && typeof item.application.id === 'string';
+  if (!Array.isArray(data.trash) || !data.trash.every(isTrashItem)) problems.push('trash');
+  if (!isRecordList(data.auditLog, ['id', 'applicationId'])) problems.push('audit log');
+  if (!isObject(data.aiUsageStats)) problems.push('AI usage stats');
+
+  const settings = data.settings;
+  if (!isObject(settings)) {
+    problems.push('settings');
+  } else {
+    if (!isRecordList(settings.pipelineStages, ['id', 'label', 'category']) ||
+        (settings.pipelineStages as unknown[]).length === 0) problems.push('pipeline stages');
+    if (!isRecordList(settings.customFields, ['id', 'label', 'type'])) problems.push('custom fields');
+    if (!isObject(settings.ghostDetection)) problems.push('inactivity settings');
+    if (!isObject(settings.taskReminders)) problems.push('task settings');
+    if (!isObject(settings.salary)) problems.push('salary settings');
+  }
+
+  if (problems.length === 0) {
+    // Checks pipeline.saveStages would fail on, and statuses a restore would leave dangling
+    const { pipelineStages, customFields } = settings as BackupData['settings'];
+    const stageIds = new Set(pipelineStages.map(stage => stage.id));
+    if (pipelineStages.some(stage => !stage.id.trim()) || stageIds.size !== pipelineStages.length) {
+      problems.push('pipeline stage ids');
+    }
+    if (new Set(customFields.map(field => field.id)).size !== customFields.length) {
+      problems.push('custom field ids');
+    }
+    const applications = [
+      ...(data.applications as JobApplication[]),
+      ...(data.trash as TrashItem[]).map(item => item.application),
+    ];
+    if (applications.some(application => !stageIds.has(application.status))) {
+      problems.push('applications in stages missing from the backup');
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`The backup has invalid data: ${problems.join(', ')}`);
+  }
+  return archive as unknown as BackupArchive;
+}
+
+export function summarizeBackup(archive: BackupArchive): BackupSummary {
+  return {
+    createdAt: archive.createdAt,
+    applications: archive.data.applications.length,
+    reviewQueue: archive.data.reviewQueue.length,
+    contacts: archive.data.contacts.length,
+    companies: archive.data.companies.length,
+  };
+}
+
+/**
+ * Adds records from the backup that don't exist locally. For records on both sides
+ * the most recently updated one wins when both carry `updatedAt`, otherwise the local one.
+ */
+function mergeById<T extends { id: string; updatedAt?: string }>(current: T[], incoming: T[]): T[] {
+  const merged = new Map(current.map(item => [item.id, item]));
+  for (const item of incoming) {
+    const existing = merged.get(item.id);
+    if (!existing || (item.updatedAt && existing.updatedAt && item.updatedAt > existing.updatedAt)) {
+      merged.set(item.id, item);
+    }
+  }
+  return [...merged.values()];
+}
+
+/**
+ * Everything restoreBackup writes, so a restore can be applied in one go and undone
+ */
+interface StoreState {
+  pipelineStages: PipelineStage[];
+  customFields: CustomFieldDefinition[];
+  ghostDetection: GhostDetectionSettings;
+  taskReminders: TaskReminderSettings;
+  salary: SalarySettings;
+  companies: Company[];
+  contacts: Contact[];
+  reviewQueue: ReviewQueueItem[];
+  lastSyncResult: SyncResult | null;
+  aiUsageStats: AIUsageStats;
+  trash: TrashItem[];
+  auditLog: AuditEntry[];
+}
+
+function captureState(): StoreState {
+  const { flashCalls, proCalls, totalTokens } = googleAI.getUsageStats();
+  return {
+    pipelineStages: pipeline.getStages(),
+    customFields: customFieldRegistry.getDefinitions(),
+    ghostDetection: ghostDetector.getSettings(),
+    taskReminders: taskReminder.getSettings(),
+    salary: salaryNormalizer.getSettings(),
+    companies: companyDirectory.getCompanies(),
+    contacts: contactBook.getContacts(),
+    reviewQueue: syncScheduler.getReviewQueue(),
+    lastSyncResult: syncScheduler.getLastSyncResult(),
+    aiUsageStats: { flashCalls, proCalls, totalTokens },
+    trash: applicationTrash.getItems(),
+    auditLog: auditLog.getAllEntries(),
+  };
+}
+
+function commitState(state: StoreState): void {
+  pipeline.saveStages(state.pipelineStages);
+  customFieldRegistry.replaceDefinitions(state.customFields);
+  ghostDetector.updateSettings(state.ghostDetection);
+  taskReminder.updateSettings(state.taskReminders);
+  salaryNormalizer.updateSettings(state.salary);
+  companyDirectory.replaceCompanies(state.companies);
+  contactBook.replaceContacts(state.contacts);
+  syncScheduler.restoreSyncData(state.reviewQueue, state.lastSyncResult);
+  googleAI.restoreUsageStats(state.aiUsageStats);
+  applicationTrash.replaceItems(state.trash);
+  auditLog.replaceEntries(state.auditLog);
+}
+
+/**
+ * Applies a validated backup to the stores and returns the application list to use.
+ * In merge mode local settings are kept and only missing stages and fields are added.
+ * The new state is built before anything is written, and the stores are put back when
+ * writing fails partway.
+ */
+export function restoreBackup(archive: BackupArchive, currentApplications: JobApplication[], mode: RestoreMode): JobApplication[] {
+  const { data } = archive;
+  const current = captureState();
+  let next: StoreState;
+  let applications: JobApplication[];
+
+  if (mode === 'replace') {
+    // The trash and audit log are swapped in by completeReplaceRestore
+    next = {
+      ...current,
+      ...data.settings,
+      companies: data.companies,
+      contacts: data.contacts,
+      reviewQueue: data.reviewQueue,
+      lastSyncResult: data.lastSyncResult,
+      aiUsageStats: data.aiUsageStats,
+    };
+    applications = data.applications;
+  } else {
+    // Restored applications may use stages and fields that only exist in the backup
+    const stageIds = new Set(current.pipelineStages.map(stage => stage.id));
+    const localLastSync = current.lastSyncResult;
+    applications = mergeById(currentApplications, data.applications);
+
+    // Trashed copies of applications that exist after the merge would restore duplicates
+    const liveIds = new Set(applications.map(application => application.id));
+    const trashedIds = new Set(current.trash.map(item => item.application.id));
+
+    next = {
+      ...current,
+      pipelineStages: [
+        ...current.pipelineStages,
+        ...data.settings.pipelineStages.filter(stage => !stageIds.has(stage.id)),
+      ],
+      customFields: mergeById(current.customFields, data.settings.customFields),
+      companies: mergeById(current.companies, data.companies),
+      contacts: mergeById(current.contacts, data.contacts),
+      reviewQueue: mergeById(current.reviewQueue, data.reviewQueue),
+      lastSyncResult: !localLastSync || (data.lastSyncResult && data.lastSyncResult.timestamp > localLastSync.timestamp)
+        ? data.lastSyncResult
+        : localLastSync,
+      trash: [
+        ...current.trash.filter(item => !liveIds.has(item.application.id)),
+        ...data.trash.filter(item => !liveIds.has(item.application.id) && !trashedIds.has(item.application.id)),
+      ],
+      auditLog: mergeById(current.auditLog, data.auditLog),
+    };
+  }
+
+  try {
+    commitState(next);
+  } catch (error) {
+    commitState(current);
+    throw error;
+  }
+  return applications;
+}
+
+/**
+ * Finishes a replace restore once the restored applications are committed. Committing
+ * moves the replaced applications to the trash, so the trash and audit log are swapped for
+ * the backup's afterwards, and the undo history goes so nothing replaced can come back.
+ */
+export function completeReplaceRestore(archive: BackupArchive): void {
+  applicationTrash.replaceItems(archive.data.trash);
+  auditLog.replaceEntries(archive.data.auditLog);
+  commandHistory.clear();
+}
@@ -0,0 +1,272 @@
+import { Company } from './types';
+import { parseEmailAddress } from './contacts';
+import { linkedInService } from './linkedin/LinkedInService';
+
+const STORAGE_KEY = 'companies';
+
+// Legal-entity suffixes ignored when comparing names (English and Hebrew)
+const LEGAL_SUFFIXES = [
+  'ltd', 'limited', 'inc', 'incorporated', 'llc', 'llp', 'corp', 'corporation', 'co', 'company',
+  'gmbh', 'plc', 'sa', 'ag', 'bv', 'nv', 'srl', 'pty', 'group', 'בעמ', 'בע"מ', 'בע״מ'
+];
+
+// Mailbox providers and hiring platforms - their domains say nothing about the employer
+const GENERIC_DOMAINS = [
+  'gmail.com', 'googlemail.com', 'outlook.com', 'hotmail.com', 'live.com', 'yahoo.com', 'icloud.com',
+  'walla.co.il', 'walla.com', 'linkedin.com', 'indeed.com', 'glassdoor.com', 'greenhouse.io',
+  'lever.co', 'hire.lever.co', 'myworkday.com', 'workday.com', 'smartrecruiters.com', 'comeet.co',
+  'comeet.com', 'ashbyhq.com', 'icims.com', 'taleo.net', 'jobvite.com', 'bamboohr.com', 'breezy.hr',
+  'recruitee.com', 'teamtailor.com', 'alljobs.co.il', 'drushim.co.il', 'jobmaster.co.il'
+];
+
+function generateCompanyId(): string {
+  return 'company_' + Date.now().toString(36) + Math.random().toString(36).substr(2, 6);
+}
+
+/**
+ * Reduces a company name to a comparable key: "Wix.com Ltd." and "wix" both become "wix"
+ */
+export function normalizeCompanyName(name: string): string {
+  let normalized = name
+    .toLowerCase()
+    .replace(/[״”“]/g, '"')
+    .replace(/\.(com|io|ai|co|net)\b/g, ' ')
+    .replace(/[^\p{L}\p{N}\s"&]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  // Strip trailing legal suffixes ("Acme Holdings Ltd" -> "acme holdings")
+  let words = normalized.split(' ');
+  while (words.length > 1 && LEGAL_SUFFIXES.includes(words[words.length - 1])) {
+    words = words.slice(0, -1);
+  }
+  normalized = words.join(' ').replace(/"/g, '').trim();
+
+  return normalized;
+}
+
+/**
+ * Returns the registrable domain of an address ("jobs@mail.wix.com" -> "wix.com"),
+ * or undefined for personal mailboxes and hiring platforms
+ */
+export function getCompanyDomain(emailAddress?: string): string | undefined {
+  if (!emailAddress) return undefined;
+  const email = parseEmailAddress(emailAddress).email;
+  if (!email) return undefined;
+
+  const labels = email.split('@')[1].split('.');
+  // Keep three labels for second-level country domains like intel.co.il
+  const keep = labels.length > 2 && /^(co|ac|org|gov|com|net)$/.test(labels[labels.length - 2]) ? 3 : 2;
+  const domain = labels.slice(-keep).join('.');
+
+  return GENERIC_DOMAINS.includes(domain) || GENERIC_DOMAINS.includes(labels.join('.'))
+    ? undefined
+    : domain;
+}
+
+class CompanyDirectory {
+  private companies: Company[] = [];
+  private listeners: Array<(companies: Company[]) => void> = [];
+
+  constructor() {
+    this.loadCompanies();
+  }
+
+  private loadCompanies() {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        this.companies = JSON.parse(stored);
+      }
+    } catch (error) {
+      console.error('Error loading companies:', error);
+    }
+  }
+
+  private persist() {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.companies));
+    } catch (error) {
+      console.error('Error persisting companies:', error);
+    }
+    this.notifyListeners();
+  }
+
+  /**
+   * Returns all companies sorted by name
+   */
+  getCompanies(): Company[] {
+    return [...this.companies].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Looks up a company by id, following ids of companies that were merged into it
+   */
+  getCompany(id: string): Company | undefined {
+    return this.companies.find(company => company.id === id || company.mergedIds?.includes(id));
+  }
+
+  /**
+   * Finds the company a name or email address belongs to. Names are matched against
+   * the canonical name and every alias. Only without a name is the address matched against
+   * the known email domains, since agencies and shared domains send mail for many companies.
+   */
+  resolve(name?: string, emailAddress?: string): Company | undefined {
+    const key = name ? normalizeCompanyName(name) : '';
+    if (key) {
+      return this.companies.find(company =>
+        [company.name, ...company.aliases].some(alias => normalizeCompanyName(alias) === key)
+      );
+    }
+
+    const domain = getCompanyDomain(emailAddress);
+    if (domain) {
+      return this.companies.find(company => company.domains.includes(domain));
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Returns the canonical spelling for a company name, or the name itself when unknown
+   */
+  getCanonicalName(name: string): string {
+    return this.resolve(name)?.name || name;
+  }
+
+  /**
+   * True when both names refer to the same company record (or normalize to the same key)
+   */
+  isSameCompany(a: string, b: string): boolean {
+    const keyA = normalizeCompanyName(a);
+    const keyB = normalizeCompanyName(b);
+    if (!keyA || !keyB) return false;
+    if (keyA === keyB) return true;
+
+    const companyA = this.resolve(a);
+    return !!companyA && companyA.id === this.resolve(b)?.id;
+  }
+
+  /**
+   * Resolves the company for an application, creating a record for new names and
+   * learning new spellings and email domains along the way
+   */
+  assign(name?: string, emailAddress?: string): { company: string; companyId?: string } {
+    const trimmed = name?.trim() || '';
+    const domain = getCompanyDomain(emailAddress);
+    const existing = this.resolve(trimmed, emailAddress);
+
+    if (!existing) {
+      if (!trimmed) return { company: '' };
+
+      const now = new Date().toISOString();
+      const company: Company = {
+        id: generateCompanyId(),
+        name: trimmed,
+        aliases: [],
+        domains: domain && !this.resolve(undefined, emailAddress) ? [domain] : [],
+        createdAt: now,
+        updatedAt: now,
+      };
+      this.companies = [...this.companies, company];
+      this.persist();
+      return { company: company.name, companyId: company.id };
+    }
+
+    const knownNames = [existing.name, ...existing.aliases];
+    const isNewAlias = trimmed && !knownNames.some(alias => alias.toLowerCase() === trimmed.toLowerCase());
+    const isNewDomain = domain && !existing.domains.includes(domain) &&
+      !this.companies.some(company => company.domains.includes(domain));
+
+    if (isNewAlias || isNewDomain) {
+      this.updateCompany(existing.id, {
+        aliases: isNewAlias ? [...existing.aliases, trimmed] : existing.aliases,
+        domains: isNewDomain ? [...existing.domains, domain] : existing.domains,
+      });
+    }
+
+    return { company: existing.name, companyId: existing.id };
+  }
+
+  updateCompany(id: string, updates: Partial<Omit<Company, 'id' | 'createdAt'>>): void {
+    const now = new Date().toISOString();
+    this.companies = this.companies.map(company =>
+      company.id === id ? { ...company, ...updates, updatedAt: now } : company
+    );
+    this.persist();
+  }
+
+  /**
+   * Folds one company into another. The source name and aliases become aliases of the
+   * target, and the source id keeps resolving to the target.
+   */
+  mergeCompanies(targetId: string, sourceId: string): void {
+    const target = this.getCompany(targetId);
+    const source = this.getCompany(sourceId);
+    if (!target || !source || target.id === source.id) return;
+
+    const aliases = [...new Set([...target.aliases, source.name, ...source.aliases])]
+      .filter(alias => alias !== target.name);
+
+    this.companies = this.companies.filter(company => company.id !== source.id);
+    this.updateCompany(target.id, {
+      aliases,
+      domains: [...new Set([...target.domains, ...source.domains])],
+      linkedInId: target.linkedInId || source.linkedInId,
+      mergedIds: [...(target.mergedIds || []), source.id, ...(source.mergedIds || [])],
+    });
+  }
+
+  deleteCompany(id: string): void {
+    this.companies = this.companies.filter(company => company.id !== id);
+    this.persist();
+  }
+
+  /**
+   * Looks the company up on LinkedIn and stores the id of an exact name match
+   */
+  async linkLinkedInCompany(id: string): Promise<boolean> {
+    const company = this.getCompany(id);
+    if (!company) return false;
+
+    const results = await linkedInService.searchCompanies(company.name);
+    const names = [company.name, ...company.aliases].map(normalizeCompanyName);
+    const match = results.find(result => names.includes(normalizeCompanyName(result.name)));
+
+    if (!match) return false;
+
+    this.updateCompany(company.id, { linkedInId: match.id });
+    return true;
+  }
+
+  /**
+   * Replaces all companies, e.g. when restoring a backup
+   */
+  replaceCompanies(companies: Company[]): void {
+    this.companies = companies;
+    this.persist();
+  }
+
+  subscribe(listener: (companies: Company[]) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  private notifyListeners() {
+    const companies = this.getCompanies();
+    this.listeners.forEach(listener => {
+      try {
+        listener(companies);
+      } catch (error) {
+        console.error('Error in companies listener:', error);
+      }
+    });
+  }
+}
+
+export const companyDirectory = new CompanyDirectory();
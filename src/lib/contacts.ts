@@ -0,0 +1,322 @@
+import { Contact, JobApplication } from './types';
+import { ProcessedEmail } from './gmail/GmailService';
+
+const STORAGE_KEY = 'contacts';
+
+/**
+ * A person found in an email or on an application before it is matched to a stored contact
+ */
+export interface ContactCandidate {
+  name?: string;
+  email?: string;
+  company?: string;
+  role?: string;
+}
+
+const AUTOMATED_SENDER_PATTERNS = [
+  'noreply', 'no-reply', 'donotreply', 'do-not-reply', 'notifications', 'mailer-daemon',
+  'linkedin', 'support', 'team', 'jobs-listings', 'careers@', 'hr@', 'talent@'
+];
+
+function generateContactId(): string {
+  return 'contact_' + Date.now().toString(36) + Math.random().toString(36).substr(2, 6);
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Splits an address like `"Doe, Jane" <jane@acme.com>` into name and email
+ */
+export function parseEmailAddress(value: string): { name?: string; email?: string } {
+  if (!value) return {};
+
+  const emailMatch = value.match(/([a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,})/);
+  const email = emailMatch ? emailMatch[1].toLowerCase() : undefined;
+
+  const nameMatch = value.match(/^\s*"?([^"<]+?)"?\s*</);
+  let name = nameMatch ? nameMatch[1].trim() : undefined;
+
+  // "Doe, Jane" -> "Jane Doe"
+  if (name && /^[^,]+,\s*[^,]+$/.test(name)) {
+    const [last, first] = name.split(',').map(part => part.trim());
+    name = `${first} ${last}`;
+  }
+
+  return { name: name || undefined, email };
+}
+
+/**
+ * True for notification senders and shared mailboxes that shouldn't become contacts
+ */
+export function isAutomatedAddress(value: string): boolean {
+  const lower = value.toLowerCase();
+  return AUTOMATED_SENDER_PATTERNS.some(pattern => lower.includes(pattern));
+}
+
+/**
+ * Collects the people mentioned on a processed email: the sender plus any
+ * recruiter or interviewer names picked up by the parser
+ */
+export function getContactCandidatesFromEmail(email: ProcessedEmail): ContactCandidate[] {
+  const company = email.extractedData.company;
+  const sender = parseEmailAddress(email.from);
+  const candidates: ContactCandidate[] = [];
+
+  const recruiter = email.extractedData.recruiter?.trim();
+  const interviewer = email.extractedData.interviewer?.trim();
+  const senderName = sender.name ? normalizeName(sender.name) : '';
+
+  const senderIsAutomated = !sender.email || isAutomatedAddress(email.from);
+  if (!senderIsAutomated) {
+    let role: string | undefined;
+    if (recruiter && normalizeName(recruiter) === senderName) {
+      role = 'Recruiter';
+    } else if (interviewer && normalizeName(interviewer) === senderName) {
+      role = 'Interviewer';
+    } else if (/recruit|talent/.test(email.from.toLowerCase())) {
+      role = 'Recruiter';
+    }
+
+    candidates.push({ name: sender.name, email: sender.email, company, role });
+  }
+
+  if (recruiter && (senderIsAutomated || normalizeName(recruiter) !== senderName)) {
+    candidates.push({ name: recruiter, company, role: 'Recruiter' });
+  }
+
+  if (interviewer && (senderIsAutomated || normalizeName(interviewer) !== senderName)) {
+    candidates.push({ name: interviewer, company, role: 'Interviewer' });
+  }
+
+  return candidates;
+}
+
+/**
+ * Returns every application a contact is linked to
+ */
+export function getApplicationsForContact(contactId: string, applications: JobApplication[]): JobApplication[] {
+  return applications.filter(application => application.contactIds?.includes(contactId));
+}
+
+class ContactBook {
+  private contacts: Contact[] = [];
+  private listeners: Array<(contacts: Contact[]) => void> = [];
+
+  constructor() {
+    this.loadContacts();
+  }
+
+  private loadContacts() {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        this.contacts = JSON.parse(stored);
+      }
+    } catch (error) {
+      console.error('Error loading contacts:', error);
+    }
+  }
+
+  private persist() {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.contacts));
+    } catch (error) {
+      console.error('Error persisting contacts:', error);
+    }
+    this.notifyListeners();
+  }
+
+  /**
+   * Returns all contacts sorted by name
+   */
+  getContacts(): Contact[] {
+    return [...this.contacts].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  getContact(id: string): Contact | undefined {
+    return this.contacts.find(contact => contact.id === id);
+  }
+
+  getContactsByIds(ids: string[] = []): Contact[] {
+    return ids
+      .map(id => this.getContact(id))
+      .filter((contact): contact is Contact => !!contact);
+  }
+
+  /**
+   * Finds the stored contact for a candidate - by email first, then by name within the same company
+   */
+  findMatch(candidate: ContactCandidate): Contact | undefined {
+    const email = candidate.email?.toLowerCase();
+    if (email) {
+      const byEmail = this.contacts.find(contact => contact.emails.includes(email));
+      if (byEmail) return byEmail;
+    }
+
+    if (!candidate.name) return undefined;
+    const name = normalizeName(candidate.name);
+    const company = candidate.company?.toLowerCase().trim();
+
+    return this.contacts.find(contact =>
+      normalizeName(contact.name) === name &&
+      (!company || !contact.company || contact.company.toLowerCase().trim() === company)
+    );
+  }
+
+  /**
+   * Creates or enriches contacts for the given candidates and returns their ids.
+   * Existing values are never overwritten, only missing ones are filled in.
+   */
+  upsertCandidates(candidates: ContactCandidate[]): string[] {
+    const ids: string[] = [];
+    let changed = false;
+    const now = new Date().toISOString();
+
+    for (const candidate of candidates) {
+      const email = candidate.email?.toLowerCase();
+      const name = candidate.name?.trim();
+      if (!name && !email) continue;
+
+      const existing = this.findMatch(candidate);
+      if (existing) {
+        const emails = email && !existing.emails.includes(email)
+          ? [...existing.emails, email]
+          : existing.emails;
+        const updated: Contact = {
+          ...existing,
+          // Replace a placeholder name taken from the address with a real one
+          name: existing.name === existing.emails[0] && name ? name : existing.name,
+          emails,
+          company: existing.company || candidate.company,
+          role: existing.role || candidate.role,
+        };
+
+        if (JSON.stringify(updated) !== JSON.stringify(existing)) {
+          this.contacts = this.contacts.map(contact =>
+            contact.id === existing.id ? { ...updated, updatedAt: now } : contact
+          );
+          changed = true;
+        }
+        ids.push(existing.id);
+        continue;
+      }
+
+      const contact: Contact = {
+        id: generateContactId(),
+        name: name || email!,
+        emails: email ? [email] : [],
+        company: candidate.company,
+        role: candidate.role,
+        createdAt: now,
+        updatedAt: now,
+      };
+      this.contacts = [...this.contacts, contact];
+      changed = true;
+      ids.push(contact.id);
+    }
+
+    if (changed) {
+      this.persist();
+    }
+
+    return [...new Set(ids)];
+  }
+
+  /**
+   * Creates contacts from the people on an email and returns their ids
+   */
+  upsertFromEmail(email: ProcessedEmail): string[] {
+    return this.upsertCandidates(getContactCandidatesFromEmail(email));
+  }
+
+  /**
+   * Links applications to contacts based on their free-text recruiter,
+   * interviewer and contact email fields. Returns the updated applications.
+   */
+  linkApplications(applications: JobApplication[]): JobApplication[] {
+    return applications.map(application => {
+      const candidates: ContactCandidate[] = [];
+      const company = application.company || undefined;
+
+      if (application.contactEmail && !isAutomatedAddress(application.contactEmail)) {
+        const { name, email } = parseEmailAddress(application.contactEmail);
+        if (email) {
+          candidates.push({ name, email, company });
+        }
+      }
+      if (application.recruiter?.trim()) {
+        candidates.push({ name: application.recruiter, company, role: 'Recruiter' });
+      }
+      if (application.interviewer?.trim()) {
+        candidates.push({ name: application.interviewer, company, role: 'Interviewer' });
+      }
+
+      if (candidates.length === 0) return application;
+
+      const ids = this.upsertCandidates(candidates);
+      const contactIds = [...new Set([...(application.contactIds || []), ...ids])];
+      return contactIds.length === (application.contactIds || []).length
+        ? application
+        : { ...application, contactIds };
+    });
+  }
+
+  saveContact(contact: Omit<Contact, 'id' | 'createdAt' | 'updatedAt'> & { id?: string }): Contact {
+    if (!contact.name.trim()) {
+      throw new Error('Contact name is required');
+    }
+
+    const now = new Date().toISOString();
+    const emails = [...new Set(contact.emails.map(email => email.toLowerCase().trim()).filter(Boolean))];
+    const existing = contact.id ? this.getContact(contact.id) : undefined;
+
+    const saved: Contact = existing
+      ? { ...existing, ...contact, id: existing.id, emails, updatedAt: now }
+      : { ...contact, id: generateContactId(), emails, createdAt: now, updatedAt: now };
+
+    this.contacts = existing
+      ? this.contacts.map(item => item.id === saved.id ? saved : item)
+      : [...this.contacts, saved];
+    this.persist();
+
+    return saved;
+  }
+
+  deleteContact(id: string): void {
+    this.contacts = this.contacts.filter(contact => contact.id !== id);
+    this.persist();
+  }
+
+  /**
+   * Replaces all contacts, e.g. when restoring a backup
+   */
+  replaceContacts(contacts: Contact[]): void {
+    this.contacts = contacts;
+    this.persist();
+  }
+
+  subscribe(listener: (contacts: Contact[]) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  private notifyListeners() {
+    const contacts = this.getContacts();
+    this.listeners.forEach(listener => {
+      try {
+        listener(contacts);
+      } catch (error) {
+        console.error('Error in contacts listener:', error);
+      }
+    });
+  }
+}
+
+export const contactBook = new ContactBook();
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, toCsv } from './csv';
+
+describe('parseCsv', () => {
+  it('handles quoted fields, doubled quotes and newlines inside quotes', () => {
+    const text = 'Company,Notes\r\n"Acme, Inc.","Said ""soon""\nthen nothing"\r\nGlobex,\r\n';
+    expect(parseCsv(text)).toEqual([
+      ['Company', 'Notes'],
+      ['Acme, Inc.', 'Said "soon"\nthen nothing'],
+      ['Globex', ''],
+    ]);
+  });
+
+  it('detects semicolon and tab delimiters', () => {
+    expect(parseCsv('Company;Role\nAcme;Engineer, Backend')).toEqual([
+      ['Company', 'Role'],
+      ['Acme', 'Engineer, Backend'],
+    ]);
+    expect(parseCsv('Company\tRole\nAcme\tEngineer')).toEqual([
+      ['Company', 'Role'],
+      ['Acme', 'Engineer'],
+    ]);
+  });
+
+  it('strips a byte order mark and drops blank lines', () => {
+    expect(parseCsv('\uFEFFCompany,Role\n\n , \nAcme,Engineer\n')).toEqual([
+      ['Company', 'Role'],
+      ['Acme', 'Engineer'],
+    ]);
+  });
+});
+
+describe('toCsv', () => {
+  it('guards cells a spreadsheet would read as formulas', () => {
+    expect(toCsv([['=SUM(A1)', ' +1', '-5', '@home', 'a=b']])).toBe("'=SUM(A1),' +1,'-5,'@home,a=b");
+  });
+
+  it('round-trips through parseCsv', () => {
+    const rows = [['Company', 'Notes'], ['Acme, Inc.', 'Said "soon"\nthen nothing']];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Parses CSV text (RFC 4180: quoted fields, doubled quotes, newlines inside quotes).
+ * Also accepts semicolon or tab separated files, as exported by some spreadsheet locales.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(input);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const counts = [',', ';', '\t'].map(delimiter => ({
+    delimiter,
+    count: firstLine.split(delimiter).length - 1,
+  }));
+  return counts.reduce((best, current) => current.count > best.count ? current : best).delimiter;
+}
+
+// Cells a spreadsheet may read as a formula; toCsv prefixes them with a quote
+export const FORMULA_START = /^(?:[\t\r]|\s*[=+\-@])/;
+
+function escapeCell(value: string): string {
+  // Keep spreadsheets from evaluating cells as formulas, also once they trim leading whitespace
+  const safe = FORMULA_START.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Serializes rows to CSV with CRLF line endings
+ */
+export function toCsv(rows: string[][]): string {
+  return rows.map(row => row.map(escapeCell).join(',')).join('\r\n');
+}
+
+/**
+ * Saves text as a file in the user's downloads
+ */
+export function downloadTextFile(fileName: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  try {
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+  } finally {
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+}
@@ -0,0 +1,264 @@
+import { CustomFieldDefinition, CustomFieldType, CustomFieldValue, JobApplication } from './types';
+import { format } from 'date-fns';
+
+const STORAGE_KEY = 'custom_field_definitions';
+
+export const customFieldTypeLabels: Record<CustomFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  date: 'Date',
+  select: 'Select',
+};
+
+/**
+ * Filter value per field id. Text matches by substring, select by equality,
+ * numbers and dates match values at or above the filter value.
+ */
+export type CustomFieldFilters = Record<string, string>;
+
+/**
+ * Trims and collapses whitespace so "Remote " and "remote" end up as one tag
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Adds tags, skipping blanks and case-insensitive duplicates (the first spelling wins)
+ */
+export function addTags(existing: string[] = [], tags: string[]): string[] {
+  const result = [...existing];
+  const seen = new Set(existing.map(tag => tag.toLowerCase()));
+
+  for (const tag of tags.map(normalizeTag)) {
+    if (!tag || seen.has(tag.toLowerCase())) continue;
+    seen.add(tag.toLowerCase());
+    result.push(tag);
+  }
+
+  return result;
+}
+
+/**
+ * All tags used across applications with their usage count, most used first
+ */
+export function getAllTags(applications: JobApplication[]): Array<{ tag: string; count: number }> {
+  const counts = new Map<string, { tag: string; count: number }>();
+
+  for (const application of applications) {
+    for (const tag of application.tags || []) {
+      const key = tag.toLowerCase();
+      const entry = counts.get(key) || { tag, count: 0 };
+      entry.count++;
+      counts.set(key, entry);
+    }
+  }
+
+  return [...counts.values()].sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+export function hasAllTags(application: JobApplication, tags: string[]): boolean {
+  const applicationTags = new Set((application.tags || []).map(tag => tag.toLowerCase()));
+  return tags.every(tag => applicationTags.has(tag.toLowerCase()));
+}
+
+/**
+ * Converts raw input to the stored value for a field, or undefined when empty/invalid
+ */
+export function parseCustomFieldValue(
+  definition: CustomFieldDefinition,
+  input: string
+): CustomFieldValue | undefined {
+  const value = input.trim();
+  if (!value) return undefined;
+
+  switch (definition.type) {
+    case 'number': {
+      const number = parseFloat(value);
+      return isNaN(number) ? undefined : number;
+    }
+    case 'date':
+      return isNaN(new Date(value).getTime()) ? undefined : value;
+    case 'select':
+      return definition.options?.includes(value) ? value : undefined;
+    default:
+      return value;
+  }
+}
+
+export function formatCustomFieldValue(definition: CustomFieldDefinition, value?: CustomFieldValue): string {
+  if (value === undefined || value === '') return '';
+
+  switch (definition.type) {
+    case 'number':
+      return typeof value === 'number' ? value.toLocaleString() : String(value);
+    case 'date':
+      try {
+        return format(new Date(value), 'MMM dd, yyyy');
+      } catch {
+        return String(value);
+      }
+    default:
+      return String(value);
+  }
+}
+
+export function matchesCustomFieldFilters(
+  application: JobApplication,
+  definitions: CustomFieldDefinition[],
+  filters: CustomFieldFilters
+): boolean {
+  return definitions.every(definition => {
+    const filter = filters[definition.id]?.trim();
+    if (!filter) return true;
+
+    const value = application.customFields?.[definition.id];
+    if (value === undefined || value === '') return false;
+
+    switch (definition.type) {
+      case 'number':
+        return Number(value) >= parseFloat(filter);
+      case 'date':
+        return String(value) >= filter;
+      case 'select':
+        return value === filter;
+      default:
+        return String(value).toLowerCase().includes(filter.toLowerCase());
+    }
+  });
+}
+
+class CustomFieldRegistry {
+  private definitions: CustomFieldDefinition[] = [];
+  private listeners: Array<(definitions: CustomFieldDefinition[]) => void> = [];
+
+  constructor() {
+    this.loadDefinitions();
+  }
+
+  private loadDefinitions() {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        const parsed: CustomFieldDefinition[] = JSON.parse(stored);
+        if (Array.isArray(parsed)) {
+          this.definitions = this.normalizeOrder(parsed);
+        }
+      }
+    } catch (error) {
+      console.error('Error loading custom fields:', error);
+    }
+  }
+
+  private normalizeOrder(definitions: CustomFieldDefinition[]): CustomFieldDefinition[] {
+    return [...definitions]
+      .sort((a, b) => a.order - b.order)
+      .map((definition, index) => ({ ...definition, order: index }));
+  }
+
+  private persist() {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.definitions));
+    } catch (error) {
+      console.error('Error persisting custom fields:', error);
+    }
+    this.listeners.forEach(listener => listener(this.getDefinitions()));
+  }
+
+  /**
+   * Returns all field definitions in display order
+   */
+  getDefinitions(): CustomFieldDefinition[] {
+    return [...this.definitions];
+  }
+
+  getDefinition(id: string): CustomFieldDefinition | undefined {
+    return this.definitions.find(definition => definition.id === id);
+  }
+
+  addDefinition(label: string, type: CustomFieldType, options: string[] = []): CustomFieldDefinition {
+    const trimmed = label.trim();
+    if (!trimmed) {
+      throw new Error('Field name is required');
+    }
+    if (this.definitions.some(definition => definition.label.toLowerCase() === trimmed.toLowerCase())) {
+      throw new Error(`A field named "${trimmed}" already exists`);
+    }
+    if (type === 'select' && options.length === 0) {
+      throw new Error('Select fields need at least one option');
+    }
+
+    const definition: CustomFieldDefinition = {
+      id: this.createFieldId(trimmed),
+      label: trimmed,
+      type,
+      options: type === 'select' ? addTags([], options) : undefined,
+      showOnCard: true,
+      order: this.definitions.length,
+    };
+
+    this.definitions = [...this.definitions, definition];
+    this.persist();
+    return definition;
+  }
+
+  /**
+   * Updates a definition. The type can't change since stored values depend on it.
+   */
+  updateDefinition(id: string, updates: Partial<Omit<CustomFieldDefinition, 'id' | 'type'>>): void {
+    this.definitions = this.definitions.map(definition =>
+      definition.id === id ? { ...definition, ...updates } : definition
+    );
+    this.persist();
+  }
+
+  /**
+   * Removes a definition. Values stay on applications but are no longer shown.
+   */
+  removeDefinition(id: string): void {
+    this.definitions = this.normalizeOrder(this.definitions.filter(definition => definition.id !== id));
+    this.persist();
+  }
+
+  moveDefinition(id: string, direction: -1 | 1): void {
+    const index = this.definitions.findIndex(definition => definition.id === id);
+    const target = index + direction;
+    if (index < 0 || target < 0 || target >= this.definitions.length) return;
+
+    const reordered = [...this.definitions];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    this.definitions = reordered.map((definition, order) => ({ ...definition, order }));
+    this.persist();
+  }
+
+  /**
+   * Replaces all definitions, e.g. when restoring a backup
+   */
+  replaceDefinitions(definitions: CustomFieldDefinition[]): void {
+    this.definitions = this.normalizeOrder(definitions);
+    this.persist();
+  }
+
+  subscribe(listener: (definitions: CustomFieldDefinition[]) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  private createFieldId(label: string): string {
+    const base = label.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '_').replace(/^_|_$/g, '') || 'field';
+    const ids = new Set(this.definitions.map(definition => definition.id));
+    let id = base;
+    let suffix = 2;
+    while (ids.has(id)) {
+      id = `${base}_${suffix++}`;
+    }
+    return id;
+  }
+}
+
+export const customFieldRegistry = new CustomFieldRegistry();
@@ -0,0 +1,251 @@
+import { DocumentKind, DocumentVersion, JobApplication, StageCategory } from './types';
+import { pipeline, INTERVIEW_CATEGORIES, OFFER_CATEGORIES } from './pipeline';
+import { promisifyRequest } from './storage/database';
+
+const DB_NAME = 'job-tracker-documents';
+const DB_VERSION = 1;
+const STORE_NAME = 'documents';
+
+// Stored record - metadata plus the file contents
+interface DocumentRecord extends DocumentVersion {
+  file: Blob;
+}
+
+export interface DocumentVersionStats {
+  document: DocumentVersion;
+  sent: number; // applications the version was linked to
+  responses: number; // applications the company answered, rejections included
+  interviews: number; // applications that reached an interview or offer stage
+  responseRate: number;
+  interviewRate: number;
+}
+
+export const documentKindLabels: Record<DocumentKind, string> = {
+  resume: 'Resume',
+  'cover-letter': 'Cover Letter',
+  'offer-letter': 'Offer Letter',
+  'calendar-invite': 'Calendar Invite',
+};
+
+// Categories that don't count as hearing back from the company
+const NO_RESPONSE_CATEGORIES: StageCategory[] = ['saved', 'applied', 'ghosted', 'withdrawn'];
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function generateDocumentId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).substr(2);
+}
+
+/**
+ * Stage categories an application has been in, from its history and current status
+ */
+function getVisitedCategories(application: JobApplication): Set<StageCategory> {
+  const statuses = [application.status, ...(application.statusHistory || []).map(entry => entry.status)];
+  return new Set(
+    statuses
+      .map(status => pipeline.getStage(status)?.category)
+      .filter((category): category is StageCategory => !!category)
+  );
+}
+
+class DocumentLibrary {
+  private documents: DocumentVersion[] = [];
+  private listeners: Array<(documents: DocumentVersion[]) => void> = [];
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor() {
+    this.loadDocuments();
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available in this browser'));
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.openDatabase();
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  /**
+   * Loads the metadata of all documents into memory so components can read it synchronously
+   */
+  private async loadDocuments() {
+    try {
+      const store = await this.getStore('readonly');
+      const records = await promisifyRequest<DocumentRecord[]>(store.getAll());
+      this.documents = records.map(({ file: _file, ...metadata }) => metadata);
+      this.notifyListeners();
+    } catch (error) {
+      console.error('Error loading documents:', error);
+    }
+  }
+
+  /**
+   * Returns all document versions, grouped by kind and name with the newest version first
+   */
+  getDocuments(): DocumentVersion[] {
+    return [...this.documents].sort((a, b) =>
+      a.kind.localeCompare(b.kind) || a.name.localeCompare(b.name) || b.version - a.version
+    );
+  }
+
+  getDocument(id: string): DocumentVersion | undefined {
+    return this.documents.find(document => document.id === id);
+  }
+
+  getDocumentsByIds(ids: string[] = []): DocumentVersion[] {
+    return ids
+      .map(id => this.getDocument(id))
+      .filter((document): document is DocumentVersion => !!document);
+  }
+
+  /**
+   * Names of existing documents of a kind, for adding new versions to them
+   */
+  getDocumentNames(kind: DocumentKind): string[] {
+    return [...new Set(this.documents.filter(document => document.kind === kind).map(document => document.name))].sort();
+  }
+
+  /**
+   * Stores a file as the next version of the named document
+   */
+  async addVersion(file: File, kind: DocumentKind, name: string, notes?: string): Promise<DocumentVersion> {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Document name is required');
+    }
+
+    const previousVersions = this.documents.filter(document =>
+      document.kind === kind && document.name.toLowerCase() === trimmed.toLowerCase()
+    );
+    const metadata: DocumentVersion = {
+      id: generateDocumentId(),
+      kind,
+      // Keep the spelling of the existing document
+      name: previousVersions[0]?.name || trimmed,
+      version: Math.max(0, ...previousVersions.map(document => document.version)) + 1,
+      fileName: file.name,
+      mimeType: file.type || 'application/octet-stream',
+      size: file.size,
+      notes: notes?.trim() || undefined,
+      createdAt: new Date().toISOString(),
+    };
+
+    const store = await this.getStore('readwrite');
+    await promisifyRequest(store.put({ ...metadata, file } satisfies DocumentRecord));
+
+    this.documents = [...this.documents, metadata];
+    this.notifyListeners();
+    return metadata;
+  }
+
+  async getFile(id: string): Promise<Blob | undefined> {
+    const store = await this.getStore('readonly');
+    const record = await promisifyRequest<DocumentRecord | undefined>(store.get(id));
+    return record?.file;
+  }
+
+  /**
+   * Saves a stored document to the user's downloads
+   */
+  async download(id: string): Promise<void> {
+    const document = this.getDocument(id);
+    const file = await this.getFile(id);
+    if (!document || !file) {
+      throw new Error('Document not found');
+    }
+
+    const url = URL.createObjectURL(file);
+    try {
+      const link = window.document.createElement('a');
+      link.href = url;
+      link.download = document.fileName;
+      link.click();
+    } finally {
+      // Give the browser a moment to start the download before revoking
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    }
+  }
+
+  /**
+   * Deletes a version. Applications keep the id, which no longer resolves to a document.
+   */
+  async deleteVersion(id: string): Promise<void> {
+    const store = await this.getStore('readwrite');
+    await promisifyRequest(store.delete(id));
+
+    this.documents = this.documents.filter(document => document.id !== id);
+    this.notifyListeners();
+  }
+
+  /**
+   * Response and interview rates for every resume version, based on the applications it was sent with
+   */
+  getResumeStats(applications: JobApplication[]): DocumentVersionStats[] {
+    return this.getDocuments()
+      .filter(document => document.kind === 'resume')
+      .map(document => {
+        const sentWith = applications.filter(application => application.documentIds?.includes(document.id));
+        let responses = 0;
+        let interviews = 0;
+
+        for (const application of sentWith) {
+          const categories = [...getVisitedCategories(application)];
+          if (categories.some(category => !NO_RESPONSE_CATEGORIES.includes(category))) {
+            responses++;
+          }
+          if (categories.some(category => INTERVIEW_CATEGORIES.includes(category) || OFFER_CATEGORIES.includes(category))) {
+            interviews++;
+          }
+        }
+
+        return {
+          document,
+          sent: sentWith.length,
+          responses,
+          interviews,
+          responseRate: sentWith.length ? responses / sentWith.length : 0,
+          interviewRate: sentWith.length ? interviews / sentWith.length : 0,
+        };
+      });
+  }
+
+  subscribe(listener: (documents: DocumentVersion[]) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  private notifyListeners() {
+    const documents = this.getDocuments();
+    this.listeners.forEach(listener => listener(documents));
+  }
+}
+
+export const documentLibrary = new DocumentLibrary();
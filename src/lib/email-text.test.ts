@@ -0,0 +1,97 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { htmlToText, splitEmailText, splitHtmlEmail } from './email-text';
+import { parseMimeMessage } from './mime';
+import htmlReplySource from './__fixtures__/mime/html-hebrew-reply.eml?raw';
+
+describe('htmlToText', () => {
+  it('keeps link targets, list items and table cells', () => {
+    const html = [
+      '<p>See <a href="https://acme.example/jobs/42">the role</a> or mail <a href="mailto:jobs@acme.example">us</a>.</p>',
+      '<ol><li>Screening</li><li>Onsite<ul><li>System design</li></ul></li></ol>',
+      '<table><tr><th>Date</th><th>Time</th></tr><tr><td>May 14</td><td>14:00</td></tr></table>',
+    ].join('');
+
+    expect(htmlToText(html)).toBe([
+      'See the role (https://acme.example/jobs/42) or mail us (jobs@acme.example).',
+      '',
+      '1. Screening',
+      '2. Onsite',
+      '  - System design',
+      '',
+      'Date | Time',
+      'May 14 | 14:00',
+    ].join('\n'));
+  });
+
+  it('leaves out scripts, styles and hidden elements', () => {
+    const html = '<style>p { color: red }</style><p>Hello</p><div style="display: none">preheader</div><script>x()</script>';
+    expect(htmlToText(html)).toBe('Hello');
+  });
+});
+
+describe('splitHtmlEmail', () => {
+  it('splits an Outlook reply at the reply header marker', () => {
+    const html = [
+      '<div>Thanks, Tuesday works.</div>',
+      '<div id="Signature">Dana Cohen</div>',
+      '<div id="divRplyFwdMsg"><b>From:</b> Yossi<br><b>Sent:</b> Monday</div>',
+      '<div>Can you do Tuesday?</div>',
+    ].join('');
+
+    expect(splitHtmlEmail(html)).toEqual({
+      body: 'Thanks, Tuesday works.',
+      quoted: 'From: Yossi\nSent: Monday\n\nCan you do Tuesday?',
+      signature: 'Dana Cohen',
+    });
+  });
+
+  it('moves the Gmail quote and signature out of the body', () => {
+    const html = [
+      '<div dir="rtl">תודה רבה!<div><br></div>-- <br><div class="gmail_signature">דנה כהן</div></div>',
+      '<div class="gmail_quote"><div class="gmail_attr">בתאריך יום ב׳ מאת יוסי:</div>',
+      '<blockquote class="gmail_quote"><div dir="rtl">נשמח לראות אותך</div></blockquote></div>',
+    ].join('');
+
+    expect(splitHtmlEmail(html)).toEqual({
+      body: 'תודה רבה!',
+      quoted: 'בתאריך יום ב׳ מאת יוסי:\n\nנשמח לראות אותך',
+      signature: 'דנה כהן\n\n--',
+    });
+  });
+
+  it('keeps a forwarded message as the body', () => {
+    const html = '<div>FYI</div><div class="gmail_quote">---------- Forwarded message ---------<br>Interview invite</div>';
+    expect(splitHtmlEmail(html).body).toBe('FYI\n\n---------- Forwarded message ---------\nInterview invite');
+  });
+});
+
+describe('splitEmailText', () => {
+  it('finds a Hebrew Gmail attribution wrapped onto two lines', () => {
+    const text = 'מעולה, נתראה.\n\nבתאריך יום ב׳, 13 במאי 2024 ב-10:02\nמאת Dana <dana@example.com>:\n> שלום';
+    expect(splitEmailText(text)).toEqual({
+      body: 'מעולה, נתראה.',
+      quoted: 'בתאריך יום ב׳, 13 במאי 2024 ב-10:02\nמאת Dana <dana@example.com>:\n> שלום',
+      signature: '',
+    });
+  });
+});
+
+describe('parseMimeMessage with an HTML body', () => {
+  it('keeps only the new message of a Hebrew Gmail reply', () => {
+    expect(parseMimeMessage(htmlReplySource)).toEqual({
+      subject: 'Re: ראיון',
+      from: 'יוסי לוי <yossi@acme.example>',
+      text: [
+        'שלום דנה,',
+        '',
+        'נשמח לקבוע את השלבים הבאים:',
+        '',
+        '- ראיון טכני ביום שלישי ב-14:00',
+        '- שיחה עם HR',
+        '',
+        'פרטי המשרה (https://acme.example/jobs/42) מצורפים.',
+      ].join('\n'),
+    });
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * Converts email HTML to text that keeps link targets, lists and tables, and splits an email
+ * into the new message, the quoted history and the signature
+ */
+
+export interface EmailSegments {
+  body: string; // the new message
+  quoted: string; // earlier messages quoted in a reply
+  signature: string; // signature, "Sent from my phone" lines and legal disclaimers
+}
+
+const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'HEAD', 'TITLE', 'META', 'NOSCRIPT', 'TEMPLATE', 'IMG']);
+// Separated from their surroundings by a blank line
+const PARAGRAPH_TAGS = new Set(['P', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'BLOCKQUOTE']);
+// Start on a line of their own
+const BLOCK_TAGS = new Set([
+  'ADDRESS', 'ARTICLE', 'ASIDE', 'CENTER', 'DD', 'DIV', 'DL', 'DT', 'FIELDSET', 'FIGURE',
+  'FOOTER', 'FORM', 'HEADER', 'MAIN', 'NAV', 'SECTION', 'TR',
+]);
+
+// Elements mail clients wrap quoted replies in
+const QUOTE_SELECTORS = [
+  '.gmail_quote',
+  'blockquote[type="cite"]',
+  '.yahoo_quoted',
+  '#mail-editor-reference-message-container',
+];
+// Outlook marks where the quoted message starts; everything after it is history
+const QUOTE_START_SELECTORS = ['#divRplyFwdMsg', '#appendonsend'];
+const SIGNATURE_SELECTORS = [
+  '.gmail_signature',
+  '[data-smartmail="gmail_signature"]',
+  '#Signature',
+  '.moz-signature',
+];
+
+// Forwarded messages are the content, not history
+const FORWARD_MARKER = /^\s*(?:-{5,}\s*Forwarded message|Begin forwarded message|-{5,}\s*הודעה שהועברה)/i;
+const QUOTE_HEADER_PATTERNS = [
+  /^On\s.{0,300}\swrote:$/i, // Gmail and Apple Mail, possibly wrapped onto two lines
+  /^בתאריך .{0,300}(?:מאת|כתב|כתבה) .*:$/, // Gmail in Hebrew
+  /^-{2,}\s*(?:Original Message|הודעה מקורית)\s*-{2,}$/i,
+  /^_{10,}$/, // Outlook's rule above the reply header
+];
+const REPLY_HEADER_FROM = /^(?:From|מאת):/i;
+const REPLY_HEADER_DATE = /^(?:Sent|Date|נשלח|תאריך):/i;
+const SIGNATURE_PATTERNS = [
+  /^--\s?$/, // the standard "-- " delimiter
+  /^Sent from my\s/i,
+  /^Get Outlook for\s/i,
+  /^נשלח מה-?\S+/,
+  /^(?:confidentiality notice|disclaimer)\b/i,
+  /^this (?:e-?mail|message)(?: and any (?:files|attachments)[^.]*)? (?:is|are|may contain|contains) (?:confidential|privileged|intended)/i,
+  /^(?:הודעה|מידע|דואר) זה.{0,80}(?:חסוי|סודי)/,
+  /please consider the environment before printing/i,
+];
+
+// Direction marks Hebrew mail clients put around names and dates
+const BIDI_MARKS = /[\u200e\u200f\u202a-\u202e]/g;
+
+function isHidden(element: Element): boolean {
+  return /display\s*:\s*none/i.test(element.getAttribute('style') || '') || element.hasAttribute('hidden');
+}
+
+/**
+ * Tidies rendered text: single spaces, no blank runs longer than one line. Indentation of
+ * nested lists is written as non-breaking spaces so it survives this; see finish.
+ */
+function normalize(text: string): string {
+  return text
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').replace(/^ | $/g, ''))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .replace(/^\n+|\n+$/g, '');
+}
+
+function finish(text: string): string {
+  return normalize(text).replace(/\u00a0/g, ' ');
+}
+
+function renderChildren(node: Node, depth: number): string {
+  return Array.from(node.childNodes).map(child => renderNode(child, depth)).join('');
+}
+
+function renderLink(link: Element, depth: number): string {
+  const content = renderChildren(link, depth);
+  const text = content.trim();
+  const href = (link.getAttribute('href') || '').trim();
+  if (!href || /^(?:javascript:|#|cid:)/i.test(href)) return content;
+
+  // Image-only links are logos and tracking pixels
+  if (!text) return '';
+
+  const target = href.replace(/^mailto:/i, '').split('?')[0];
+  const labelled = text === href || text === target ? text : `${text} (${href.startsWith('mailto:') ? target : href})`;
+  // Keep the spacing the link had in the sentence
+  return `${/^\s/.test(content) ? ' ' : ''}${labelled}${/\s$/.test(content) ? ' ' : ''}`;
+}
+
+function renderList(list: Element, depth: number): string {
+  const ordered = list.tagName.toUpperCase() === 'OL';
+  const start = Number(list.getAttribute('start')) || 1;
+  const indent = '\u00a0\u00a0'.repeat(depth);
+
+  const items = Array.from(list.children)
+    .filter(child => child.tagName.toUpperCase() === 'LI')
+    .map((item, index) => {
+      // Nested lists stay inside the item, one line per entry
+      const content = normalize(renderChildren(item, depth + 1)).replace(/\n+/g, '\n');
+      return `${indent}${ordered ? `${start + index}.` : '-'} ${content}`;
+    });
+
+  return `\n${items.join('\n')}\n`;
+}
+
+function renderTable(table: Element, depth: number): string {
+  const rows = Array.from(table.querySelectorAll('tr')).filter(row => row.closest('table') === table);
+
+  const lines = rows.map(row => {
+    const cells = Array.from(row.children)
+      .filter(cell => /^T[DH]$/i.test(cell.tagName))
+      .map(cell => normalize(renderChildren(cell, depth)))
+      .filter(Boolean);
+    // Layout tables hold whole blocks in a cell; data tables hold a value per cell
+    return cells.some(cell => cell.includes('\n')) ? cells.join('\n\n') : cells.join(' | ');
+  });
+
+  return `\n\n${lines.filter(Boolean).join('\n')}\n\n`;
+}
+
+function renderNode(node: Node, depth: number): string {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return (node.textContent || '').replace(/\s+/g, ' ');
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const element = node as Element;
+  const tag = element.tagName.toUpperCase();
+  if (SKIPPED_TAGS.has(tag) || isHidden(element)) return '';
+
+  switch (tag) {
+    case 'BR':
+      return '\n';
+    case 'HR':
+      return '\n---\n';
+    case 'A':
+      return renderLink(element, depth);
+    case 'PRE':
+      return `\n\n${element.textContent || ''}\n\n`;
+    case 'UL':
+    case 'OL':
+      return renderList(element, depth);
+    case 'TABLE':
+      return renderTable(element, depth);
+  }
+
+  const content = renderChildren(element, depth);
+  if (PARAGRAPH_TAGS.has(tag)) return `\n\n${content}\n\n`;
+  if (BLOCK_TAGS.has(tag)) return `\n${content}\n`;
+  return content;
+}
+
+/**
+ * Email HTML as text. Links keep their target as "label (url)", list items start with
+ * "-" or their number and table cells are separated by " | ".
+ */
+export function htmlToText(html: string): string {
+  const document = new DOMParser().parseFromString(html, 'text/html');
+  return finish(renderNode(document.body, 0));
+}
+
+function joinSegments(...parts: string[]): string {
+  return parts.map(part => part.trim()).filter(Boolean).join('\n\n');
+}
+
+/**
+ * Combines the segments of several body parts of one email
+ */
+export function mergeSegments(segments: EmailSegments[]): EmailSegments {
+  return {
+    body: joinSegments(...segments.map(segment => segment.body)),
+    quoted: joinSegments(...segments.map(segment => segment.quoted)),
+    signature: joinSegments(...segments.map(segment => segment.signature)),
+  };
+}
+
+/**
+ * Splits plain text at the first quoted reply ("> ...", "On ... wrote:", Outlook's
+ * "From:/Sent:" header) and the signature before it
+ */
+export function splitEmailText(text: string): EmailSegments {
+  const lines = text.split(/\r?\n/);
+  const plain = lines.map(line => line.replace(BIDI_MARKS, '').trim());
+
+  let quoteStart = lines.length;
+  for (let i = 0; i < plain.length; i++) {
+    const line = plain[i];
+    // Everything after a forward marker is the forwarded message itself
+    if (FORWARD_MARKER.test(line)) break;
+
+    const isReplyHeader = REPLY_HEADER_FROM.test(line) &&
+      plain.slice(i + 1, i + 4).some(next => REPLY_HEADER_DATE.test(next));
+    const attribution = QUOTE_HEADER_PATTERNS.some(pattern =>
+      pattern.test(line) || (i + 1 < plain.length && pattern.test(`${line} ${plain[i + 1]}`))
+    );
+    if (line.startsWith('>') || isReplyHeader || attribution) {
+      quoteStart = i;
+      break;
+    }
+  }
+
+  let signatureStart = quoteStart;
+  for (let i = 0; i < quoteStart; i++) {
+    if (SIGNATURE_PATTERNS.some(pattern => pattern.test(plain[i]))) {
+      signatureStart = i;
+      break;
+    }
+  }
+
+  return {
+    // Without the rule some clients draw above the quote
+    body: lines.slice(0, signatureStart).join('\n').replace(/\n[-_]{3,}\s*$/, '').trim(),
+    signature: lines.slice(signatureStart, quoteStart).join('\n').trim(),
+    quoted: lines.slice(quoteStart).join('\n').trim(),
+  };
+}
+
+/**
+ * Removes the elements and renders them as one text, in document order
+ */
+function extractElements(elements: Element[]): string {
+  const texts = elements.map(element => finish(renderNode(element, 0)));
+  elements.forEach(element => element.remove());
+  return joinSegments(...texts);
+}
+
+/**
+ * Outermost matches of the selectors, skipping forwarded messages
+ */
+function findOutermost(root: Element, selectors: string[]): Element[] {
+  const found: Element[] = [];
+  for (const element of Array.from(root.querySelectorAll(selectors.join(',')))) {
+    if (found.some(outer => outer.contains(element))) continue;
+    if (FORWARD_MARKER.test(element.textContent || '')) continue;
+    found.push(element);
+  }
+  return found;
+}
+
+/**
+ * Splits an HTML email using the markup mail clients put around quotes and signatures,
+ * then the plain-text markers for clients that don't
+ */
+export function splitHtmlEmail(html: string): EmailSegments {
+  const document = new DOMParser().parseFromString(html, 'text/html');
+  const body = document.body;
+
+  const quotes = findOutermost(body, QUOTE_SELECTORS);
+  const quoteStart = findOutermost(body, QUOTE_START_SELECTORS)[0];
+  if (quoteStart) {
+    // The marker and whatever follows it, at every level up to the body
+    for (let node: Element | null = quoteStart; node && node !== body; node = node.parentElement) {
+      if (node === quoteStart) quotes.push(node);
+      for (let sibling = node.nextElementSibling; sibling; sibling = sibling.nextElementSibling) {
+        quotes.push(sibling);
+      }
+    }
+  }
+  const quoted = extractElements(quotes.filter(element => !quotes.some(outer => outer !== element && outer.contains(element))));
+  const signature = extractElements(findOutermost(body, SIGNATURE_SELECTORS));
+
+  const text = splitEmailText(finish(renderNode(body, 0)));
+  return {
+    body: text.body,
+    quoted: joinSegments(text.quoted, quoted),
+    signature: joinSegments(signature, text.signature),
+  };
+}
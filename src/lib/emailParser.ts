@@ -1,5 +1,6 @@
 import { ParsedEmailData, ApplicationStatus } from './types';
 import { aiStatusDetector, StatusAnalysis } from './ai-status-detector';
+import { pipeline } from './pipeline';
 
 export interface EnhancedParsedEmailData extends ParsedEmailData {
   detectedStatus?: ApplicationStatus;
@@ -148,7 +149,7 @@ export async function parseEmailWithStatusDetection(
     // Fallback to basic parsing without status detection
     return {
       ...basicParsedData,
-      detectedStatus: currentStatus || 'applied'
+      detectedStatus: currentStatus || pipeline.getDefaultStageId()
     };
   }
 }
@@ -0,0 +1,169 @@
+import { JobApplication } from './types';
+import { updateApplication } from './applications';
+import { pipeline } from './pipeline';
+
+const SETTINGS_KEY = 'ghost_detection_settings';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface GhostDetectionSettings {
+  enabled: boolean;
+  autoMarkGhosted: boolean; // move stale applications to the ghosted stage automatically
+}
+
+export interface StaleApplication {
+  application: JobApplication;
+  lastActivity: string;
+  daysInactive: number;
+  thresholdDays: number;
+}
+
+const DEFAULT_SETTINGS: GhostDetectionSettings = {
+  enabled: true,
+  autoMarkGhosted: false,
+};
+
+class GhostDetector {
+  private settings: GhostDetectionSettings = DEFAULT_SETTINGS;
+  private listeners: Array<(settings: GhostDetectionSettings) => void> = [];
+
+  constructor() {
+    this.loadSettings();
+  }
+
+  private loadSettings() {
+    try {
+      const stored = localStorage.getItem(SETTINGS_KEY);
+      if (stored) {
+        this.settings = { ...DEFAULT_SETTINGS, ...JSON.parse(stored) };
+      }
+    } catch (error) {
+      console.error('Error loading ghost detection settings:', error);
+    }
+  }
+
+  getSettings(): GhostDetectionSettings {
+    return { ...this.settings };
+  }
+
+  updateSettings(updates: Partial<GhostDetectionSettings>): void {
+    this.settings = { ...this.settings, ...updates };
+    try {
+      localStorage.setItem(SETTINGS_KEY, JSON.stringify(this.settings));
+    } catch (error) {
+      console.error('Error persisting ghost detection settings:', error);
+    }
+    this.listeners.forEach(listener => listener(this.getSettings()));
+  }
+
+  subscribe(listener: (settings: GhostDetectionSettings) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Latest known activity on an application. Falls back to status history and
+   * applied date for applications saved before activity tracking existed.
+   */
+  getLastActivity(application: JobApplication): string {
+    const candidates = [
+      application.lastActivityAt,
+      application.appliedDate,
+      ...(application.statusHistory || [])
+        .filter(entry => entry.source !== 'inactivity')
+        .map(entry => entry.date),
+    ].filter((date): date is string => !!date && !isNaN(new Date(date).getTime()));
+
+    if (candidates.length === 0) {
+      return application.createdAt;
+    }
+
+    return candidates.reduce((latest, date) =>
+      new Date(date).getTime() > new Date(latest).getTime() ? date : latest
+    );
+  }
+
+  /**
+   * Returns applications in non-terminal stages that passed their stage's inactivity threshold
+   */
+  findStaleApplications(applications: JobApplication[], now: Date = new Date()): StaleApplication[] {
+    if (!this.settings.enabled) return [];
+
+    const stale: StaleApplication[] = [];
+
+    for (const application of applications) {
+      const stage = pipeline.getStage(application.status);
+      if (!stage || stage.terminal || !stage.staleAfterDays || stage.staleAfterDays <= 0) {
+        continue;
+      }
+
+      const lastActivity = this.getLastActivity(application);
+      const daysInactive = Math.floor((now.getTime() - new Date(lastActivity).getTime()) / DAY_MS);
+
+      if (daysInactive >= stage.staleAfterDays) {
+        stale.push({
+          application,
+          lastActivity,
+          daysInactive,
+          thresholdDays: stage.staleAfterDays,
+        });
+      }
+    }
+
+    return stale.sort((a, b) => b.daysInactive - a.daysInactive);
+  }
+
+  /**
+   * True when the pipeline has a stage stale applications can be moved into
+   */
+  canMarkGhosted(): boolean {
+    return pipeline.getStagesInCategories(['ghosted']).length > 0;
+  }
+
+  /**
+   * Moves the given applications to the ghosted stage. Returns the new list and the
+   * previous versions of the changed applications so the change can be undone.
+   */
+  markGhosted(
+    applications: JobApplication[],
+    ids: string[]
+  ): { applications: JobApplication[]; previous: JobApplication[] } {
+    if (!this.canMarkGhosted()) {
+      return { applications, previous: [] };
+    }
+
+    const idSet = new Set(ids);
+    const previous: JobApplication[] = [];
+
+    const updated = applications.map(application => {
+      if (!idSet.has(application.id)) return application;
+
+      const ghostedStatus = pipeline.resolveStageForCategory('ghosted', application.status);
+      if (ghostedStatus === application.status) return application;
+
+      previous.push(application);
+      return updateApplication(application, { status: ghostedStatus }, 'inactivity');
+    });
+
+    return { applications: updated, previous };
+  }
+
+  /**
+   * Marks applications whose move by markGhosted was undone as active. The undo counts as
+   * a manual touch so the same applications aren't flagged again right away.
+   */
+  undoMarkGhosted(applications: JobApplication[], restoredIds: string[]): JobApplication[] {
+    const restored = new Set(restoredIds);
+    const now = new Date().toISOString();
+
+    return applications.map(application =>
+      restored.has(application.id) ? { ...application, lastActivityAt: now, updatedAt: now } : application
+    );
+  }
+}
+
+export const ghostDetector = new GhostDetector();
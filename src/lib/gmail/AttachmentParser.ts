@@ -0,0 +1,249 @@
+import { DEFAULT_TIMEZONE, isValidTimeZone, zonedTimeToUtc, utcToZonedTime } from '../timezone';
+import { decodeText } from '../mime';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+// Attachments kept with the application in the document library
+export type StoredAttachmentKind = 'offer-letter' | 'calendar-invite';
+
+export interface CalendarInvite {
+  summary: string;
+  start?: string; // ISO instant
+  end?: string;
+  timeZone?: string; // IANA zone of the event, missing for UTC and floating times
+  location?: string;
+  description?: string;
+  organizer?: string;
+  url?: string;
+}
+
+export interface EmailAttachment {
+  messageId: string;
+  attachmentId?: string; // missing when Gmail included the data in the message
+  data?: string; // base64url contents of attachments included in the message
+  fileName: string;
+  mimeType: string;
+  size: number;
+  text: string; // extracted text, empty for types we can't read
+  kind?: StoredAttachmentKind;
+  invite?: CalendarInvite;
+}
+
+// Outlook writes Windows zone names into TZID
+const WINDOWS_TIME_ZONES: Record<string, string> = {
+  'israel standard time': 'Asia/Jerusalem',
+  'jerusalem standard time': 'Asia/Jerusalem',
+  'gmt standard time': 'Europe/London',
+  'w. europe standard time': 'Europe/Berlin',
+  'central europe standard time': 'Europe/Budapest',
+  'romance standard time': 'Europe/Paris',
+  'eastern standard time': 'America/New_York',
+  'central standard time': 'America/Chicago',
+  'mountain standard time': 'America/Denver',
+  'pacific standard time': 'America/Los_Angeles',
+  'india standard time': 'Asia/Kolkata',
+  'utc': 'UTC',
+};
+
+const OFFER_FILE_NAME = /offer|הצעת[ _-]?עבודה|חוזה[ _-]?העסקה/i;
+const OFFER_TEXT = /offer letter|pleased to offer|offer of employment|employment agreement|הצעת עבודה|חוזה העסקה/i;
+const DOCUMENT_FILE = /\.(pdf|docx?|odt|rtf|txt)$/i;
+
+function isCalendar(fileName: string, mimeType: string): boolean {
+  return mimeType === 'text/calendar' || mimeType === 'application/ics' || /\.ics$/i.test(fileName);
+}
+
+function isPdf(fileName: string, mimeType: string): boolean {
+  return mimeType === 'application/pdf' || /\.pdf$/i.test(fileName);
+}
+
+/**
+ * Whether we can extract text from the attachment: plain text, HTML, calendar invites and PDFs
+ */
+export function isReadableAttachment(fileName: string, mimeType: string): boolean {
+  return mimeType.startsWith('text/') || /\.(txt|csv|html?)$/i.test(fileName) ||
+    isCalendar(fileName, mimeType) || isPdf(fileName, mimeType);
+}
+
+/**
+ * Whether the attachment is worth storing with the application
+ */
+export function classifyAttachment(fileName: string, mimeType: string, text: string): StoredAttachmentKind | undefined {
+  if (isCalendar(fileName, mimeType)) return 'calendar-invite';
+  if ((DOCUMENT_FILE.test(fileName) || isPdf(fileName, mimeType)) &&
+      (OFFER_FILE_NAME.test(fileName) || OFFER_TEXT.test(text))) {
+    return 'offer-letter';
+  }
+  return undefined;
+}
+
+function resolveTimeZone(tzid: string | undefined): string | undefined {
+  if (!tzid) return undefined;
+  const name = tzid.replace(/^"|"$/g, '').replace(/^\//, '');
+  if (isValidTimeZone(name)) return name;
+  return WINDOWS_TIME_ZONES[name.toLowerCase()];
+}
+
+/**
+ * Reads DTSTART/DTEND values: "20240115T140000Z" (UTC), "20240115T140000" (local to TZID)
+ * or "20240115" (all day)
+ */
+function parseIcsDate(value: string, timeZone: string): string | undefined {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return undefined;
+
+  const [, year, month, day, hour = '00', minute = '00', , utc] = match;
+  if (utc) {
+    return new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute)).toISOString();
+  }
+  return zonedTimeToUtc(`${year}-${month}-${day}`, `${hour}:${minute}`, timeZone);
+}
+
+function unescapeIcsText(value: string): string {
+  return value.replace(/\\([nN,;\\])/g, (_, char: string) => char.toLowerCase() === 'n' ? '\n' : char).trim();
+}
+
+/**
+ * Reads the first event of an iCalendar file
+ */
+export function parseCalendarInvite(ics: string): CalendarInvite | null {
+  // Long lines are folded onto continuation lines that start with a space or tab
+  const unfolded = ics.replace(/\r?\n[ \t]/g, '');
+  const event = unfolded.match(/BEGIN:VEVENT([\s\S]*?)END:VEVENT/)?.[1];
+  if (!event) return null;
+
+  // Reminders have their own DESCRIPTION
+  const lines = event.replace(/BEGIN:VALARM[\s\S]*?END:VALARM/g, '').split(/\r?\n/);
+  const properties = new Map<string, { params: string; value: string }>();
+  for (const line of lines) {
+    const match = line.match(/^([A-Za-z-]+)((?:;[^:;"]+=(?:"[^"]*"|[^:;]*))*):(.*)$/);
+    if (match && !properties.has(match[1].toUpperCase())) {
+      properties.set(match[1].toUpperCase(), { params: match[2], value: match[3] });
+    }
+  }
+
+  const text = (name: string) => {
+    const value = properties.get(name)?.value;
+    return value ? unescapeIcsText(value) || undefined : undefined;
+  };
+  const param = (name: string, key: string) =>
+    properties.get(name)?.params.match(new RegExp(`;${key}=("[^"]*"|[^;]*)`, 'i'))?.[1].replace(/^"|"$/g, '');
+
+  const start = properties.get('DTSTART');
+  const timeZone = resolveTimeZone(param('DTSTART', 'TZID'));
+  const zone = timeZone || DEFAULT_TIMEZONE;
+  const end = properties.get('DTEND');
+
+  const organizer = properties.get('ORGANIZER');
+  const organizerEmail = organizer?.value.replace(/^mailto:/i, '');
+
+  return {
+    summary: text('SUMMARY') || '',
+    start: start ? parseIcsDate(start.value.trim(), zone) : undefined,
+    end: end ? parseIcsDate(end.value.trim(), resolveTimeZone(param('DTEND', 'TZID')) || zone) : undefined,
+    timeZone: start?.value.trim().endsWith('Z') ? undefined : timeZone,
+    location: text('LOCATION'),
+    description: text('DESCRIPTION'),
+    organizer: param('ORGANIZER', 'CN') || organizerEmail || undefined,
+    url: text('URL'),
+  };
+}
+
+/**
+ * The invite as lines of text for the classifiers, with times in the event's time zone
+ */
+export function formatCalendarInvite(invite: CalendarInvite): string {
+  const zone = invite.timeZone || DEFAULT_TIMEZONE;
+  const local = (iso: string) => {
+    const { date, time } = utcToZonedTime(iso, zone);
+    return `${date} ${time}`;
+  };
+  const when = invite.start
+    ? `${local(invite.start)}${invite.end ? ` - ${utcToZonedTime(invite.end, zone).time}` : ''} (${zone})`
+    : '';
+
+  return [
+    `Calendar invite: ${invite.summary}`,
+    when && `When: ${when}`,
+    invite.location && `Where: ${invite.location}`,
+    invite.organizer && `Organizer: ${invite.organizer}`,
+    invite.url && `Link: ${invite.url}`,
+    invite.description,
+  ].filter(Boolean).join('\n');
+}
+
+// Text layers of PDFs without a Unicode map come out as glyph ids: control characters
+// other than tab and line breaks, the private use area and the U+FFFD replacement character
+const UNMAPPED_GLYPH_RANGES = ['\\u0000-\\u0008', '\\u000e-\\u001f', '\\ue000-\\uf8ff', '\\ufffd'];
+const UNMAPPED_GLYPHS = new RegExp(`[${UNMAPPED_GLYPH_RANGES.join('')}]`, 'g');
+
+/**
+ * Whether text extracted from a PDF is mostly unmapped glyphs rather than readable text
+ */
+function isGlyphGarbage(text: string): boolean {
+  const visible = text.replace(/\s/g, '');
+  return visible.length > 0 && (visible.match(UNMAPPED_GLYPHS) || []).length / visible.length > 0.2;
+}
+
+/**
+ * Text of a PDF, one line per line of text. PDF.js maps CID fonts (Word exports, Hebrew
+ * documents) through their ToUnicode tables; pages whose fonts have no usable map come back
+ * empty rather than as glyph ids, as do encrypted and damaged files.
+ */
+export async function extractPdfText(bytes: Uint8Array): Promise<string> {
+  // Loaded on first use; PDF.js is larger than the rest of the app
+  const { getDocument, GlobalWorkerOptions } = await import('pdfjs-dist');
+  GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+  try {
+    // PDF.js takes ownership of the buffer it is given
+    const pdf = await getDocument({ data: bytes.slice(), isEvalSupported: false }).promise;
+    try {
+      const pages: string[] = [];
+      for (let number = 1; number <= pdf.numPages; number++) {
+        const content = await (await pdf.getPage(number)).getTextContent();
+        const text = content.items
+          .map(item => 'str' in item ? `${item.str}${item.hasEOL ? '\n' : ''}` : '')
+          .join('');
+        if (!isGlyphGarbage(text)) pages.push(text);
+      }
+
+      return pages
+        .join('\n')
+        .split('\n')
+        .map(line => line.replace(/\s+/g, ' ').trim())
+        .filter(Boolean)
+        .join('\n');
+    } finally {
+      await pdf.destroy();
+    }
+  } catch (error) {
+    console.warn('Could not read PDF text:', error);
+    return '';
+  }
+}
+
+export function isHtmlAttachment(fileName: string, mimeType: string): boolean {
+  return mimeType === 'text/html' || /\.html?$/i.test(fileName);
+}
+
+/**
+ * Extracts the text of a readable attachment, see isReadableAttachment. Calendar invites are
+ * also returned parsed; HTML is returned as markup.
+ */
+export async function readAttachmentText(
+  bytes: Uint8Array,
+  fileName: string,
+  mimeType: string,
+  charset?: string
+): Promise<{ text: string; invite?: CalendarInvite }> {
+  if (isCalendar(fileName, mimeType)) {
+    const invite = parseCalendarInvite(decodeText(bytes, charset));
+    return invite ? { text: formatCalendarInvite(invite), invite } : { text: '' };
+  }
+
+  if (isPdf(fileName, mimeType)) {
+    return { text: await extractPdfText(bytes) };
+  }
+
+  return { text: decodeText(bytes, charset).trim() };
+}
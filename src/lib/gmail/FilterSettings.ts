@@ -0,0 +1,147 @@
+import gmailFilters from '../../config/gmail-filters.json';
+import syncSettings from '../../config/sync-settings.json';
+
+const SETTINGS_KEY = 'gmail_filter_settings';
+
+export interface ConfidenceThresholds {
+  autoProcess: number; // at or above: the application is added without review
+  reviewQueue: number; // at or above: queued for review; below: discarded
+}
+
+export interface GmailFilterSettings {
+  includeKeywords: string[];
+  excludeKeywords: string[];
+  excludeJobBoards: string[]; // sender domains left out of the search
+  optionalLabels: string[]; // Gmail labels that match on their own
+  contextExclusions: string[]; // phrases that lower the confidence of an email
+  confidenceThresholds: ConfidenceThresholds;
+  lookbackDays: number;
+  maxEmailsPerSync: number;
+}
+
+export type EmailOutcome = 'auto-add' | 'review' | 'discard';
+
+// A filter test also reports emails a sync treats differently from their score
+export type PreviewOutcome = EmailOutcome | 'needs-ai' | 'thread';
+
+export const previewOutcomeLabels: Record<PreviewOutcome, string> = {
+  'auto-add': 'Auto-added',
+  review: 'Review queue',
+  'needs-ai': 'Needs AI',
+  thread: 'Linked thread',
+  discard: 'Discarded',
+};
+
+const DEFAULT_SETTINGS: GmailFilterSettings = {
+  includeKeywords: gmailFilters.includeKeywords,
+  excludeKeywords: gmailFilters.excludeKeywords,
+  excludeJobBoards: gmailFilters.excludeJobBoards,
+  optionalLabels: gmailFilters.optionalLabels,
+  contextExclusions: gmailFilters.contextExclusions,
+  confidenceThresholds: {
+    autoProcess: gmailFilters.confidenceThresholds.autoProcess,
+    reviewQueue: gmailFilters.confidenceThresholds.reviewQueue,
+  },
+  lookbackDays: syncSettings.processing.lookbackDays,
+  maxEmailsPerSync: syncSettings.processing.maxEmailsPerSync,
+};
+
+/**
+ * What a sync does with an email of the given confidence
+ */
+export function getEmailOutcome(confidence: number, thresholds: ConfidenceThresholds): EmailOutcome {
+  if (confidence >= thresholds.autoProcess) return 'auto-add';
+  if (confidence >= thresholds.reviewQueue) return 'review';
+  return 'discard';
+}
+
+/**
+ * Throws when the settings can't be used for a sync
+ */
+export function validateFilterSettings(settings: GmailFilterSettings): void {
+  const { autoProcess, reviewQueue } = settings.confidenceThresholds;
+  if ([autoProcess, reviewQueue].some(value => !(value >= 0 && value <= 1))) {
+    throw new Error('Confidence thresholds must be between 0% and 100%');
+  }
+  if (reviewQueue > autoProcess) {
+    throw new Error('The review threshold cannot be above the auto-add threshold');
+  }
+  if (settings.includeKeywords.length === 0 && settings.optionalLabels.length === 0) {
+    throw new Error('Add at least one keyword or label to search for');
+  }
+  if (!(settings.lookbackDays >= 1) || !(settings.maxEmailsPerSync >= 1)) {
+    throw new Error('Lookback days and emails per sync must be at least 1');
+  }
+}
+
+/**
+ * Gmail search and classification settings. Defaults come from gmail-filters.json and
+ * sync-settings.json; only the values changed in the app are stored, so edits to the
+ * config files still reach the rest.
+ */
+class FilterSettingsManager {
+  private overrides: Partial<GmailFilterSettings> = {};
+  private listeners: Array<(settings: GmailFilterSettings) => void> = [];
+
+  constructor() {
+    this.loadSettings();
+  }
+
+  private loadSettings() {
+    try {
+      const stored = localStorage.getItem(SETTINGS_KEY);
+      if (stored) {
+        this.overrides = JSON.parse(stored);
+      }
+    } catch (error) {
+      console.error('Error loading Gmail filter settings:', error);
+    }
+  }
+
+  getSettings(): GmailFilterSettings {
+    const settings = { ...DEFAULT_SETTINGS, ...this.overrides };
+    return { ...settings, confidenceThresholds: { ...settings.confidenceThresholds } };
+  }
+
+  getDefaults(): GmailFilterSettings {
+    return { ...DEFAULT_SETTINGS, confidenceThresholds: { ...DEFAULT_SETTINGS.confidenceThresholds } };
+  }
+
+  /**
+   * Stores the settings that differ from the defaults
+   */
+  updateSettings(updates: Partial<GmailFilterSettings>): void {
+    const settings = { ...this.getSettings(), ...updates };
+    validateFilterSettings(settings);
+
+    this.overrides = Object.fromEntries(
+      Object.entries(settings).filter(([key, value]) =>
+        JSON.stringify(value) !== JSON.stringify(DEFAULT_SETTINGS[key as keyof GmailFilterSettings])
+      )
+    );
+    try {
+      localStorage.setItem(SETTINGS_KEY, JSON.stringify(this.overrides));
+    } catch (error) {
+      console.error('Error persisting Gmail filter settings:', error);
+    }
+    this.listeners.forEach(listener => listener(this.getSettings()));
+  }
+
+  resetToDefaults(): void {
+    localStorage.removeItem(SETTINGS_KEY);
+    this.overrides = {};
+    this.listeners.forEach(listener => listener(this.getSettings()));
+  }
+
+  subscribe(listener: (settings: GmailFilterSettings) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+}
+
+export const filterSettings = new FilterSettingsManager();
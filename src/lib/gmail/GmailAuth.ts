@@ -23,10 +23,17 @@ declare global {
         setToken: (token: { access_token: string }) => void;
         gmail: {
           users: {
+            getProfile: (params: any) => Promise<any>;
+            history: {
+              list: (params: any) => Promise<any>;
+            };
             messages: {
               list: (params: any) => Promise<any>;
               get: (params: any) => Promise<any>;
               modify: (params: any) => Promise<any>;
+              attachments: {
+                get: (params: any) => Promise<any>;
+              };
             };
             threads: {
               get: (params: any) => Promise<any>;
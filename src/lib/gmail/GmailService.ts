@@ -2,6 +2,23 @@ import { gmailAuth } from './GmailAuth';
 import gmailFilters from '../../config/gmail-filters.json';
 import syncSettings from '../../config/sync-settings.json';
 import { googleAI } from '../googleAI';
+import { GmailFilterSettings, filterSettings } from './FilterSettings';
+import {
+  JobBoardEmail,
+  JOB_BOARD_CONFIDENCE,
+  getJobBoard,
+  isJobBoardApplicationSender,
+  parseJobBoardEmail
+} from './JobBoardParser';
+import { decodeBase64Url, decodeGmailBody, decodeHeader, getCharset } from '../mime';
+import { EmailSegments, htmlToText, splitEmailText, splitHtmlEmail, mergeSegments } from '../email-text';
+import {
+  EmailAttachment,
+  isReadableAttachment,
+  isHtmlAttachment,
+  readAttachmentText,
+  classifyAttachment
+} from './AttachmentParser';
 
 // Note: Window.gapi types are defined in GmailAuth.ts
 
@@ -15,6 +32,8 @@ export interface GmailMessage {
 }
 
 export interface MessagePart {
+  partId?: string;
+  filename?: string; // empty for body parts
   headers?: Array<{ name: string; value: string }>;
   body?: {
     data?: string;
@@ -27,6 +46,7 @@ export interface MessagePart {
 
 export interface ProcessedEmail {
   id: string;
+  threadId?: string; // missing on emails processed before threads were tracked
   subject: string;
   from: string;
   to: string;
@@ -45,6 +65,44 @@ export interface ProcessedEmail {
     recruiter?: string;
     interviewer?: string;
   };
+  jobBoard?: JobBoardEmail; // set for LinkedIn/Indeed application confirmations and status updates
+  attachments?: EmailAttachment[]; // their text is also appended to `content`
+  quotedText?: string; // earlier messages quoted in a reply, left out of `content`
+  signature?: string; // sender signature and disclaimers, left out of `content`
+}
+
+interface EmailContent {
+  subject: string;
+  from: string;
+  to: string;
+  content: string;
+  quotedText?: string;
+  signature?: string;
+}
+
+export interface GmailHistoryCheckpoint {
+  emailAddress: string;
+  historyId: string;
+  failedMessages?: Record<string, number>; // ids of messages to fetch again, by the syncs they failed in
+}
+
+export interface FetchedMessages {
+  messages: GmailMessage[];
+  errors: string[]; // messages that still failed after retrying; the rest are returned
+  failedIds: string[]; // the messages in `errors`, except those Gmail no longer has
+}
+
+// Emails scoring below this get a second opinion from Google AI when it is configured
+export const AI_ANALYSIS_THRESHOLD = 0.3;
+
+export interface ProcessEmailOptions {
+  settings?: GmailFilterSettings; // scores with these instead of the saved filter settings
+  useAI?: boolean; // AI analysis of low-confidence emails; on unless set to false
+}
+
+export interface FetchEmailsResult extends FetchedMessages {
+  checkpoint: GmailHistoryCheckpoint; // store and pass to the next fetchEmailsSince call
+  incremental: boolean;
 }
 
 class GmailService {
@@ -63,49 +121,260 @@ class GmailService {
     return window.gapi.client.gmail;
   }
 
-  async fetchRecentEmails(maxResults: number = 50): Promise<GmailMessage[]> {
+  async fetchRecentEmails(
+    maxResults: number = 50,
+    settings: GmailFilterSettings = filterSettings.getSettings()
+  ): Promise<FetchedMessages> {
     try {
-      const gmail = this.getGmailClient();
-      
       // Build search query based on filters
-      const query = this.buildSearchQuery();
+      const query = this.buildSearchQuery(settings);
       
       console.log('Gmail search query:', query);
 
-      // Get message list
-      const response = await gmail.users.messages.list({
+      const messageIds = await this.listMessageIds(query, maxResults);
+      const { messages, errors, failedIds } = await this.fetchMessages(messageIds);
+
+      // Filter to latest email in each thread if configured
+      return { messages: this.selectThreadMessages(messages), errors, failedIds };
+    } catch (error) {
+      console.error('Error fetching emails:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetches matching emails added to the mailbox since `checkpoint`, along with the messages
+   * that failed in earlier syncs. Runs the full lookback query instead when there is no
+   * checkpoint, it belongs to another account or Gmail no longer keeps history that far back.
+   */
+  async fetchEmailsSince(
+    checkpoint: GmailHistoryCheckpoint | undefined,
+    maxResults: number = 50
+  ): Promise<FetchEmailsResult> {
+    const gmail = this.getGmailClient();
+
+    // Read the current history id first so mail arriving during the sync is picked up next time
+    const profile = (await this.withRetry(() => gmail.users.getProfile({ userId: 'me' }))).result;
+    const current: GmailHistoryCheckpoint = { emailAddress: profile.emailAddress, historyId: profile.historyId };
+    const sameAccount = checkpoint?.emailAddress === current.emailAddress;
+    const retryIds = sameAccount ? Object.keys(checkpoint?.failedMessages || {}) : [];
+
+    if (checkpoint && sameAccount) {
+      try {
+        const addedIds = await this.listAddedMessageIds(checkpoint.historyId);
+        console.log(`Gmail history: ${addedIds.size} message(s) added since ${checkpoint.historyId}`);
+
+        const ids = [...new Set([...addedIds, ...retryIds])];
+        if (ids.length === 0) {
+          return { messages: [], errors: [], failedIds: [], checkpoint: current, incremental: true };
+        }
+
+        // History lists every new message whatever its date, so the filters are applied here
+        // rather than by a capped search that would miss some of them
+        const { messages, errors, failedIds } = await this.fetchMessages(ids);
+        const matches = await this.getFilterMatcher();
+
+        return {
+          messages: this.selectThreadMessages(messages.filter(matches)),
+          errors,
+          failedIds,
+          checkpoint: current,
+          incremental: true,
+        };
+      } catch (error) {
+        if (!this.isHistoryExpired(error)) {
+          throw error;
+        }
+        console.log('Gmail history id expired - falling back to a full sync');
+      }
+    }
+
+    const found = await this.fetchMessages(await this.listMessageIds(this.buildSearchQuery(), maxResults));
+    const foundIds = new Set([...found.messages.map(message => message.id), ...found.failedIds]);
+    const retried = await this.fetchMessages(retryIds.filter(id => !foundIds.has(id)));
+    const matches = retried.messages.length > 0 ? await this.getFilterMatcher() : () => true;
+
+    return {
+      messages: this.selectThreadMessages([...found.messages, ...retried.messages.filter(matches)]),
+      errors: [...found.errors, ...retried.errors],
+      failedIds: [...found.failedIds, ...retried.failedIds],
+      checkpoint: current,
+      incremental: false,
+    };
+  }
+
+  /**
+   * Applies the `processThreadsOnly` setting
+   */
+  private selectThreadMessages(messages: GmailMessage[]): GmailMessage[] {
+    return syncSettings.processing.processThreadsOnly === 'latest'
+      ? this.getLatestEmailsFromThreads(messages)
+      : messages;
+  }
+
+  /**
+   * Whether a fetched message matches the search built by buildSearchQuery, apart from its
+   * date. Used for messages found through history instead of the search.
+   */
+  private async getFilterMatcher(
+    settings: GmailFilterSettings = filterSettings.getSettings()
+  ): Promise<(message: GmailMessage) => boolean> {
+    const gmail = this.getGmailClient();
+    // Gmail searches label names in lower case with spaces and slashes as dashes
+    const searchName = (name: string) => name.toLowerCase().replace(/[\s/]+/g, '-');
+    const wantedLabels = new Set(settings.optionalLabels.map(searchName));
+
+    const labelIds = new Set<string>();
+    if (wantedLabels.size > 0) {
+      const response = await this.withRetry(() => gmail.users.labels.list({ userId: 'me' }));
+      (response.result.labels || [])
+        .filter((label: any) => wantedLabels.has(searchName(label.name)))
+        .forEach((label: any) => labelIds.add(label.id));
+    }
+
+    const includeKeywords = settings.includeKeywords.map(keyword => keyword.toLowerCase());
+    const excludeKeywords = settings.excludeKeywords.map(keyword => keyword.toLowerCase());
+
+    return (message: GmailMessage) => {
+      // Like the search, leave out drafts and what is in spam or the trash
+      if (message.labelIds?.some(id => id === 'DRAFT' || id === 'SPAM' || id === 'TRASH')) return false;
+
+      const { subject, from, content, quotedText, signature } = this.readEmail(message);
+      const text = [subject, content, quotedText, signature].join('\n').toLowerCase();
+      if (excludeKeywords.some(keyword => text.includes(keyword))) return false;
+      if (isJobBoardApplicationSender(from)) return true;
+
+      const sender = from.toLowerCase();
+      if (settings.excludeJobBoards.some(domain => sender.includes(domain.toLowerCase()))) return false;
+
+      return message.labelIds?.some(id => labelIds.has(id)) ||
+        includeKeywords.some(keyword => text.includes(keyword));
+    };
+  }
+
+  /**
+   * Ids of messages added since `startHistoryId`, across all history pages
+   */
+  private async listAddedMessageIds(startHistoryId: string): Promise<Set<string>> {
+    const gmail = this.getGmailClient();
+    const ids = new Set<string>();
+    let pageToken: string | undefined;
+
+    do {
+      const response = await this.withRetry(() => gmail.users.history.list({
         userId: 'me',
-        q: query,
-        maxResults,
+        startHistoryId,
+        historyTypes: ['messageAdded'],
+        pageToken,
+      }));
+
+      (response.result.history || []).forEach((record: any) => {
+        (record.messagesAdded || []).forEach((added: any) => ids.add(added.message.id));
       });
+      pageToken = response.result.nextPageToken;
+    } while (pageToken);
 
-      if (!response.result.messages) {
-        return [];
+    return ids;
+  }
+
+  /**
+   * Gmail answers 404 when the start history id is older than the history it keeps (about a week)
+   */
+  private isHistoryExpired(error: any): boolean {
+    return this.getErrorStatus(error) === 404;
+  }
+
+  private getErrorStatus(error: any): number | undefined {
+    return error?.status ?? error?.result?.error?.code;
+  }
+
+  /**
+   * Runs a Gmail API request, retrying rate limits (429) and server errors (5xx) with
+   * exponential backoff and jitter
+   */
+  private async withRetry<T>(request: () => Promise<T>): Promise<T> {
+    const { maxRetries, retryBaseDelayMs } = syncSettings.gmail;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await request();
+      } catch (error) {
+        const status = this.getErrorStatus(error);
+        const retryable = status === 429 || (status !== undefined && status >= 500 && status < 600);
+        if (!retryable || attempt >= maxRetries) {
+          throw error;
+        }
+
+        const delay = retryBaseDelayMs * 2 ** attempt + Math.random() * retryBaseDelayMs;
+        console.warn(`Gmail API returned ${status}, retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${maxRetries})`);
+        await new Promise(resolve => setTimeout(resolve, delay));
       }
+    }
+  }
+
+  /**
+   * Pages through search results until `maxResults` ids are collected or there are no more
+   */
+  private async listMessageIds(query: string, maxResults: number): Promise<string[]> {
+    const gmail = this.getGmailClient();
+    const ids: string[] = [];
+    let pageToken: string | undefined;
 
-      // Fetch full message details
-      const messages = await Promise.all(
-        response.result.messages.map(async (msg: any) => {
-          const messageResponse = await gmail.users.messages.get({
+    do {
+      const response = await this.withRetry(() => gmail.users.messages.list({
+        userId: 'me',
+        q: query,
+        maxResults: Math.min(syncSettings.gmail.pageSize, maxResults - ids.length),
+        pageToken,
+      }));
+
+      ids.push(...(response.result.messages || []).map((msg: any) => msg.id));
+      pageToken = response.result.nextPageToken;
+    } while (pageToken && ids.length < maxResults);
+
+    return ids;
+  }
+
+  /**
+   * Fetches full messages with at most `gmail.batchSize` requests in flight. A message that
+   * keeps failing is reported in `errors` instead of failing the others.
+   */
+  private async fetchMessages(ids: string[]): Promise<FetchedMessages> {
+    const gmail = this.getGmailClient();
+    const messages: GmailMessage[] = [];
+    const errors: string[] = [];
+    const failedIds: string[] = [];
+    let next = 0;
+
+    const worker = async () => {
+      while (next < ids.length) {
+        const id = ids[next++];
+        try {
+          const messageResponse = await this.withRetry(() => gmail.users.messages.get({
             userId: 'me',
-            id: msg.id,
+            id,
             format: 'full'
-          });
-          
-          return messageResponse.result as GmailMessage;
-        })
-      );
-
-      // Filter to latest email in each thread if configured
-      if (syncSettings.processing.processThreadsOnly === 'latest') {
-        return this.getLatestEmailsFromThreads(messages);
+          }));
+          messages.push(messageResponse.result as GmailMessage);
+        } catch (error: any) {
+          console.error(`Error fetching email ${id}:`, error);
+          errors.push(`Failed to fetch email ${id}: ${error?.result?.error?.message || error?.message || 'Unknown error'}`);
+          // A deleted message answers 404 and isn't worth fetching again
+          if (this.getErrorStatus(error) !== 404) {
+            failedIds.push(id);
+          }
+        }
       }
+    };
 
-      return messages;
-    } catch (error) {
-      console.error('Error fetching emails:', error);
-      throw error;
-    }
+    const concurrency = Math.max(1, Math.min(syncSettings.gmail.batchSize, ids.length));
+    await Promise.all(Array.from({ length: concurrency }, worker));
+
+    // Workers finish out of order; keep Gmail's newest-first order
+    const order = new Map(ids.map((id, index) => [id, index]));
+    messages.sort((a, b) => order.get(a.id)! - order.get(b.id)!);
+
+    return { messages, errors, failedIds };
   }
 
   /**
@@ -116,11 +385,11 @@ class GmailService {
       const gmail = this.getGmailClient();
       
       // Get thread details
-      const threadResponse = await gmail.users.threads.get({
+      const threadResponse = await this.withRetry(() => gmail.users.threads.get({
         userId: 'me',
         id: threadId,
         format: 'full'
-      });
+      }));
 
       if (!threadResponse.result.messages) {
         return [];
@@ -139,11 +408,10 @@ class GmailService {
   async fetchRelatedApplicationEmails(
     company: string, 
     position: string, 
-    maxLookbackDays: number = 90
+    maxLookbackDays: number = 90,
+    maxResults: number = 20 // Reasonable limit for related emails
   ): Promise<GmailMessage[]> {
     try {
-      const gmail = this.getGmailClient();
-      
       // Build search query for related emails
       const lookbackDate = new Date();
       lookbackDate.setDate(lookbackDate.getDate() - maxLookbackDays);
@@ -164,30 +432,12 @@ class GmailService {
       
       console.log('Searching for related application emails:', query);
 
-      // Get message list
-      const response = await gmail.users.messages.list({
-        userId: 'me',
-        q: query,
-        maxResults: 20 // Reasonable limit for related emails
-      });
-
-      if (!response.result.messages) {
-        return [];
+      const messageIds = await this.listMessageIds(query, maxResults);
+      const { messages, errors } = await this.fetchMessages(messageIds);
+      if (errors.length > 0) {
+        console.warn(`Skipped ${errors.length} related email(s) that could not be fetched`);
       }
 
-      // Fetch full message details
-      const messages = await Promise.all(
-        response.result.messages.map(async (msg: any) => {
-          const messageResponse = await gmail.users.messages.get({
-            userId: 'me',
-            id: msg.id,
-            format: 'full'
-          });
-          
-          return messageResponse.result as GmailMessage;
-        })
-      );
-
       console.log(`Found ${messages.length} related emails for ${company} - ${position}`);
       return messages;
       
@@ -197,43 +447,52 @@ class GmailService {
     }
   }
 
-  private buildSearchQuery(): string {
+  /**
+   * The Gmail search for job-related mail; pass draft settings to preview an edit
+   */
+  buildSearchQuery(settings: GmailFilterSettings = filterSettings.getSettings()): string {
     const parts: string[] = [];
     
     // Date filter - look back specified days
     const lookbackDate = new Date();
-    lookbackDate.setDate(lookbackDate.getDate() - syncSettings.processing.lookbackDays);
+    lookbackDate.setDate(lookbackDate.getDate() - settings.lookbackDays);
     parts.push(`after:${lookbackDate.toISOString().split('T')[0]}`);
 
     // Build OR condition for labels and keywords
     const orConditions: string[] = [];
     
     // Optional label filter (sufficient condition)
-    if (gmailFilters.optionalLabels && gmailFilters.optionalLabels.length > 0) {
-      const labelQueries = gmailFilters.optionalLabels.map(label => `label:${label}`);
+    if (settings.optionalLabels && settings.optionalLabels.length > 0) {
+      const labelQueries = settings.optionalLabels.map(label => `label:${label}`);
       orConditions.push(...labelQueries);
     }
 
     // Keyword filter (alternative condition)
-    if (gmailFilters.includeKeywords && gmailFilters.includeKeywords.length > 0) {
-      const keywordQueries = gmailFilters.includeKeywords.map(keyword => `"${keyword}"`);
+    if (settings.includeKeywords && settings.includeKeywords.length > 0) {
+      const keywordQueries = settings.includeKeywords.map(keyword => `"${keyword}"`);
       orConditions.push(...keywordQueries);
     }
 
-    // Add OR conditions as a single group
-    if (orConditions.length > 0) {
-      parts.push(`(${orConditions.join(' OR ')})`);
-    }
-
     // Exclude job boards
-    if (gmailFilters.excludeJobBoards && gmailFilters.excludeJobBoards.length > 0) {
-      const excludeQueries = gmailFilters.excludeJobBoards.map(domain => `-from:${domain}`);
-      parts.push(...excludeQueries);
+    const excludeQueries = (settings.excludeJobBoards || []).map(domain => `-from:${domain}`);
+    const matches = orConditions.length > 0
+      ? [`(${orConditions.join(' OR ')})`, ...excludeQueries].join(' ')
+      : '';
+
+    // Application confirmations from job boards rarely contain the keywords above, and come
+    // from boards excluded for their other mail, so their senders are let through on their own
+    const jobBoardSenders = Object.values(gmailFilters.jobBoardSenders).flat();
+    const alternatives = [
+      ...(matches ? [excludeQueries.length > 0 ? `(${matches})` : matches] : []),
+      ...jobBoardSenders.map(sender => `from:${sender}`),
+    ];
+    if (alternatives.length > 0) {
+      parts.push(`(${alternatives.join(' OR ')})`);
     }
 
     // Exclude training/webinar keywords
-    if (gmailFilters.excludeKeywords && gmailFilters.excludeKeywords.length > 0) {
-      const excludeQueries = gmailFilters.excludeKeywords.map(keyword => `-"${keyword}"`);
+    if (settings.excludeKeywords && settings.excludeKeywords.length > 0) {
+      const excludeQueries = settings.excludeKeywords.map(keyword => `-"${keyword}"`);
       parts.push(...excludeQueries);
     }
 
@@ -255,19 +514,52 @@ class GmailService {
     return Array.from(threadMap.values());
   }
 
-  async processEmail(message: GmailMessage): Promise<ProcessedEmail> {
+  async processEmail(message: GmailMessage, options: ProcessEmailOptions = {}): Promise<ProcessedEmail> {
+    const { settings = filterSettings.getSettings(), useAI = true } = options;
+
     try {
-      // Extract email content
-      const emailData = this.extractEmailContent(message);
+      // Extract email content, including the text of attachments
+      const { attachments, ...emailData } = await this.decodeMessage(message);
+      const date = new Date(parseInt(message.internalDate)).toISOString();
+
+      // Job boards get a dedicated parser; anything else they send is networking noise
+      if (getJobBoard(emailData.from)) {
+        const jobBoard = parseJobBoardEmail(emailData);
+        return {
+          id: message.id,
+          threadId: message.threadId,
+          subject: emailData.subject,
+          from: emailData.from,
+          to: emailData.to,
+          date,
+          content: emailData.content,
+          confidence: jobBoard ? JOB_BOARD_CONFIDENCE : 0,
+          extractedData: jobBoard ? {
+            company: jobBoard.company,
+            position: jobBoard.position,
+            jobUrl: jobBoard.jobUrl,
+            location: jobBoard.location,
+            appliedDate: jobBoard.kind === 'applied' ? date.split('T')[0] : undefined,
+          } : {},
+          jobBoard: jobBoard || undefined,
+          attachments,
+          quotedText: emailData.quotedText,
+          signature: emailData.signature,
+        };
+      }
       
-      // Use AI to extract job application data
-      const extractedData = await this.extractJobData(emailData.content, emailData.subject, emailData.from);
+      // Use AI to extract job application data; signatures often name the company
+      const extractedData = await this.extractJobData(
+        emailData.signature ? `${emailData.content}\n\n${emailData.signature}` : emailData.content,
+        emailData.subject,
+        emailData.from
+      );
       
       // Calculate confidence score
-      let confidence = this.calculateConfidence(extractedData, emailData.content);
+      let confidence = this.calculateConfidence(extractedData, emailData.content, settings);
       
       // If confidence is low (< 30%), use Google AI for additional analysis
-      if (confidence < 0.3 && googleAI.isConfigured()) {
+      if (confidence < AI_ANALYSIS_THRESHOLD && useAI && googleAI.isConfigured()) {
         console.log(`Low confidence (${Math.round(confidence * 100)}%) - Running AI analysis...`);
         
         try {
@@ -299,13 +591,17 @@ class GmailService {
 
       return {
         id: message.id,
+        threadId: message.threadId,
         subject: emailData.subject,
         from: emailData.from,
         to: emailData.to,
-        date: new Date(parseInt(message.internalDate)).toISOString(),
+        date,
         content: emailData.content,
         confidence,
-        extractedData
+        extractedData,
+        attachments,
+        quotedText: emailData.quotedText,
+        signature: emailData.signature
       };
     } catch (error) {
       console.error('Error processing email:', error);
@@ -313,18 +609,154 @@ class GmailService {
     }
   }
 
-  private extractEmailContent(message: GmailMessage): {
-    subject: string;
-    from: string;
-    to: string;
-    content: string;
-  } {
-    const headers = message.payload.headers || [];
-    
-    const getHeader = (name: string) => {
-      const header = headers.find(h => h.name?.toLowerCase() === name.toLowerCase());
-      return header?.value || '';
+  /**
+   * Whether processEmail would have run AI analysis on an email processed with `useAI: false`
+   */
+  needsAIAnalysis(email: ProcessedEmail): boolean {
+    return !getJobBoard(email.from) && email.confidence < AI_ANALYSIS_THRESHOLD && googleAI.isConfigured();
+  }
+
+  /**
+   * Decodes an email without classifying it, for messages whose application is already known
+   */
+  readEmail(message: GmailMessage): ProcessedEmail {
+    const emailData = this.extractEmailContent(message);
+    return {
+      id: message.id,
+      threadId: message.threadId,
+      subject: emailData.subject,
+      from: emailData.from,
+      to: emailData.to,
+      date: new Date(parseInt(message.internalDate)).toISOString(),
+      content: emailData.content,
+      quotedText: emailData.quotedText,
+      signature: emailData.signature,
+      confidence: 1,
+      extractedData: {},
     };
+  }
+
+  /**
+   * Like readEmail, with attachments and large bodies fetched from Gmail
+   */
+  async readEmailWithAttachments(message: GmailMessage): Promise<ProcessedEmail> {
+    const { attachments, content, quotedText, signature } = await this.decodeMessage(message);
+    return { ...this.readEmail(message), content, attachments, quotedText, signature };
+  }
+
+  /**
+   * The message content with the text of its attachments appended
+   */
+  private async decodeMessage(message: GmailMessage): Promise<EmailContent & { attachments: EmailAttachment[] }> {
+    const { bodySegments, attachments } = await this.loadAttachments(message);
+    const emailData = this.extractEmailContent(message, bodySegments);
+
+    const content = [
+      emailData.content,
+      ...attachments
+        .filter(attachment => attachment.text)
+        .map(attachment => `--- Attachment: ${attachment.fileName} ---\n${attachment.text}`),
+    ].filter(Boolean).join('\n\n');
+
+    return { ...emailData, content, attachments };
+  }
+
+  /**
+   * Fetches the parts Gmail leaves out of the message: attachments, and text bodies too large
+   * to include. Text is extracted from readable attachments up to `processing.maxAttachmentBytes`;
+   * an attachment that fails to load is kept without text.
+   */
+  private async loadAttachments(message: GmailMessage): Promise<{ bodySegments: EmailSegments[]; attachments: EmailAttachment[] }> {
+    const bodySegments: EmailSegments[] = [];
+    const attachments: EmailAttachment[] = [];
+
+    const visit = async (part: MessagePart) => {
+      for (const child of part.parts || []) {
+        await visit(child);
+      }
+
+      const fileName = part.filename || '';
+      const mimeType = (part.mimeType || '').toLowerCase();
+      const isBody = !fileName && mimeType.startsWith('text/');
+      if (isBody ? !part.body?.attachmentId : !fileName || mimeType.startsWith('image/')) {
+        return; // inline bodies are read by extractEmailContent; unnamed images are signatures
+      }
+
+      const attachment: EmailAttachment = {
+        messageId: message.id,
+        attachmentId: part.body?.attachmentId,
+        data: part.body?.attachmentId ? undefined : part.body?.data,
+        fileName,
+        mimeType,
+        size: part.body?.size || 0,
+        text: '',
+      };
+
+      if ((isBody || isReadableAttachment(fileName, mimeType)) && attachment.size <= syncSettings.processing.maxAttachmentBytes) {
+        try {
+          const bytes = attachment.data
+            ? decodeBase64Url(attachment.data)
+            : await this.fetchAttachmentData(message.id, attachment.attachmentId!);
+          const { text, invite } = await readAttachmentText(bytes, fileName, mimeType, getCharset(this.getPartHeader(part, 'Content-Type')));
+          const isHtml = isHtmlAttachment(fileName, mimeType);
+          if (isBody) {
+            bodySegments.push(isHtml ? splitHtmlEmail(text) : splitEmailText(text));
+            return;
+          }
+          attachment.text = isHtml ? htmlToText(text) : text;
+          attachment.invite = invite;
+        } catch (error) {
+          console.error(`Error reading attachment ${fileName || part.partId} of email ${message.id}:`, error);
+        }
+      }
+
+      if (isBody) return;
+
+      attachment.kind = classifyAttachment(fileName, mimeType, attachment.text);
+      attachments.push(attachment);
+    };
+
+    await visit(message.payload);
+    return { bodySegments, attachments };
+  }
+
+  private async fetchAttachmentData(messageId: string, attachmentId: string): Promise<Uint8Array> {
+    const gmail = this.getGmailClient();
+    const response = await this.withRetry(() => gmail.users.messages.attachments.get({
+      userId: 'me',
+      messageId,
+      id: attachmentId
+    }));
+    return decodeBase64Url(response.result.data || '');
+  }
+
+  /**
+   * The attachment as a file, for storing it in the document library
+   */
+  async downloadAttachment(attachment: EmailAttachment): Promise<File> {
+    let bytes: Uint8Array;
+    if (attachment.data) {
+      bytes = decodeBase64Url(attachment.data);
+    } else if (attachment.attachmentId) {
+      bytes = await this.fetchAttachmentData(attachment.messageId, attachment.attachmentId);
+    } else {
+      throw new Error(`Attachment ${attachment.fileName} has no data`);
+    }
+    return new File([bytes], attachment.fileName, { type: attachment.mimeType });
+  }
+
+  private getPartHeader(part: MessagePart, name: string): string {
+    const header = part.headers?.find(h => h.name?.toLowerCase() === name.toLowerCase());
+    return decodeHeader(header?.value || '');
+  }
+
+  /**
+   * Headers and text of the message. `content` is the new message only; quoted replies and
+   * the signature are returned separately. `fetchedBodies` are bodies Gmail left out of the
+   * message, see loadAttachments.
+   */
+  private extractEmailContent(message: GmailMessage, fetchedBodies: EmailSegments[] = []): EmailContent {
+    const getHeader = (name: string) => this.getPartHeader(message.payload, name);
 
     const subject = getHeader('Subject');
     const from = getHeader('From');
@@ -342,53 +774,60 @@ class GmailService {
     });
     
     // Extract email body
-    let content = '';
-    
-    const extractText = (part: MessagePart): string => {
+    const extractText = (part: MessagePart): EmailSegments | null => {
       console.log('Processing part:', { mimeType: part.mimeType, hasData: !!part.body?.data, hasAttachmentId: !!part.body?.attachmentId, hasParts: !!part.parts });
+
+      // Attachments are read by loadAttachments, even text ones
+      if (part.filename) {
+        return null;
+      }
       
       // Handle text/plain content
       if (part.mimeType === 'text/plain' && part.body?.data) {
         try {
-          const decoded = decodeURIComponent(escape(atob(part.body.data)));
+          const decoded = decodeGmailBody(part.body.data, this.getPartHeader(part, 'Content-Type'));
           console.log('Decoded plain text length:', decoded.length);
-          return decoded;
+          return splitEmailText(decoded);
         } catch (error) {
           console.warn('Failed to decode plain text content:', error);
-          return '';
+          return null;
         }
       }
       
       // Handle text/html content
       if (part.mimeType === 'text/html' && part.body?.data) {
         try {
-          const htmlContent = decodeURIComponent(escape(atob(part.body.data)));
+          const htmlContent = decodeGmailBody(part.body.data, this.getPartHeader(part, 'Content-Type'));
           console.log('Decoded HTML content length:', htmlContent.length);
-          // Simple HTML to text conversion (in production, use a proper library)
-          return htmlContent.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+          return splitHtmlEmail(htmlContent);
         } catch (error) {
           console.warn('Failed to decode HTML content:', error);
-          return '';
+          return null;
         }
       }
       
       // Handle multipart content
       if (part.parts && part.parts.length > 0) {
-        const texts = part.parts.map(extractText).filter(text => text.length > 0);
+        const texts = part.parts.map(extractText).filter((text): text is EmailSegments => !!text);
         console.log('Found', texts.length, 'text parts from', part.parts.length, 'total parts');
-        return texts.join('\n\n');
-      }
-      
-      // Handle cases where body data might be in an attachment
-      if (part.body?.attachmentId && part.mimeType?.startsWith('text/')) {
-        console.warn('Text content appears to be an attachment, may need separate API call');
-        return '';
+        // Alternatives are the same message; the last one is the richest, usually HTML
+        if (part.mimeType === 'multipart/alternative') {
+          return texts[texts.length - 1] || null;
+        }
+        return mergeSegments(texts);
       }
-      
-      return '';
+
+      // Bodies Gmail didn't include (body.attachmentId) are fetched by loadAttachments
+      return null;
     };
     
-    content = extractText(message.payload);
+    const segments = mergeSegments([extractText(message.payload), ...fetchedBodies].filter((text): text is EmailSegments => !!text));
+
+    // A forward's "quote" is the message being forwarded, and a reply may be nothing but quotes
+    const isForward = /^\s*(fwd?|fw|הועבר)\s*:/i.test(subject);
+    let content = isForward || !segments.body
+      ? [segments.body, segments.quoted].filter(Boolean).join('\n\n')
+      : segments.body;
     
     // If we couldn't extract content, try fallback to snippet
     if (!content || content.trim().length === 0) {
@@ -399,7 +838,14 @@ class GmailService {
     console.log('Final email content length:', content.length);
     console.log('Content preview (first 200 chars):', content.substring(0, 200));
 
-    return { subject, from, to, content };
+    return {
+      subject,
+      from,
+      to,
+      content,
+      quotedText: content.includes(segments.quoted) ? undefined : segments.quoted || undefined,
+      signature: segments.signature || undefined,
+    };
   }
 
   private async extractJobData(content: string, subject: string, from: string): Promise<any> {
@@ -645,7 +1091,8 @@ class GmailService {
 
       // Extract salary information
       const salaryPatterns = [
-        /\$[\d,]+(?:\.\d{2})?/,
+        /[$€£₪]\s?[\d,.]+\s*[kK]?(?:\s*(?:-|–|to)\s*[$€£₪]?\s?[\d,.]+\s*[kK]?)?(?:\s*(?:\/|per\s+)(?:year|yr|month|mo|hour|hr))?/i,
+        /[\d,.]+\s*[kK]?(?:\s*(?:-|–)\s*[\d,.]+\s*[kK]?)?\s*(?:NIS|ILS|USD|EUR|ש["״]ח)/,
         /salary:?\s*(.+?)$/im,
         /compensation:?\s*(.+?)$/im
       ];
@@ -665,7 +1112,7 @@ class GmailService {
     }
   }
 
-  private calculateConfidence(extractedData: any, content: string): number {
+  private calculateConfidence(extractedData: any, content: string, settings: GmailFilterSettings): number {
     let confidence = 0;
     const debugInfo: any = { extractedData, contentLength: content.length };
     
@@ -769,7 +1216,7 @@ class GmailService {
     }
 
     // Check for exclusion keywords (negative confidence)
-    const exclusionMatches = gmailFilters.excludeKeywords.filter(keyword =>
+    const exclusionMatches = settings.excludeKeywords.filter(keyword =>
       lowerContent.includes(keyword.toLowerCase())
     );
     const exclusionPenalty = exclusionMatches.length * 0.2;
@@ -778,7 +1225,7 @@ class GmailService {
     debugInfo.exclusionPenalty = exclusionPenalty;
 
     // Check for context exclusions
-    const contextExclusions = gmailFilters.contextExclusions.filter(phrase =>
+    const contextExclusions = settings.contextExclusions.filter(phrase =>
       lowerContent.includes(phrase.toLowerCase())
     );
     const contextPenalty = contextExclusions.length * 0.3;
@@ -810,14 +1257,14 @@ class GmailService {
       const labelId = await this.ensureLabelExists(labelName);
       
       // Add label to message
-      await gmail.users.messages.modify({
+      await this.withRetry(() => gmail.users.messages.modify({
         userId: 'me',
         id: messageId,
         resource: {
           addLabelIds: [labelId],
           removeLabelIds: []
         }
-      });
+      }));
     } catch (error) {
       console.error('Error adding label to email:', error);
       throw error;
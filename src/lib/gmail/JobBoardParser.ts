@@ -0,0 +1,177 @@
+import gmailFilters from '../../config/gmail-filters.json';
+
+export type JobBoard = 'linkedin' | 'indeed';
+
+// What the email says about the application; viewed and other status updates still mean we applied
+export type JobBoardEmailKind = 'applied' | 'viewed' | 'rejected';
+
+export interface JobBoardEmail {
+  board: JobBoard;
+  kind: JobBoardEmailKind;
+  company: string;
+  position: string;
+  jobUrl?: string;
+  location?: string;
+}
+
+interface EmailFields {
+  subject: string;
+  from: string;
+  content: string;
+}
+
+// Structured confirmations from the board itself are more reliable than anything we guess
+export const JOB_BOARD_CONFIDENCE = 0.95;
+
+const REJECTION_PATTERNS = [
+  /unfortunately/i,
+  /not (?:to )?(?:move|moving) forward/i,
+  /decided to (?:pursue|move forward with) other candidates/i,
+  /no longer (?:being )?considered/i,
+  /לצערנו/,
+];
+
+const BOARD_DOMAINS: Record<JobBoard, string> = {
+  linkedin: 'linkedin.com',
+  indeed: 'indeed.com',
+};
+
+function getSenderAddress(from: string): string {
+  return (from.match(/<([^>]+)>/)?.[1] || from).trim().toLowerCase();
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function clean(text: string | undefined): string {
+  return (text || '').replace(/\s+/g, ' ').trim().replace(/[.,;:!]$/, '');
+}
+
+/**
+ * The job board whose domain sent the email, whether or not it is an application email
+ */
+export function getJobBoard(from: string): JobBoard | undefined {
+  const address = getSenderAddress(from);
+  return (Object.keys(BOARD_DOMAINS) as JobBoard[]).find(board =>
+    address.endsWith(`@${BOARD_DOMAINS[board]}`) || address.endsWith(`.${BOARD_DOMAINS[board]}`)
+  );
+}
+
+/**
+ * Whether the sender is one of the job-board addresses that send application confirmations
+ */
+export function isJobBoardApplicationSender(from: string): boolean {
+  const board = getJobBoard(from);
+  return !!board && gmailFilters.jobBoardSenders[board].includes(getSenderAddress(from));
+}
+
+function isRejection(text: string): boolean {
+  return REJECTION_PATTERNS.some(pattern => pattern.test(text));
+}
+
+/**
+ * LinkedIn tracking links (linkedin.com/comm/jobs/view/123?trk=...) reduced to the public job page
+ */
+function findLinkedInJobUrl(content: string): string | undefined {
+  const jobId = content.match(/linkedin\.com\/(?:comm\/)?jobs\/view\/(\d+)/i)?.[1];
+  return jobId ? `https://www.linkedin.com/jobs/view/${jobId}` : undefined;
+}
+
+function findIndeedJobUrl(content: string): string | undefined {
+  const jobKey = content.match(/indeed\.com\/[^\s"'<>]*[?&]jk=([a-z0-9]+)/i)?.[1];
+  return jobKey ? `https://www.indeed.com/viewjob?jk=${jobKey}` : undefined;
+}
+
+function parseLinkedIn({ subject, content }: EmailFields): JobBoardEmail | null {
+  // "Your application was sent to Acme" / "Your application was viewed by Acme"
+  const sent = subject.match(/your application was (sent to|viewed by)\s+(.+)$/i);
+  // Hebrew interface: "הבקשה שלך נשלחה אל Acme"
+  const sentHebrew = subject.match(/הבקשה שלך נשלחה (?:אל|ל)[-\s]?(.+)$/);
+  // Status updates: "Your application to Senior Engineer at Acme"
+  const update = subject.match(/your (?:application|update) (?:to|for)\s+(.+?)\s+at\s+(.+)$/i);
+
+  let kind: JobBoardEmailKind;
+  let company: string;
+  let position = '';
+
+  if (sent || sentHebrew) {
+    kind = sent?.[1].toLowerCase() === 'viewed by' ? 'viewed' : 'applied';
+    company = clean(sent ? sent[2] : sentHebrew?.[1]);
+  } else if (update) {
+    kind = isRejection(content) ? 'rejected' : 'viewed';
+    position = clean(update[1]);
+    company = clean(update[2]);
+  } else {
+    return null;
+  }
+
+  // The job card repeats the company: "Senior Engineer  Acme · Tel Aviv, Israel (Hybrid)"
+  const escapedCompany = escapeRegExp(company);
+  const card = content.match(new RegExp(`([^\\n·]{2,120}?)\\s+${escapedCompany}\\s*[·•]\\s*([^\\n·]+?)(?=\\s+(?:Applied on|View job|\\d+ applicants)|\\n|$)`, 'i'));
+  if (!position && card) {
+    // The text before the title may still contain the heading that named the company
+    position = clean(card[1].replace(new RegExp(`^.*${escapedCompany}\\s+`, 'i'), ''));
+  }
+
+  if (!company || !position) return null;
+
+  return {
+    board: 'linkedin',
+    kind,
+    company,
+    position,
+    jobUrl: findLinkedInJobUrl(content),
+    location: clean(card?.[2]) || undefined,
+  };
+}
+
+function parseIndeed({ subject, content }: EmailFields): JobBoardEmail | null {
+  // "Indeed Application: Senior Engineer"
+  const applied = subject.match(/indeed application:\s*(.+)$/i);
+  // "An update on your application for Senior Engineer at Acme" / "Your application to Senior Engineer at Acme"
+  const update = subject.match(/your application (?:for|to)\s+(.+?)\s+at\s+(.+)$/i);
+
+  if (applied) {
+    const position = clean(applied[1]);
+    // "Application submitted  Senior Engineer  Acme Ltd - Tel Aviv" or "...sent to Acme Ltd."
+    const card = content.match(new RegExp(`${escapeRegExp(position)}\\s+(.+?)\\s+-\\s+([^\\n]+?)(?=\\s{2,}|\\n|$)`, 'i'));
+    const sentTo = content.match(/(?:submitted|sent) to\s+([^.\n]+)/i);
+    const company = clean(card?.[1] || sentTo?.[1]);
+    if (!company) return null;
+
+    return {
+      board: 'indeed',
+      kind: 'applied',
+      company,
+      position,
+      jobUrl: findIndeedJobUrl(content),
+      location: clean(card?.[2]) || undefined,
+    };
+  }
+
+  if (update) {
+    return {
+      board: 'indeed',
+      kind: isRejection(content) ? 'rejected' : 'viewed',
+      company: clean(update[2]),
+      position: clean(update[1]),
+      jobUrl: findIndeedJobUrl(content),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Reads an application confirmation or status email from LinkedIn or Indeed. Returns null for
+ * everything else those boards send (job alerts, InMail, connection requests, profile views...).
+ */
+export function parseJobBoardEmail(email: EmailFields): JobBoardEmail | null {
+  if (!isJobBoardApplicationSender(email.from)) return null;
+
+  const board = getJobBoard(email.from);
+  if (board === 'linkedin') return parseLinkedIn(email);
+  if (board === 'indeed') return parseIndeed(email);
+  return null;
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { getNextScheduledRun, getPreviousScheduledRun, SyncScheduleSettings } from './SyncSchedule';
+
+// Sunday to Thursday work week
+const schedule: SyncScheduleSettings = {
+  enabled: true,
+  time: '09:00',
+  timezone: 'Asia/Jerusalem',
+  frequency: 'weekdays',
+  workDays: [0, 1, 2, 3, 4],
+};
+
+describe('sync schedule', () => {
+  it('skips the weekend when finding the next run', () => {
+    // Thursday 11:00 in Jerusalem, after that day's run
+    expect(getNextScheduledRun(schedule, new Date('2024-05-16T08:00:00.000Z'))?.toISOString())
+      .toBe('2024-05-19T06:00:00.000Z');
+  });
+
+  it('finds the last work day run from the weekend', () => {
+    expect(getPreviousScheduledRun(schedule, new Date('2024-05-18T08:00:00.000Z'))?.toISOString())
+      .toBe('2024-05-16T06:00:00.000Z');
+  });
+});
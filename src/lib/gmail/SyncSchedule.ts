@@ -0,0 +1,83 @@
+import { zonedTimeToUtc, utcToZonedTime } from '../timezone';
+
+export type SyncFrequency = 'hourly' | 'daily' | 'weekdays';
+
+export interface SyncScheduleSettings {
+  enabled: boolean;
+  time: string; // "HH:MM" in `timezone`; hourly syncs use only the minutes
+  timezone: string;
+  frequency: SyncFrequency;
+  workDays?: number[]; // 0 = Sunday; used by the weekdays frequency
+}
+
+// Sunday to Thursday, the working week in Israel
+const DEFAULT_WORK_DAYS = [0, 1, 2, 3, 4];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseTime(time: string): { hour: number; minute: number } {
+  const [hour, minute] = time.split(':').map(Number);
+  return { hour: hour || 0, minute: minute || 0 };
+}
+
+/**
+ * Scheduled run times of the day that contains `date` in the schedule's time zone
+ */
+function getRunsOnDay(date: Date, schedule: SyncScheduleSettings): Date[] {
+  const { date: day } = utcToZonedTime(date.toISOString(), schedule.timezone);
+  const { minute } = parseTime(schedule.time);
+
+  if (schedule.frequency === 'hourly') {
+    return Array.from({ length: 24 }, (_, hour) =>
+      new Date(zonedTimeToUtc(day, `${hour}:${minute}`, schedule.timezone))
+    );
+  }
+
+  if (schedule.frequency === 'weekdays') {
+    const weekday = new Date(`${day}T00:00:00Z`).getUTCDay();
+    if (!(schedule.workDays || DEFAULT_WORK_DAYS).includes(weekday)) {
+      return [];
+    }
+  }
+
+  return [new Date(zonedTimeToUtc(day, schedule.time, schedule.timezone))];
+}
+
+/**
+ * First scheduled run strictly after `after`, or null when scheduling is disabled
+ */
+export function getNextScheduledRun(schedule: SyncScheduleSettings, after: Date = new Date()): Date | null {
+  if (!schedule.enabled) return null;
+
+  // A week ahead always contains a run unless no work days are configured
+  for (let offset = 0; offset <= 8; offset++) {
+    const run = getRunsOnDay(new Date(after.getTime() + offset * DAY_MS), schedule)
+      .find(candidate => candidate.getTime() > after.getTime());
+    if (run) return run;
+  }
+  return null;
+}
+
+/**
+ * Latest scheduled run at or before `before`, used to catch up runs missed while the app was closed
+ */
+export function getPreviousScheduledRun(schedule: SyncScheduleSettings, before: Date = new Date()): Date | null {
+  if (!schedule.enabled) return null;
+
+  for (let offset = 0; offset <= 8; offset++) {
+    const run = getRunsOnDay(new Date(before.getTime() - offset * DAY_MS), schedule)
+      .reverse()
+      .find(candidate => candidate.getTime() <= before.getTime());
+    if (run) return run;
+  }
+  return null;
+}
+
+export function describeSchedule(schedule: SyncScheduleSettings): string {
+  if (!schedule.enabled) return 'Automatic sync is off';
+
+  const { minute } = parseTime(schedule.time);
+  if (schedule.frequency === 'hourly') {
+    return `Every hour at :${String(minute).padStart(2, '0')}`;
+  }
+  return `${schedule.frequency === 'weekdays' ? 'Work days' : 'Every day'} at ${schedule.time} (${schedule.timezone})`;
+}
@@ -1,6 +1,16 @@
-import { gmailService, ProcessedEmail } from './GmailService';
+import { gmailService, GmailHistoryCheckpoint, ProcessedEmail } from './GmailService';
 import { gmailAuth } from './GmailAuth';
-import { JobApplication, ApplicationStatus } from '../types';
+import { JobApplication, ApplicationStatus, StatusChangeSource, StageCategory } from '../types';
+import { pipeline, INTERVIEW_CATEGORIES } from '../pipeline';
+import { extractInterviewFromEmail, extractInterviewFromInvite, addInterviewEvents } from '../interviews';
+import { addSuggestedTask } from '../tasks';
+import { contactBook } from '../contacts';
+import { companyDirectory } from '../companies';
+import { documentLibrary, documentKindLabels } from '../documents';
+import { findApplicationByThread } from '../applications';
+import { reviewQueueRepository, metaRepository } from '../storage/repositories';
+import { SyncScheduleSettings, getNextScheduledRun, getPreviousScheduledRun } from './SyncSchedule';
+import { GmailFilterSettings, PreviewOutcome, filterSettings, getEmailOutcome } from './FilterSettings';
 import gmailFilters from '../../config/gmail-filters.json';
 import syncSettings from '../../config/sync-settings.json';
 
@@ -10,10 +20,25 @@ export interface SyncResult {
   processed: number;
   autoAdded: number;
   reviewQueue: number;
+  threadUpdates?: number; // emails applied to applications linked to their thread; missing on older results
   errors: string[];
   timestamp: string;
 }
 
+// How often the scheduler checks whether a run is due; also covers timers paused by sleep
+const SCHEDULE_CHECK_INTERVAL_MS = 60 * 1000;
+
+export interface FilterPreviewItem {
+  email: ProcessedEmail;
+  outcome: PreviewOutcome;
+}
+
+export interface FilterPreview {
+  query: string;
+  items: FilterPreviewItem[];
+  errors: string[];
+}
+
 export interface ReviewQueueItem {
   id: string;
   email: ProcessedEmail;
@@ -28,9 +53,15 @@ class SyncScheduler {
   private lastSyncResult: SyncResult | null = null;
   private reviewQueue: ReviewQueueItem[] = [];
   private syncListeners: Array<(result: SyncResult) => void> = [];
+  private scheduleListeners: Array<(nextRun: Date | null) => void> = [];
+  private scheduleTimer: ReturnType<typeof setInterval> | null = null;
+  private nextScheduledRun: Date | null = null;
+  private onScheduledApplicationAdd?: (application: Omit<JobApplication, 'id'>) => void;
+  private getApplications: () => JobApplication[] = () => [];
+  private loaded: Promise<void>;
 
   private constructor() {
-    this.loadPersistedData();
+    this.loaded = this.loadPersistedData();
     // Force reset sync state on initialization to prevent stuck states
     this.syncInProgress = false;
     this.isScheduled = false;
@@ -44,44 +75,137 @@ class SyncScheduler {
     return SyncScheduler.instance;
   }
 
-  private loadPersistedData() {
+  private async loadPersistedData() {
     try {
-      const storedQueue = localStorage.getItem('gmail_review_queue');
-      if (storedQueue) {
-        this.reviewQueue = JSON.parse(storedQueue);
-      }
-
-      const storedLastSync = localStorage.getItem('gmail_last_sync');
-      if (storedLastSync) {
-        this.lastSyncResult = JSON.parse(storedLastSync);
-      }
+      const [storedQueue, storedLastSync] = await Promise.all([
+        reviewQueueRepository.getAll(),
+        metaRepository.getLastSyncResult(),
+      ]);
+      // Keep anything queued while the database was loading
+      const queuedIds = new Set(this.reviewQueue.map(item => item.id));
+      this.reviewQueue = [...storedQueue.filter(item => !queuedIds.has(item.id)), ...this.reviewQueue];
+      this.lastSyncResult = this.lastSyncResult || storedLastSync || null;
     } catch (error) {
       console.error('Error loading persisted sync data:', error);
     }
   }
 
+  /**
+   * Resolves once the review queue and last sync result are loaded from the database
+   */
+  ready(): Promise<void> {
+    return this.loaded;
+  }
+
   private persistData() {
-    try {
-      localStorage.setItem('gmail_review_queue', JSON.stringify(this.reviewQueue));
-      if (this.lastSyncResult) {
-        localStorage.setItem('gmail_last_sync', JSON.stringify(this.lastSyncResult));
-      }
-    } catch (error) {
-      console.error('Error persisting sync data:', error);
+    reviewQueueRepository.replaceAll(this.reviewQueue).catch(error => {
+      console.error('Error persisting review queue:', error);
+    });
+    if (this.lastSyncResult) {
+      metaRepository.setLastSyncResult(this.lastSyncResult).catch(error => {
+        console.error('Error persisting last sync result:', error);
+      });
     }
   }
 
-  // Removed automatic scheduling - only manual sync now
-  startScheduler(): void {
-    // Deprecated - no automatic scheduling
-    console.log('Automatic scheduling disabled - sync only on app start or manual trigger');
+  /**
+   * Lets sync look up which application a Gmail thread belongs to
+   */
+  setApplicationsProvider(getApplications: () => JobApplication[]): void {
+    this.getApplications = getApplications;
+  }
+
+  getSchedule(): SyncScheduleSettings {
+    return syncSettings.syncSchedule as SyncScheduleSettings;
+  }
+
+  /**
+   * Runs syncs at the times configured in `syncSchedule`. A run missed while the app was
+   * closed is made up right away.
+   */
+  async startScheduler(onApplicationAdd?: (application: Omit<JobApplication, 'id'>) => void): Promise<void> {
+    this.onScheduledApplicationAdd = onApplicationAdd;
+    if (this.isScheduled) return;
+
+    const schedule = this.getSchedule();
+    if (!schedule.enabled) {
+      console.log('Automatic sync disabled in sync settings');
+      return;
+    }
+
+    this.isScheduled = true;
+    this.scheduleTimer = setInterval(() => this.checkSchedule(), SCHEDULE_CHECK_INTERVAL_MS);
+    this.setNextScheduledRun(getNextScheduledRun(schedule));
+    console.log('Sync scheduler started, next run:', this.nextScheduledRun?.toISOString());
+
+    await this.loaded;
+    const missedRun = getPreviousScheduledRun(schedule);
+    const lastSync = this.lastSyncResult ? new Date(this.lastSyncResult.timestamp) : null;
+    if (missedRun && (!lastSync || lastSync < missedRun)) {
+      console.log('Catching up on scheduled sync missed at', missedRun.toISOString());
+      await this.runScheduledSync();
+    }
   }
 
   stopScheduler(): void {
+    if (this.scheduleTimer) {
+      clearInterval(this.scheduleTimer);
+      this.scheduleTimer = null;
+    }
     this.isScheduled = false;
+    this.setNextScheduledRun(null);
     console.log('Sync scheduler stopped');
   }
 
+  getNextScheduledRun(): Date | null {
+    return this.nextScheduledRun;
+  }
+
+  private async checkSchedule(): Promise<void> {
+    if (!this.nextScheduledRun || Date.now() < this.nextScheduledRun.getTime()) return;
+
+    this.setNextScheduledRun(getNextScheduledRun(this.getSchedule()));
+    await this.runScheduledSync();
+  }
+
+  private async runScheduledSync(): Promise<void> {
+    if (!gmailAuth.getAuthState().isAuthenticated) {
+      console.log('Not authenticated - skipping scheduled sync');
+      return;
+    }
+    if (this.syncInProgress) {
+      console.log('Sync already in progress - skipping scheduled sync');
+      return;
+    }
+
+    try {
+      await this.performSync(this.onScheduledApplicationAdd);
+    } catch (error) {
+      console.error('Scheduled sync failed:', error);
+    }
+  }
+
+  private setNextScheduledRun(nextRun: Date | null): void {
+    this.nextScheduledRun = nextRun;
+    this.scheduleListeners.forEach(listener => {
+      try {
+        listener(nextRun);
+      } catch (error) {
+        console.error('Error in schedule listener:', error);
+      }
+    });
+  }
+
+  onScheduleChange(listener: (nextRun: Date | null) => void): () => void {
+    this.scheduleListeners.push(listener);
+    return () => {
+      const index = this.scheduleListeners.indexOf(listener);
+      if (index > -1) {
+        this.scheduleListeners.splice(index, 1);
+      }
+    };
+  }
+
   // Perform initial sync when app starts (if authenticated)
   async performInitialSync(onApplicationAdd?: (application: Omit<JobApplication, 'id'>) => void): Promise<void> {
     if (!gmailAuth.getAuthState().isAuthenticated) {
@@ -89,6 +213,9 @@ class SyncScheduler {
       return;
     }
 
+    // The last sync result comes from the database
+    await this.loaded;
+
     // Only sync if last sync was more than 1 hour ago or never synced
     if (this.lastSyncResult) {
       const lastSyncTime = new Date(this.lastSyncResult.timestamp);
@@ -129,32 +256,62 @@ class SyncScheduler {
     let processed = 0;
     let autoAdded = 0;
     let reviewQueueAdded = 0;
+    let threadUpdates = 0;
 
     try {
       console.log('Starting Gmail sync...');
+      await this.loaded;
 
-      // Fetch recent emails
-      const emails = await gmailService.fetchRecentEmails(syncSettings.processing.maxEmailsPerSync);
-      totalEmails = emails.length;
+      // Fetch only what arrived since the last sync when Gmail still has the history
+      const previousCheckpoint = await metaRepository.getGmailHistory();
+      const { messages: emails, errors: fetchErrors, failedIds, checkpoint, incremental } = await gmailService.fetchEmailsSince(
+        previousCheckpoint,
+        filterSettings.getSettings().maxEmailsPerSync
+      );
+      totalEmails = emails.length + fetchErrors.length;
+      errors.push(...fetchErrors);
+      const failedMessageIds = [...failedIds];
 
-      console.log(`Found ${totalEmails} emails to process`);
+      console.log(`Found ${totalEmails} emails to process (${incremental ? 'incremental' : 'full'} sync)`);
 
       for (const email of emails) {
         try {
+          // Later messages of a tracked thread update its application without being classified again
+          const linkedApplication = findApplicationByThread(this.getApplications(), email.threadId);
+          if (linkedApplication) {
+            processed++;
+            if (!linkedApplication.gmailMessageIds?.includes(email.id) && onApplicationAdd) {
+              const threadEmail = await gmailService.readEmailWithAttachments(email);
+              onApplicationAdd({
+                ...this.createApplicationFromEmail(threadEmail, 'gmail-sync', linkedApplication.status),
+                company: linkedApplication.company,
+                position: linkedApplication.position,
+                contactIds: contactBook.upsertFromEmail(threadEmail),
+                documentIds: await this.storeAttachments(threadEmail, linkedApplication.company)
+              });
+              threadUpdates++;
+            }
+            continue;
+          }
+
           // Process email with AI
           const processedEmail = await gmailService.processEmail(email);
           processed++;
 
           // Two-stage processing system
           const isAIProcessed = processedEmail.extractedData.notes?.includes('AI analysis');
+          const outcome = getEmailOutcome(processedEmail.confidence, filterSettings.getSettings().confidenceThresholds);
           
           // Stage 1: Manual confidence check
-          if (processedEmail.confidence >= gmailFilters.confidenceThresholds.autoProcess) {
-            // High confidence (85%+) - auto-process
-            const application = this.createApplicationFromEmail(processedEmail);
-            
+          if (outcome === 'auto-add') {
+            // High confidence - auto-process
             if (onApplicationAdd) {
-              onApplicationAdd(application);
+              const application = this.createApplicationFromEmail(processedEmail);
+              onApplicationAdd({
+                ...application,
+                contactIds: contactBook.upsertFromEmail(processedEmail),
+                documentIds: await this.storeAttachments(processedEmail, application.company)
+              });
               autoAdded++;
             }
 
@@ -166,8 +323,8 @@ class SyncScheduler {
               errors.push(`Failed to add label to email ${email.id}`);
             }
 
-          } else if (processedEmail.confidence >= gmailFilters.confidenceThresholds.reviewQueue) {
-            // Medium confidence (25-84%) - add to review queue
+          } else if (outcome === 'review') {
+            // Medium confidence - add to review queue
             const existingItem = this.reviewQueue.find(item => item.email.id === email.id);
             if (!existingItem) {
               const reviewItem: ReviewQueueItem = {
@@ -185,7 +342,7 @@ class SyncScheduler {
             }
 
           } else {
-            // Stage 2: Low confidence (<25%) - this will be handled by AI processing inside processEmail method
+            // Stage 2: Low confidence - this will be handled by AI processing inside processEmail method
             // The processEmail method already includes AI enhancement for low confidence emails
             // If we reach here, it means the email was processed (including AI if applicable) and still has low confidence
             console.log(`Email ${email.id} rejected (confidence: ${processedEmail.confidence})`);
@@ -194,15 +351,25 @@ class SyncScheduler {
         } catch (emailError) {
           console.error(`Error processing email ${email.id}:`, emailError);
           errors.push(`Failed to process email ${email.id}: ${emailError}`);
+          failedMessageIds.push(email.id);
         }
       }
 
+      // Failed emails are fetched again by the next syncs, so the checkpoint can move past them
+      await metaRepository.setGmailHistory({
+        ...checkpoint,
+        failedMessages: this.countFailures(failedMessageIds, previousCheckpoint),
+      }).catch(error => {
+        console.error('Error persisting Gmail history id:', error);
+      });
+
       const result: SyncResult = {
         success: errors.length === 0,
         totalEmails,
         processed,
         autoAdded,
         reviewQueue: reviewQueueAdded,
+        threadUpdates,
         errors,
         timestamp: startTime
       };
@@ -223,6 +390,7 @@ class SyncScheduler {
         processed,
         autoAdded,
         reviewQueue: reviewQueueAdded,
+        threadUpdates,
         errors: [error instanceof Error ? error.message : 'Unknown error'],
         timestamp: startTime
       };
@@ -237,14 +405,79 @@ class SyncScheduler {
     }
   }
 
-  private createApplicationFromEmail(processedEmail: ProcessedEmail): Omit<JobApplication, 'id'> {
+  /**
+   * The failed messages to retry, with the number of syncs each has failed in. Messages that
+   * failed in `processing.maxMessageRetries` syncs are given up on.
+   */
+  private countFailures(
+    failedIds: string[],
+    previousCheckpoint: GmailHistoryCheckpoint | undefined
+  ): Record<string, number> | undefined {
+    const previous = previousCheckpoint?.failedMessages || {};
+    const failures = Object.fromEntries(
+      [...new Set(failedIds)]
+        .map(id => [id, (previous[id] || 0) + 1] as const)
+        .filter(([id, count]) => {
+          if (count <= syncSettings.processing.maxMessageRetries) return true;
+          console.warn(`Giving up on email ${id} after ${count} failed syncs`);
+          return false;
+        })
+    );
+    return Object.keys(failures).length > 0 ? failures : undefined;
+  }
+
+  /**
+   * Runs the most recent matching emails through the steps of performSync with draft filter
+   * settings, without adding applications, queueing or labelling anything. Emails of linked
+   * threads are reported as such. AI analysis is not run; emails a sync would send to it are
+   * reported as needing it, since it can only raise their score.
+   */
+  async previewFilters(settings: GmailFilterSettings, maxResults: number = 50): Promise<FilterPreview> {
+    const query = gmailService.buildSearchQuery(settings);
+    const { messages, errors } = await gmailService.fetchRecentEmails(maxResults, settings);
+    const items: FilterPreviewItem[] = [];
+
+    for (const message of messages) {
+      try {
+        if (findApplicationByThread(this.getApplications(), message.threadId)) {
+          items.push({ email: gmailService.readEmail(message), outcome: 'thread' });
+          continue;
+        }
+
+        const email = await gmailService.processEmail(message, { settings, useAI: false });
+        const outcome = getEmailOutcome(email.confidence, settings.confidenceThresholds);
+        items.push({
+          email,
+          outcome: outcome !== 'auto-add' && gmailService.needsAIAnalysis(email) ? 'needs-ai' : outcome,
+        });
+      } catch (error) {
+        errors.push(`Failed to process email ${message.id}: ${error}`);
+      }
+    }
+
+    items.sort((a, b) => b.email.date.localeCompare(a.email.date));
+    return { query, items, errors };
+  }
+
+  private createApplicationFromEmail(
+    processedEmail: ProcessedEmail,
+    source: StatusChangeSource = 'gmail-sync',
+    currentStatus?: ApplicationStatus
+  ): Omit<JobApplication, 'id'> {
     const now = new Date().toISOString();
     
-    // Determine status based on AI analysis
-    const status = this.determineStatusFromEmail(processedEmail);
+    // Determine status based on AI analysis, mapped onto the configured pipeline
+    const category = this.determineStatusFromEmail(processedEmail);
+    const status = pipeline.resolveStageForCategory(category, currentStatus);
+    const interview = extractInterviewFromInvite(processedEmail) ||
+      (INTERVIEW_CATEGORIES.includes(category) ? extractInterviewFromEmail(processedEmail) : null);
+
+    // Use the canonical company name when the name or sender domain is already known
+    const knownCompany = companyDirectory.resolve(processedEmail.extractedData.company, processedEmail.from);
     
     return {
-      company: processedEmail.extractedData.company || '',
+      company: knownCompany?.name || processedEmail.extractedData.company || '',
+      companyId: knownCompany?.id,
       position: processedEmail.extractedData.position || '',
       status,
       appliedDate: processedEmail.extractedData.appliedDate || processedEmail.date.split('T')[0],
@@ -256,15 +489,41 @@ class SyncScheduler {
       salary: processedEmail.extractedData.salary || '',
       location: processedEmail.extractedData.location || '',
       emailContent: processedEmail.content,
+      statusHistory: [{
+        status,
+        date: processedEmail.date,
+        source,
+        emailId: processedEmail.id,
+        confidence: processedEmail.confidence
+      }],
+      lastActivityAt: processedEmail.date,
+      interviews: interview ? addInterviewEvents([], [interview]) : [],
+      tasks: addSuggestedTask([], status),
+      gmailThreadIds: processedEmail.threadId ? [processedEmail.threadId] : [],
+      gmailMessageIds: [processedEmail.id],
       createdAt: now,
       updatedAt: now
     };
   }
 
-  private determineStatusFromEmail(processedEmail: ProcessedEmail): ApplicationStatus {
+  private determineStatusFromEmail(processedEmail: ProcessedEmail): StageCategory {
     const content = processedEmail.content.toLowerCase();
     const subject = processedEmail.subject.toLowerCase();
     const notes = processedEmail.extractedData.notes?.toLowerCase() || '';
+
+    // Job board emails say exactly what happened; "viewed" still means applied
+    if (processedEmail.jobBoard) {
+      return processedEmail.jobBoard.kind === 'rejected' ? 'rejected' : 'applied';
+    }
+
+    // Attached offer letters and calendar invites are clearer than any keyword
+    const attachmentKinds = (processedEmail.attachments || []).map(attachment => attachment.kind);
+    if (attachmentKinds.includes('offer-letter')) {
+      return 'offer';
+    }
+    if (attachmentKinds.includes('calendar-invite')) {
+      return 'interview';
+    }
     
     // Check for interview-related keywords and AI analysis
     const interviewKeywords = [
@@ -316,6 +575,9 @@ class SyncScheduler {
     const notes: string[] = [];
     
     notes.push(`Auto-imported from Gmail (${Math.round(processedEmail.confidence * 100)}% confidence)`);
+    if (processedEmail.jobBoard) {
+      notes.push(`Applied via ${processedEmail.jobBoard.board === 'linkedin' ? 'LinkedIn' : 'Indeed'}`);
+    }
     notes.push(`Email from: ${processedEmail.from}`);
     notes.push(`Subject: ${processedEmail.subject}`);
     
@@ -326,17 +588,52 @@ class SyncScheduler {
     return notes.join('\n');
   }
 
+  /**
+   * Saves offer letters and calendar invites attached to the email to the document library.
+   * Returns the ids of the stored documents; attachments that fail to download are skipped.
+   */
+  private async storeAttachments(processedEmail: ProcessedEmail, company: string): Promise<string[]> {
+    const documentIds: string[] = [];
+
+    for (const attachment of processedEmail.attachments || []) {
+      if (!attachment.kind) continue;
+      try {
+        const file = await gmailService.downloadAttachment(attachment);
+        const document = await documentLibrary.addVersion(
+          file,
+          attachment.kind,
+          `${company || 'Unknown company'} ${documentKindLabels[attachment.kind]}`,
+          `From "${processedEmail.subject}" (${processedEmail.date.split('T')[0]})`
+        );
+        documentIds.push(document.id);
+      } catch (error) {
+        console.error(`Error storing attachment ${attachment.fileName}:`, error);
+      }
+    }
+
+    return documentIds;
+  }
+
   // Review Queue Management
   getReviewQueue(): ReviewQueueItem[] {
     return [...this.reviewQueue];
   }
 
-  approveReviewItem(itemId: string, onApplicationAdd?: (application: Omit<JobApplication, 'id'>) => void): void {
+  async approveReviewItem(itemId: string, onApplicationAdd?: (application: Omit<JobApplication, 'id'>) => void): Promise<void> {
     const item = this.reviewQueue.find(item => item.id === itemId);
     if (!item) return;
 
     if (onApplicationAdd) {
-      onApplicationAdd(item.suggestedApplication);
+      // The suggestion was built during sync; credit the status to the manual approval
+      onApplicationAdd({
+        ...item.suggestedApplication,
+        contactIds: contactBook.upsertFromEmail(item.email),
+        documentIds: await this.storeAttachments(item.email, item.suggestedApplication.company),
+        statusHistory: (item.suggestedApplication.statusHistory || []).map(entry => ({
+          ...entry,
+          source: 'review-queue' as const
+        }))
+      });
     }
 
     // Add tracking label to email
@@ -351,6 +648,21 @@ class SyncScheduler {
     this.removeFromReviewQueue(itemId);
   }
 
+  /**
+   * Puts previously approved or rejected items back into the queue (used by undo)
+   */
+  restoreReviewItems(items: ReviewQueueItem[]): void {
+    const existingIds = new Set(this.reviewQueue.map(item => item.id));
+    this.reviewQueue = [...this.reviewQueue, ...items.filter(item => !existingIds.has(item.id))];
+    this.persistData();
+  }
+
+  removeReviewItems(itemIds: string[]): void {
+    const ids = new Set(itemIds);
+    this.reviewQueue = this.reviewQueue.filter(item => !ids.has(item.id));
+    this.persistData();
+  }
+
   clearReviewQueue(): void {
     this.reviewQueue = [];
     this.persistData();
@@ -361,15 +673,14 @@ class SyncScheduler {
     this.reviewQueue = [];
     this.lastSyncResult = null;
     this.syncInProgress = false;
-    this.isScheduled = false;
     
-    // Clear localStorage
-    try {
-      localStorage.removeItem('gmail_review_queue');
-      localStorage.removeItem('gmail_last_sync');
-    } catch (error) {
-      console.error('Error clearing Gmail sync data from localStorage:', error);
-    }
+    Promise.all([
+      reviewQueueRepository.clear(),
+      metaRepository.clearLastSyncResult(),
+      metaRepository.clearGmailHistory(),
+    ]).catch(error => {
+      console.error('Error clearing Gmail sync data from the database:', error);
+    });
     
     console.log('All Gmail sync data cleared');
   }
@@ -384,6 +695,20 @@ class SyncScheduler {
     this.persistData();
   }
 
+  /**
+   * Replaces the review queue and last sync result, e.g. when restoring a backup
+   */
+  restoreSyncData(reviewQueue: ReviewQueueItem[], lastSyncResult: SyncResult | null): void {
+    this.reviewQueue = reviewQueue;
+    this.lastSyncResult = lastSyncResult;
+    this.persistData();
+    if (!lastSyncResult) {
+      metaRepository.clearLastSyncResult().catch(error => {
+        console.error('Error clearing last sync result:', error);
+      });
+    }
+  }
+
   // Sync Status and Listeners
   getLastSyncResult(): SyncResult | null {
     return this.lastSyncResult;
@@ -397,6 +397,17 @@ ENHANCED ANALYSIS (Pro Model):
     };
   }
 
+  /**
+   * Restores usage statistics, e.g. from a backup
+   */
+  restoreUsageStats(stats: { flashCalls: number; proCalls: number; totalTokens: number }) {
+    this.usageStats = {
+      flashCalls: stats.flashCalls,
+      proCalls: stats.proCalls,
+      totalTokens: stats.totalTokens
+    };
+  }
+
   /**
    * Resets usage statistics
    */
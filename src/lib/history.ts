@@ -0,0 +1,298 @@
+import { JobApplication } from './types';
+import { applicationTrash } from './trash';
+import { auditLog } from './audit-log';
+import { ghostDetector } from './ghost-detector';
+import { getChangedFields, isSameApplication, isSameFieldValue } from './applications';
+import { syncScheduler, ReviewQueueItem } from './gmail/SyncScheduler';
+
+const MAX_HISTORY = 100;
+
+// Kept up to date by every edit, so a later value there isn't a conflicting edit
+const TIMESTAMP_FIELDS: Array<keyof JobApplication> = ['updatedAt', 'lastActivityAt'];
+
+export type CommandSource =
+  | 'list'
+  | 'review-queue'
+  | 'sync'
+  | 'linkedin'
+  | 'import'
+  | 'trash'
+  | 'inactivity'
+  | 'reminder'
+  | 'contacts';
+
+/**
+ * One application before and after a command. A missing side means the
+ * application was added (no before) or removed (no after).
+ */
+export interface ApplicationChange {
+  id: string;
+  before?: JobApplication;
+  after?: JobApplication;
+}
+
+export interface ApplicationCommand {
+  label: string;
+  source: CommandSource;
+  changes: ApplicationChange[];
+  reviewItems?: ReviewQueueItem[]; // review queue items consumed by the command
+  emailId?: string; // Gmail message that triggered the command
+  timestamp: string;
+}
+
+export interface CommandHistoryState {
+  undoLabel?: string;
+  redoLabel?: string;
+}
+
+/**
+ * Options for adding an application from sync, the review queue or email forwarding
+ */
+export interface ApplicationAddOptions {
+  source?: CommandSource;
+  reviewItem?: ReviewQueueItem;
+}
+
+/**
+ * Compares two versions of the application list by id
+ */
+export function diffApplications(before: JobApplication[], after: JobApplication[]): ApplicationChange[] {
+  const beforeById = new Map(before.map(application => [application.id, application]));
+  const afterById = new Map(after.map(application => [application.id, application]));
+  const changes: ApplicationChange[] = [];
+
+  for (const [id, previous] of beforeById) {
+    const next = afterById.get(id);
+    // Unchanged objects are shared between versions, so identity is enough
+    if (next !== previous) {
+      changes.push({ id, before: previous, after: next });
+    }
+  }
+
+  for (const [id, next] of afterById) {
+    if (!beforeById.has(id)) {
+      changes.push({ id, after: next });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Moves one application from `from` to `to`, touching only the fields the command changed.
+ * Fields edited since keep their current value and are counted as conflicts, and an
+ * application edited since isn't removed.
+ */
+function applyChange(
+  current: JobApplication | undefined,
+  from: JobApplication | undefined,
+  to: JobApplication | undefined
+): { application?: JobApplication; conflicts: number } {
+  if (!current) {
+    // Removed since the command; its edits can't be replayed onto nothing
+    return from ? { conflicts: to ? 1 : 0 } : { application: to, conflicts: 0 };
+  }
+  if (!from) {
+    return { application: current, conflicts: to && !isSameApplication(current, to) ? 1 : 0 };
+  }
+
+  const editedSince = getChangedFields(current, from).filter(field => !TIMESTAMP_FIELDS.includes(field));
+  if (!to) {
+    return editedSince.length === 0 ? { conflicts: 0 } : { application: current, conflicts: 1 };
+  }
+
+  const next: Record<string, unknown> = { ...current };
+  let applied = 0;
+  let conflicts = 0;
+  for (const field of getChangedFields(from, to)) {
+    if (field === 'updatedAt' || isSameFieldValue(current[field], to[field])) continue;
+    if (isSameFieldValue(current[field], from[field])) {
+      next[field] = to[field];
+      applied++;
+    } else if (!TIMESTAMP_FIELDS.includes(field)) {
+      conflicts++;
+    }
+  }
+
+  if (applied === 0) return { application: current, conflicts };
+  next.updatedAt = editedSince.length === 0 ? to.updatedAt : new Date().toISOString();
+  return { application: next as unknown as JobApplication, conflicts };
+}
+
+/**
+ * Applies a command's changes to the current list. Other applications are left alone, and
+ * so are fields changed after the command, so undoing an old command doesn't revert later
+ * edits. Returns how many changes were skipped for that reason.
+ */
+export function applyChanges(
+  applications: JobApplication[],
+  changes: ApplicationChange[],
+  direction: 'forward' | 'backward'
+): { applications: JobApplication[]; conflicts: number } {
+  const currentById = new Map(applications.map(application => [application.id, application]));
+  const targets = new Map<string, JobApplication | undefined>();
+  let conflicts = 0;
+
+  for (const change of changes) {
+    const from = direction === 'forward' ? change.before : change.after;
+    const to = direction === 'forward' ? change.after : change.before;
+    const result = applyChange(currentById.get(change.id), from, to);
+    targets.set(change.id, result.application);
+    conflicts += result.conflicts;
+  }
+
+  const result = applications
+    .filter(application => !targets.has(application.id) || targets.get(application.id))
+    .map(application => targets.get(application.id) || application);
+
+  const presentIds = new Set(result.map(application => application.id));
+  for (const [id, target] of targets) {
+    if (target && !presentIds.has(id)) {
+      result.push(target);
+    }
+  }
+
+  return { applications: result, conflicts };
+}
+
+class CommandHistory {
+  private undoStack: ApplicationCommand[] = [];
+  private redoStack: ApplicationCommand[] = [];
+  private listeners: Array<(state: CommandHistoryState) => void> = [];
+
+  getState(): CommandHistoryState {
+    return {
+      undoLabel: this.undoStack[this.undoStack.length - 1]?.label,
+      redoLabel: this.redoStack[this.redoStack.length - 1]?.label,
+    };
+  }
+
+  /**
+   * Records the change from `current` to `next` as a command and returns the new list.
+   * Returns `current` untouched when nothing changed.
+   */
+  execute(
+    current: JobApplication[],
+    next: JobApplication[],
+    label: string,
+    source: CommandSource,
+    reviewItems?: ReviewQueueItem[],
+    emailId?: string
+  ): JobApplication[] {
+    const changes = diffApplications(current, next);
+    if (changes.length === 0 && !reviewItems?.length) {
+      return current;
+    }
+
+    const command: ApplicationCommand = {
+      label,
+      source,
+      changes,
+      reviewItems,
+      emailId,
+      timestamp: new Date().toISOString(),
+    };
+
+    this.runSideEffects(changes, reviewItems, 'forward');
+    auditLog.record(changes, source, label, emailId);
+    this.undoStack = [...this.undoStack, command].slice(-MAX_HISTORY);
+    this.redoStack = [];
+    this.notifyListeners();
+    return next;
+  }
+
+  /**
+   * Reverts the last command. `conflicts` counts the changes left alone because the
+   * application was edited since.
+   */
+  undo(current: JobApplication[]): { applications: JobApplication[]; command: ApplicationCommand; conflicts: number } | null {
+    const command = this.undoStack[this.undoStack.length - 1];
+    if (!command) return null;
+
+    this.undoStack = this.undoStack.slice(0, -1);
+    this.redoStack = [...this.redoStack, command];
+
+    const { conflicts, ...reverted } = applyChanges(current, command.changes, 'backward');
+    let applications = reverted.applications;
+    // Restored as recently active, or the inactivity check would move them straight back
+    if (command.source === 'inactivity') {
+      const restoredIds = diffApplications(current, applications).map(change => change.id);
+      applications = ghostDetector.undoMarkGhosted(applications, restoredIds);
+    }
+
+    const changes = diffApplications(current, applications);
+    this.runSideEffects(changes, command.reviewItems, 'backward');
+    this.notifyListeners();
+    auditLog.record(changes, 'undo', command.label, command.emailId);
+    return { applications, command, conflicts };
+  }
+
+  redo(current: JobApplication[]): { applications: JobApplication[]; command: ApplicationCommand; conflicts: number } | null {
+    const command = this.redoStack[this.redoStack.length - 1];
+    if (!command) return null;
+
+    this.redoStack = this.redoStack.slice(0, -1);
+    this.undoStack = [...this.undoStack, command];
+
+    const { applications, conflicts } = applyChanges(current, command.changes, 'forward');
+    const changes = diffApplications(current, applications);
+    this.runSideEffects(changes, command.reviewItems, 'forward');
+    this.notifyListeners();
+    auditLog.record(changes, 'redo', command.label, command.emailId);
+    return { applications, command, conflicts };
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.notifyListeners();
+  }
+
+  subscribe(listener: (state: CommandHistoryState) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Keeps the trash and the review queue in step with the application list: removed
+   * applications go to the trash and come back out when they reappear, and review
+   * items consumed by a command return to the queue when it is undone. `changes` are
+   * the ones just applied, from the previous list to the new one.
+   */
+  private runSideEffects(
+    changes: ApplicationChange[],
+    reviewItems: ReviewQueueItem[] | undefined,
+    direction: 'forward' | 'backward'
+  ) {
+    const removed: JobApplication[] = [];
+    const reappeared: string[] = [];
+
+    for (const change of changes) {
+      if (change.before && !change.after) removed.push(change.before);
+      if (!change.before && change.after) reappeared.push(change.id);
+    }
+
+    applicationTrash.add(removed);
+    applicationTrash.remove(reappeared);
+
+    if (reviewItems?.length) {
+      if (direction === 'forward') {
+        syncScheduler.removeReviewItems(reviewItems.map(item => item.id));
+      } else {
+        syncScheduler.restoreReviewItems(reviewItems);
+      }
+    }
+  }
+
+  private notifyListeners() {
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+}
+
+export const commandHistory = new CommandHistory();
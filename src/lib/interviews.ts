@@ -0,0 +1,365 @@
+import { InterviewEvent, InterviewFormat, JobApplication } from './types';
+import { ProcessedEmail } from './gmail/GmailService';
+import { StatusAnalysis } from './ai-status-detector';
+import { DEFAULT_TIMEZONE, zonedTimeToUtc } from './timezone';
+
+const DEFAULT_DURATION_MINUTES = 60;
+
+/**
+ * An interview found in an email, before it gets an id and round number
+ */
+export type InterviewDraft = Omit<InterviewEvent, 'id' | 'round' | 'createdAt' | 'updatedAt'>;
+
+export const interviewFormatLabels: Record<InterviewFormat, string> = {
+  phone: 'Phone',
+  video: 'Video call',
+  onsite: 'On-site',
+  'take-home': 'Take-home',
+  other: 'Other',
+};
+
+const MEETING_LINK_PATTERNS: Array<{ provider: string; pattern: RegExp }> = [
+  { provider: 'Zoom', pattern: /https?:\/\/(?:[\w-]+\.)?zoom\.us\/(?:j|my|w|s)\/[^\s<>"')\]]+/i },
+  { provider: 'Teams', pattern: /https?:\/\/teams\.microsoft\.com\/l\/meetup-join\/[^\s<>"')\]]+/i },
+  { provider: 'Teams', pattern: /https?:\/\/teams\.live\.com\/meet\/[^\s<>"')\]]+/i },
+  { provider: 'Google Meet', pattern: /https?:\/\/meet\.google\.com\/[a-z]{3}-[a-z]{4}-[a-z]{3}[^\s<>"')\]]*/i },
+  { provider: 'Webex', pattern: /https?:\/\/[\w-]+\.webex\.com\/[^\s<>"')\]]+/i },
+];
+
+// Abbreviations commonly written next to interview times
+const TIMEZONE_ABBREVIATIONS: Record<string, string> = {
+  ist: 'Asia/Jerusalem',
+  idt: 'Asia/Jerusalem',
+  'israel time': 'Asia/Jerusalem',
+  'שעון ישראל': 'Asia/Jerusalem',
+  utc: 'UTC',
+  gmt: 'UTC',
+  bst: 'Europe/London',
+  cet: 'Europe/Berlin',
+  cest: 'Europe/Berlin',
+  est: 'America/New_York',
+  edt: 'America/New_York',
+  et: 'America/New_York',
+  cst: 'America/Chicago',
+  cdt: 'America/Chicago',
+  pst: 'America/Los_Angeles',
+  pdt: 'America/Los_Angeles',
+  pt: 'America/Los_Angeles',
+};
+
+const MONTHS: Record<string, number> = {
+  january: 1, february: 2, march: 3, april: 4, may: 5, june: 6, july: 7, august: 8,
+  september: 9, october: 10, november: 11, december: 12,
+  jan: 1, feb: 2, mar: 3, apr: 4, jun: 6, jul: 7, aug: 8, sep: 9, sept: 9, oct: 10, nov: 11, dec: 12,
+  'ינואר': 1, 'פברואר': 2, 'מרץ': 3, 'מרס': 3, 'אפריל': 4, 'מאי': 5, 'יוני': 6, 'יולי': 7,
+  'אוגוסט': 8, 'ספטמבר': 9, 'אוקטובר': 10, 'נובמבר': 11, 'דצמבר': 12,
+};
+
+const WEEKDAYS: Record<string, number> = {
+  sunday: 0, monday: 1, tuesday: 2, wednesday: 3, thursday: 4, friday: 5, saturday: 6,
+  'ראשון': 0, 'שני': 1, 'שלישי': 2, 'רביעי': 3, 'חמישי': 4, 'שישי': 5,
+};
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0');
+}
+
+/**
+ * Finds a Zoom, Teams, Google Meet or Webex link in text
+ */
+export function detectMeetingLink(text: string): { url: string; provider: string } | null {
+  for (const { provider, pattern } of MEETING_LINK_PATTERNS) {
+    const match = text.match(pattern);
+    if (match) {
+      return { url: match[0].replace(/[.,;]$/, ''), provider };
+    }
+  }
+  return null;
+}
+
+function detectTimeZone(text: string): string | undefined {
+  const lower = text.toLowerCase();
+  for (const [abbreviation, zone] of Object.entries(TIMEZONE_ABBREVIATIONS)) {
+    const pattern = new RegExp(`(^|[^a-z])${abbreviation}([^a-z]|$)`);
+    if (pattern.test(lower)) return zone;
+  }
+  return undefined;
+}
+
+/**
+ * Finds the first date mentioned in text. Numeric dates are read day-first
+ * (15/01/2024) unless that is impossible. Dates without a year, weekdays and
+ * "tomorrow" are resolved relative to the reference date.
+ */
+function parseDate(text: string, reference: Date): string | undefined {
+  const lower = text.toLowerCase();
+  const toDate = (year: number, month: number, day: number) =>
+    month >= 1 && month <= 12 && day >= 1 && day <= 31 ? `${year}-${pad(month)}-${pad(day)}` : undefined;
+
+  // Without a year, pick the next occurrence after the email was sent
+  const withInferredYear = (month: number, day: number) => {
+    const year = reference.getFullYear();
+    const candidate = new Date(year, month - 1, day);
+    return toDate(candidate.getTime() < reference.getTime() - 24 * 60 * 60 * 1000 ? year + 1 : year, month, day);
+  };
+
+  const iso = lower.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+  if (iso) return toDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  // Day-first numeric dates; "1.5" in "1.5 hours" is rejected by the lookahead
+  const numeric = lower.match(/\b(\d{1,2})[./](\d{1,2})(?:[./](\d{2,4}))?\b(?!\s*(?:hour|hr|שע))/);
+  if (numeric) {
+    let day = Number(numeric[1]);
+    let month = Number(numeric[2]);
+    if (month > 12 && day <= 12) {
+      [day, month] = [month, day];
+    }
+    const year = numeric[3] && (Number(numeric[3]) < 100 ? 2000 + Number(numeric[3]) : Number(numeric[3]));
+    const date = year ? toDate(year, month, day) : withInferredYear(month, day);
+    if (date) return date;
+  }
+
+  // Longest names first so "september" wins over "sep"
+  const monthNames = Object.keys(MONTHS).sort((a, b) => b.length - a.length).join('|');
+  const monthFirst = lower.match(new RegExp(`(?:^|[^\\p{L}])(${monthNames})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?(?!\\d)(?:,?\\s+(\\d{4}))?`, 'u'));
+  const dayFirst = lower.match(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?[בל]?(${monthNames})(?![\\p{L}])\\.?(?:,?\\s+(\\d{4}))?`, 'u'));
+  if (monthFirst || dayFirst) {
+    const month = monthFirst ? MONTHS[monthFirst[1]] : MONTHS[dayFirst![2]];
+    const day = Number(monthFirst ? monthFirst[2] : dayFirst![1]);
+    const year = monthFirst ? monthFirst[3] : dayFirst![3];
+    const date = year ? toDate(Number(year), month, day) : withInferredYear(month, day);
+    if (date) return date;
+  }
+
+  if (/\btomorrow\b|מחר/.test(lower)) {
+    const tomorrow = new Date(reference.getTime() + 24 * 60 * 60 * 1000);
+    return toDate(tomorrow.getFullYear(), tomorrow.getMonth() + 1, tomorrow.getDate());
+  }
+
+  const weekday = lower.match(new RegExp(`\\b(?:on|this|next)\\s+(${Object.keys(WEEKDAYS).filter(day => /[a-z]/.test(day)).join('|')})\\b|ביום\\s+(${Object.keys(WEEKDAYS).filter(day => !/[a-z]/.test(day)).join('|')})`));
+  if (weekday) {
+    const target = WEEKDAYS[weekday[1] || weekday[2]];
+    const daysAhead = ((target - reference.getDay() + 7) % 7) || 7;
+    const date = new Date(reference.getTime() + daysAhead * 24 * 60 * 60 * 1000);
+    return toDate(date.getFullYear(), date.getMonth() + 1, date.getDate());
+  }
+
+  return undefined;
+}
+
+/**
+ * Finds the first time (and optional end time) mentioned in text, as 24h "HH:mm"
+ */
+function parseTimeRange(text: string): { start?: string; end?: string } {
+  const toTime = (hour: number, minute: number, meridiem?: string) => {
+    let h = hour;
+    if (meridiem?.toLowerCase().startsWith('p') && h < 12) h += 12;
+    if (meridiem?.toLowerCase().startsWith('a') && h === 12) h = 0;
+    return h <= 23 && minute <= 59 ? `${pad(h)}:${pad(minute)}` : undefined;
+  };
+
+  const range = text.match(/\b(\d{1,2})(?::(\d{2}))?\s*(am|pm)?\s*(?:-|–|to|עד)\s*(\d{1,2})(?::(\d{2}))?\s*(am|pm)?\b/i);
+  if (range && (range[2] || range[3]) && (range[5] || range[6])) {
+    const endMeridiem = range[6];
+    return {
+      start: toTime(Number(range[1]), Number(range[2] || 0), range[3] || endMeridiem),
+      end: toTime(Number(range[4]), Number(range[5] || 0), endMeridiem),
+    };
+  }
+
+  const single = text.match(/\b(\d{1,2}):(\d{2})\s*(am|pm)?/i) || text.match(/\b(\d{1,2})()\s*(am|pm)\b/i);
+  if (single) {
+    return { start: toTime(Number(single[1]), Number(single[2] || 0), single[3]) };
+  }
+
+  return {};
+}
+
+function parseDurationMinutes(text: string): number | undefined {
+  const minutes = text.match(/\b(\d{2,3})\s*(?:-\s*)?(?:min|mins|minutes|דקות)\b/i);
+  if (minutes) return Number(minutes[1]);
+
+  const hours = text.match(/\b(\d(?:\.\d)?)\s*(?:-\s*)?(?:hour|hours|hr|hrs)\b|(שעה|שעתיים)/i);
+  if (hours) {
+    if (hours[2]) return hours[2] === 'שעתיים' ? 120 : 60;
+    return Math.round(Number(hours[1]) * 60);
+  }
+
+  return undefined;
+}
+
+function detectFormat(text: string, meetingLink?: string, hint?: string): InterviewFormat {
+  const lower = `${hint || ''} ${text}`.toLowerCase();
+  if (/take-home|take home|home assignment|מטלת בית|מבחן בית/.test(lower)) return 'take-home';
+  if (meetingLink || hint === 'video' || /video|zoom|teams|google meet|webex|וידאו/.test(lower)) return 'video';
+  if (hint === 'in-person' || /on-?site|in person|in-person|our office|במשרד|פרונטלי/.test(lower)) return 'onsite';
+  if (hint === 'phone' || /phone|call you|שיחה טלפונית|טלפוני/.test(lower)) return 'phone';
+  return 'other';
+}
+
+function parseInterviewers(text: string): string[] {
+  const name = "[A-Z][\\w'-]+(?:\\s[A-Z][\\w'-]+)+";
+  const match = text.match(new RegExp(`\\b(?:with|interviewers?:|meet)\\s+(${name}(?:\\s*(?:,|and|&)\\s*${name})*)`));
+  if (!match) return [];
+
+  return match[1]
+    .split(/\s*(?:,|\band\b|&)\s*/)
+    .map(part => part.trim())
+    .filter(part => part.length > 2);
+}
+
+/**
+ * Builds an interview event from an email. AI-extracted details take precedence
+ * over values found in the text. Returns null when the email has neither a time
+ * nor a meeting link.
+ */
+export function extractInterviewFromEmail(
+  email: ProcessedEmail,
+  details?: StatusAnalysis['extractedDetails']
+): InterviewDraft | null {
+  const text = `${email.subject}\n${email.content}`;
+  const reference = new Date(email.date);
+  const link = detectMeetingLink(`${details?.interviewLocation || ''} ${text}`);
+
+  const timeZone = detectTimeZone(`${details?.interviewTime || ''} ${text}`) || DEFAULT_TIMEZONE;
+  const date = (details?.interviewDate && /^\d{4}-\d{2}-\d{2}$/.test(details.interviewDate))
+    ? details.interviewDate
+    : parseDate(text, isNaN(reference.getTime()) ? new Date() : reference);
+  const times = details?.interviewTime ? parseTimeRange(details.interviewTime) : parseTimeRange(text);
+
+  if (!link && !(date && times.start)) return null;
+
+  let start: string | undefined;
+  let end: string | undefined;
+  if (date && times.start) {
+    start = zonedTimeToUtc(date, times.start, timeZone);
+    const duration = parseDurationMinutes(text) || DEFAULT_DURATION_MINUTES;
+    end = times.end
+      ? zonedTimeToUtc(date, times.end, timeZone)
+      : new Date(new Date(start).getTime() + duration * 60000).toISOString();
+  }
+
+  const interviewers = [
+    ...(email.extractedData.interviewer ? [email.extractedData.interviewer] : []),
+    ...parseInterviewers(email.content),
+  ];
+
+  const location = details?.interviewLocation && !detectMeetingLink(details.interviewLocation)
+    ? details.interviewLocation
+    : email.extractedData.location && !detectMeetingLink(email.extractedData.location)
+      ? email.extractedData.location
+      : undefined;
+
+  return {
+    title: email.subject.replace(/^(re|fwd?):\s*/i, '').slice(0, 80),
+    start,
+    end,
+    timeZone,
+    format: detectFormat(text, link?.url, details?.interviewType),
+    location,
+    meetingLink: link?.url,
+    interviewers: [...new Set(interviewers)],
+    sourceEmailId: email.id,
+  };
+}
+
+/**
+ * Builds an interview event from the first calendar invite attached to an email that
+ * has a start time
+ */
+export function extractInterviewFromInvite(email: ProcessedEmail): InterviewDraft | null {
+  const invite = email.attachments?.find(attachment => attachment.invite?.start)?.invite;
+  if (!invite?.start) return null;
+
+  const details = `${invite.url || ''}\n${invite.location || ''}\n${invite.description || ''}`;
+  const link = detectMeetingLink(details);
+
+  return {
+    title: (invite.summary || email.subject.replace(/^(re|fwd?):\s*/i, '')).slice(0, 80),
+    start: invite.start,
+    end: invite.end || new Date(new Date(invite.start).getTime() + DEFAULT_DURATION_MINUTES * 60000).toISOString(),
+    timeZone: invite.timeZone || DEFAULT_TIMEZONE,
+    format: detectFormat(`${invite.summary}\n${details}`, link?.url),
+    location: invite.location && !detectMeetingLink(invite.location) ? invite.location : undefined,
+    meetingLink: link?.url,
+    interviewers: parseInterviewers(invite.description || ''),
+    sourceEmailId: email.id,
+  };
+}
+
+/**
+ * Adds interview drafts to an application's events. Drafts from an email that was
+ * already recorded, or at a start time that is already on the list, are skipped.
+ * New events get the next round number.
+ */
+export function addInterviewEvents(existing: InterviewEvent[] = [], drafts: InterviewDraft[] = []): InterviewEvent[] {
+  const events = [...existing];
+  const now = new Date().toISOString();
+
+  for (const draft of drafts) {
+    const isKnown = events.some(event =>
+      (draft.sourceEmailId && event.sourceEmailId === draft.sourceEmailId) ||
+      (draft.start && event.start === draft.start)
+    );
+    if (isKnown) continue;
+
+    events.push({
+      ...draft,
+      id: 'interview_' + Date.now().toString(36) + Math.random().toString(36).substr(2, 6),
+      round: events.reduce((max, event) => Math.max(max, event.round), 0) + 1,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  return sortInterviews(events);
+}
+
+/**
+ * Sorts events by round, then start time
+ */
+export function sortInterviews(events: InterviewEvent[]): InterviewEvent[] {
+  return [...events].sort((a, b) =>
+    a.round - b.round || new Date(a.start || 0).getTime() - new Date(b.start || 0).getTime()
+  );
+}
+
+/**
+ * The earliest interview of an application that hasn't started yet
+ */
+export function getNextInterview(application: JobApplication, now: Date = new Date()): InterviewEvent | undefined {
+  return (application.interviews || [])
+    .filter(event => event.start && new Date(event.start).getTime() > now.getTime())
+    .sort((a, b) => new Date(a.start!).getTime() - new Date(b.start!).getTime())[0];
+}
+
+/**
+ * Formats the time of an interview in its own time zone, e.g. "Mon, Jan 15, 14:00-15:00"
+ */
+export function formatInterviewTime(event: InterviewEvent): string {
+  if (!event.start) return 'Time not set';
+
+  const options: Intl.DateTimeFormatOptions = {
+    timeZone: event.timeZone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  };
+
+  try {
+    const start = new Intl.DateTimeFormat('en-US', options).format(new Date(event.start));
+    if (!event.end) return start;
+    const end = new Intl.DateTimeFormat('en-US', {
+      timeZone: event.timeZone,
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).format(new Date(event.end));
+    return `${start}-${end}`;
+  } catch {
+    return new Date(event.start).toLocaleString();
+  }
+}
@@ -0,0 +1,203 @@
+import { JobApplication, DocumentVersion } from '../types';
+import { LinkedInJobApplication } from './LinkedInService';
+import { parseCsv } from '../csv';
+import { readZipEntries } from '../zip';
+import { parseImportDate } from '../application-csv';
+import { createApplication, updateApplication, findDuplicateEnhanced } from '../applications';
+import { pipeline } from '../pipeline';
+import { documentLibrary } from '../documents';
+
+// File names in LinkedIn's "Download your data" archive; large exports are split into _1, _2...
+const APPLICATIONS_FILE = /(^|\/)Job Applications(_\d+)?\.csv$/i;
+const SAVED_JOBS_FILE = /(^|\/)Saved Jobs(_\d+)?\.csv$/i;
+
+export interface LinkedInArchiveData {
+  applications: LinkedInJobApplication[];
+  savedJobs: LinkedInJobApplication[];
+}
+
+export interface LinkedInImportResult {
+  fileName: string;
+  applicationsFound: number;
+  savedJobsFound: number;
+  imported: number; // new applications
+  updated: number; // tracked applications that got missing details from LinkedIn
+  alreadyTracked: number;
+  timestamp: string;
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z]/g, '');
+}
+
+function getJobId(jobUrl: string, fallback: string): string {
+  return jobUrl.match(/\/jobs\/view\/(\d+)/)?.[1] || fallback;
+}
+
+/**
+ * Reads rows of a "Job Applications" or "Saved Jobs" CSV. LinkedIn writes dates as
+ * "11/21/24, 1:58 PM" (month first).
+ */
+function parseLinkedInCsv(text: string, kind: 'applications' | 'savedJobs'): LinkedInJobApplication[] {
+  const [headerRow, ...rows] = parseCsv(text);
+  if (!headerRow) return [];
+
+  const headers = headerRow.map(normalizeHeader);
+  const column = (row: string[], name: string) => (row[headers.indexOf(name)] || '').trim();
+
+  return rows
+    .map((row, index) => {
+      const jobUrl = column(row, 'joburl');
+      const dateCell = column(row, kind === 'applications' ? 'applicationdate' : 'saveddate');
+      const resumeName = column(row, 'resumename');
+      return {
+        id: getJobId(jobUrl, `${kind}-${index}`),
+        jobTitle: column(row, 'jobtitle'),
+        companyName: column(row, 'companyname'),
+        companyId: '',
+        appliedAt: parseImportDate(dateCell.split(',')[0]) || new Date().toISOString().split('T')[0],
+        status: kind === 'applications' ? 'applied' as const : 'saved' as const,
+        jobUrl: jobUrl || undefined,
+        resumeName: resumeName || undefined,
+      };
+    })
+    .filter(job => job.companyName && job.jobTitle);
+}
+
+/**
+ * Reads job applications and saved jobs from the LinkedIn data export, either the whole
+ * ZIP archive or one of its CSV files
+ */
+export async function readLinkedInArchive(file: File): Promise<LinkedInArchiveData> {
+  const data: LinkedInArchiveData = { applications: [], savedJobs: [] };
+
+  if (/\.csv$/i.test(file.name)) {
+    const text = await file.text();
+    const headers = (parseCsv(text)[0] || []).map(normalizeHeader);
+    if (headers.includes('applicationdate')) {
+      data.applications = parseLinkedInCsv(text, 'applications');
+    } else if (headers.includes('saveddate')) {
+      data.savedJobs = parseLinkedInCsv(text, 'savedJobs');
+    } else {
+      throw new Error('This CSV is not "Job Applications.csv" or "Saved Jobs.csv" from LinkedIn');
+    }
+    return data;
+  }
+
+  const entries = await readZipEntries(file);
+  for (const entry of entries) {
+    if (APPLICATIONS_FILE.test(entry.name)) {
+      data.applications.push(...parseLinkedInCsv(await entry.text(), 'applications'));
+    } else if (SAVED_JOBS_FILE.test(entry.name)) {
+      data.savedJobs.push(...parseLinkedInCsv(await entry.text(), 'savedJobs'));
+    }
+  }
+
+  if (data.applications.length === 0 && data.savedJobs.length === 0) {
+    throw new Error('No job applications found - request the archive with "Job applications" included');
+  }
+  return data;
+}
+
+/**
+ * Matches the resume LinkedIn recorded against the document library by file or document name
+ */
+function findResume(resumeName?: string): DocumentVersion | undefined {
+  if (!resumeName) return undefined;
+  const baseName = resumeName.replace(/\.[^.]+$/, '').toLowerCase();
+  return documentLibrary.getDocuments().find(document =>
+    document.kind === 'resume' &&
+    (document.fileName.toLowerCase() === resumeName.toLowerCase() || document.name.toLowerCase() === baseName)
+  );
+}
+
+function toApplication(job: LinkedInJobApplication): JobApplication {
+  const status = pipeline.resolveStageForCategory(job.status === 'saved' ? 'saved' : 'applied');
+  const resume = findResume(job.resumeName);
+  const notes = [
+    job.status === 'saved' ? 'Saved on LinkedIn' : 'Applied on LinkedIn',
+    !resume && job.resumeName ? `Resume: ${job.resumeName}` : '',
+  ].filter(Boolean).join('\n');
+
+  const application = createApplication({
+    company: job.companyName,
+    position: job.jobTitle,
+    status,
+    appliedDate: job.appliedAt,
+    jobUrl: job.jobUrl,
+    notes,
+    documentIds: resume ? [resume.id] : [],
+    statusHistory: [{ status, date: new Date(job.appliedAt).toISOString(), source: 'import' }],
+  }, 'import');
+
+  // Old applications shouldn't flood the task list with follow-up suggestions
+  return { ...application, tasks: [] };
+}
+
+/**
+ * Details LinkedIn knows that the tracked application is missing, or undefined when there are none
+ */
+function getMissingDetails(application: JobApplication, job: LinkedInJobApplication): Partial<JobApplication> | undefined {
+  const updates: Partial<JobApplication> = {};
+
+  if (!application.jobUrl && job.jobUrl) {
+    updates.jobUrl = job.jobUrl;
+  }
+
+  const resume = findResume(job.resumeName);
+  if (resume && !application.documentIds?.includes(resume.id)) {
+    updates.documentIds = [...(application.documentIds || []), resume.id];
+  }
+
+  // A job saved in the tracker that LinkedIn says was applied to
+  if (job.status === 'applied' && pipeline.getStage(application.status)?.category === 'saved') {
+    updates.status = pipeline.resolveStageForCategory('applied', application.status);
+    updates.appliedDate = job.appliedAt;
+  }
+
+  return Object.keys(updates).length > 0 ? updates : undefined;
+}
+
+/**
+ * Adds LinkedIn jobs that aren't tracked yet and fills in details of the ones that are
+ */
+export function reconcileLinkedInApplications(
+  existing: JobApplication[],
+  linkedInJobs: LinkedInJobApplication[],
+  includeSavedJobs: boolean
+): { applications: JobApplication[]; imported: number; updated: number; alreadyTracked: number } {
+  let applications = [...existing];
+  let imported = 0;
+  let updated = 0;
+  let alreadyTracked = 0;
+
+  // Applications first, so a job that was saved and then applied to is imported as applied
+  const jobs = [
+    ...linkedInJobs.filter(job => job.status !== 'saved'),
+    ...(includeSavedJobs ? linkedInJobs.filter(job => job.status === 'saved') : []),
+  ];
+
+  for (const job of jobs) {
+    const duplicate = findDuplicateEnhanced(applications, job.companyName, job.jobTitle);
+    if (!duplicate) {
+      applications.push(toApplication(job));
+      imported++;
+      continue;
+    }
+
+    const updates = getMissingDetails(duplicate, job);
+    if (!updates) {
+      alreadyTracked++;
+      continue;
+    }
+
+    // Status changes go through updateApplication for the history; other details aren't activity
+    const merged = updates.status
+      ? updateApplication(duplicate, updates, 'import')
+      : { ...duplicate, ...updates, updatedAt: new Date().toISOString() };
+    applications = applications.map(application => application.id === duplicate.id ? merged : application);
+    updated++;
+  }
+
+  return { applications, imported, updated, alreadyTracked };
+}
@@ -1,3 +1,5 @@
+import { readLinkedInArchive } from './LinkedInArchive';
+
 interface LinkedInProfile {
   id: string;
   firstName: string;
@@ -12,9 +14,10 @@ interface LinkedInJobApplication {
   companyName: string;
   companyId: string;
   appliedAt: string;
-  status: 'applied' | 'viewed' | 'rejected' | 'interviewing' | 'offered';
+  status: 'saved' | 'applied' | 'viewed' | 'rejected' | 'interviewing' | 'offered';
   jobUrl?: string;
   applicationUrl?: string;
+  resumeName?: string; // file name of the resume LinkedIn sent with the application
   notes?: string;
 }
 
@@ -443,16 +446,12 @@ class LinkedInService {
 
   /**
    * Get user's job applications from LinkedIn
-   * Note: This is a mock implementation as LinkedIn doesn't provide a direct API for job applications
+   * LinkedIn has no API for job applications, so they are read from the "Download your data"
+   * archive (or its Job Applications.csv) that the user requested from LinkedIn
    */
-  async getJobApplications(): Promise<LinkedInJobApplication[]> {
-    // LinkedIn doesn't provide a direct API for job applications
-    // This would need to be implemented through web scraping or browser automation
-    // For now, return mock data structure
-    
-    console.warn('LinkedIn job applications API not available. Consider implementing browser automation or manual import.');
-    
-    return [];
+  async getJobApplications(archive: File): Promise<LinkedInJobApplication[]> {
+    const data = await readLinkedInArchive(archive);
+    return [...data.applications, ...data.savedJobs];
   }
 
   /**
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { decodeHeader, decodePastedEmail, decodeText, parseMimeMessage } from './mime';
+import windows1255Source from './__fixtures__/mime/windows-1255-no-charset.eml?raw';
+import iso88598iSource from './__fixtures__/mime/iso-8859-8-i.eml?raw';
+import multipartReplySource from './__fixtures__/mime/multipart-quoted-reply.eml?raw';
+
+describe('decodeText', () => {
+  it('reads windows-1255 when there is no charset and the bytes are not UTF-8', () => {
+    expect(decodeText(new Uint8Array([0xF9, 0xEC, 0xE5, 0xED]))).toBe('שלום');
+  });
+
+  it('reads UTF-8 when there is no charset', () => {
+    expect(decodeText(new TextEncoder().encode('ראיון interview'))).toBe('ראיון interview');
+  });
+
+  it('reads ISO-8859-8-I', () => {
+    expect(decodeText(new Uint8Array([0xF8, 0xE0, 0xE9, 0xE5, 0xEF]), 'ISO-8859-8-I')).toBe('ראיון');
+  });
+});
+
+describe('decodeHeader', () => {
+  it('joins UTF-8 words split in the middle of a character', () => {
+    expect(decodeHeader('=?UTF-8?B?16jXkNc=?= =?UTF-8?B?mdeV158=?= - Backend')).toBe('ראיון - Backend');
+  });
+
+  it('decodes Q words with underscores as spaces', () => {
+    expect(decodeHeader('=?UTF-8?Q?Re:_=D7=A8=D7=90=D7=99=D7=95=D7=9F?=')).toBe('Re: ראיון');
+  });
+
+  it('leaves plain values alone', () => {
+    expect(decodeHeader('Interview at Acme')).toBe('Interview at Acme');
+  });
+});
+
+describe('parseMimeMessage', () => {
+  it('decodes a windows-1255 body without a charset', () => {
+    expect(parseMimeMessage(windows1255Source)).toEqual({
+      subject: 'הזמנה לראיון',
+      from: 'Michal <michal@example.co.il>',
+      text: 'שלום דנה,\nנשמח להזמין אותך לראיון לתפקיד Backend Engineer ביום ראשון.\n\nבברכה,\nמיכל',
+    });
+  });
+
+  it('decodes an ISO-8859-8-I base64 body and headers', () => {
+    expect(parseMimeMessage(iso88598iSource)).toEqual({
+      subject: 'המועמדות שלך - QA Engineer',
+      from: 'צוות גיוס <jobs@example.co.il>',
+      text: 'היי,\nקיבלנו את קורות החיים שלך למשרת QA Engineer.\nנחזור אליך בהקדם.',
+    });
+  });
+
+  it('keeps only the new message of a multipart quoted-printable reply', () => {
+    expect(parseMimeMessage(multipartReplySource)).toEqual({
+      subject: 'Re: ראיון - Backend Engineer',
+      from: 'Yossi Levi <yossi@acme.example>',
+      text: "Hi Dana,\n\nתודה על השיחה! Let's schedule the technical interview for Tuesday at 14:00.\n\nBest,\nYossi",
+    });
+  });
+
+  it('returns null for text without mail headers', () => {
+    expect(parseMimeMessage('Hi Dana,\nSee you on Tuesday')).toBeNull();
+  });
+});
+
+describe('decodePastedEmail', () => {
+  it('decodes a pasted quoted-printable body and leaves out the quote', () => {
+    const pasted = [
+      '=D7=A0=D7=AA=D7=A8=D7=90=D7=94 =D7=91=D7=99=D7=95=D7=9D =D7=A9=D7=9C=D7=99=',
+      '=D7=A9=D7=99, see you then.',
+      '',
+      'On Mon, 13 May 2024 at 10:02, Dana <dana@example.com> wrote:',
+      '> Thanks!',
+    ].join('\n');
+
+    expect(decodePastedEmail(pasted)).toEqual({
+      subject: '',
+      from: '',
+      text: 'נתראה ביום שלישי, see you then.',
+    });
+  });
+});
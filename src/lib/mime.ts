@@ -0,0 +1,235 @@
+/**
+ * MIME decoding for Gmail message parts and pasted email source: base64url, quoted-printable,
+ * RFC 2047 encoded words and the charsets Hebrew mail still arrives in
+ */
+import { EmailSegments, splitEmailText, splitHtmlEmail, mergeSegments } from './email-text';
+
+export interface MimeMessage {
+  subject: string;
+  from: string;
+  text: string; // the new message, without quoted replies and signature
+}
+
+interface MimeEntity {
+  headers: Map<string, string>; // lower-case names
+  body: string;
+}
+
+// Labels used in mail that TextDecoder doesn't know
+const CHARSET_ALIASES: Record<string, string> = {
+  'cp1255': 'windows-1255',
+  'cp-1255': 'windows-1255',
+  'iso-8859-8-e': 'iso-8859-8',
+  'utf8': 'utf-8',
+};
+
+// Mail without a charset that isn't valid UTF-8 is most likely from an old Hebrew Outlook
+const FALLBACK_CHARSET = 'windows-1255';
+
+export function decodeBase64Url(data: string): Uint8Array {
+  const binary = atob(data.replace(/-/g, '+').replace(/_/g, '/').replace(/\s/g, ''));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+export function decodeQuotedPrintable(text: string): Uint8Array {
+  const bytes: number[] = [];
+  const encoder = new TextEncoder();
+  const unwrapped = text.replace(/=\r?\n/g, ''); // soft line breaks
+
+  for (let i = 0; i < unwrapped.length; i++) {
+    const hex = unwrapped[i] === '=' ? unwrapped.slice(i + 1, i + 3) : '';
+    if (/^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      // Pasted text may already contain decoded characters
+      bytes.push(...encoder.encode(unwrapped[i]));
+    }
+  }
+
+  return new Uint8Array(bytes);
+}
+
+/**
+ * The charset parameter of a Content-Type header value
+ */
+export function getCharset(contentType?: string): string | undefined {
+  return contentType?.match(/charset\s*=\s*"?([^";\s]+)"?/i)?.[1];
+}
+
+/**
+ * Decodes text in the given charset. Without a usable charset the bytes are read as UTF-8,
+ * or as windows-1255 when they aren't valid UTF-8.
+ */
+export function decodeText(bytes: Uint8Array, charset?: string): string {
+  const label = charset?.trim().toLowerCase();
+  if (label) {
+    try {
+      return new TextDecoder(CHARSET_ALIASES[label] || label).decode(bytes);
+    } catch {
+      console.warn(`Unknown charset ${charset}, guessing from the content`);
+    }
+  }
+
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder(FALLBACK_CHARSET).decode(bytes);
+  }
+}
+
+/**
+ * Decodes a Gmail API body. Gmail has already undone the Content-Transfer-Encoding, so the
+ * data is base64url of the text in the part's charset.
+ */
+export function decodeGmailBody(data: string, contentType?: string): string {
+  return decodeText(decodeBase64Url(data), getCharset(contentType));
+}
+
+/**
+ * Decodes RFC 2047 encoded words ("=?windows-1255?B?...?=") in a header value. Adjacent words
+ * are decoded together, since a multi-byte character may be split between them.
+ */
+export function decodeHeader(value: string): string {
+  const encodedWord = /=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g;
+  if (!value.includes('=?')) return value;
+
+  return value.replace(/=\?[^?]+\?[BbQq]\?[^?]*\?=(?:\s+=\?[^?]+\?[BbQq]\?[^?]*\?=)*/g, run => {
+    const words = [...run.matchAll(encodedWord)];
+    let decoded = '';
+    let charset = '';
+    let pending: number[] = [];
+
+    const flush = () => {
+      if (pending.length > 0) decoded += decodeText(new Uint8Array(pending), charset);
+      pending = [];
+    };
+
+    for (const [, wordCharset, encoding, text] of words) {
+      // RFC 2231 adds a language: "utf-8*he"
+      const nextCharset = wordCharset.split('*')[0];
+      if (nextCharset.toLowerCase() !== charset.toLowerCase()) {
+        flush();
+        charset = nextCharset;
+      }
+      const bytes = encoding.toUpperCase() === 'B'
+        ? decodeBase64Url(text)
+        : decodeQuotedPrintable(text.replace(/_/g, ' '));
+      pending.push(...bytes);
+    }
+    flush();
+
+    return decoded;
+  });
+}
+
+/**
+ * Decodes a body from message source by its Content-Transfer-Encoding and charset. Bodies
+ * that weren't encoded are returned as they are, since pasted text is already decoded.
+ */
+export function decodeTransferEncoding(body: string, transferEncoding?: string, charset?: string): string {
+  switch (transferEncoding?.trim().toLowerCase()) {
+    case 'base64':
+      return decodeText(decodeBase64Url(body), charset);
+    case 'quoted-printable':
+      return decodeText(decodeQuotedPrintable(body), charset);
+    default:
+      return body;
+  }
+}
+
+function parseEntity(source: string): MimeEntity {
+  const separator = source.match(/\r?\n\r?\n/);
+  const headerBlock = separator ? source.slice(0, separator.index) : source;
+  const body = separator ? source.slice(separator.index! + separator[0].length) : '';
+
+  const headers = new Map<string, string>();
+  // Long header values continue on lines that start with whitespace
+  for (const line of headerBlock.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const match = line.match(/^([!-9;-~]+):\s*(.*)$/);
+    if (match && !headers.has(match[1].toLowerCase())) {
+      headers.set(match[1].toLowerCase(), match[2]);
+    }
+  }
+
+  return { headers, body };
+}
+
+/**
+ * Text and HTML bodies of an entity, from every part that isn't an attachment
+ */
+function collectBodies(entity: MimeEntity, bodies: { plain: string[]; html: string[] }): void {
+  const contentType = entity.headers.get('content-type') || 'text/plain';
+  const mimeType = contentType.split(';')[0].trim().toLowerCase();
+
+  if (mimeType.startsWith('multipart/')) {
+    const boundary = contentType.match(/boundary\s*=\s*"?([^";]+)"?/i)?.[1];
+    if (!boundary) return;
+
+    const parts = entity.body.split(`--${boundary}`).slice(1);
+    for (const part of parts) {
+      if (part.startsWith('--')) break; // closing boundary
+      collectBodies(parseEntity(part.replace(/^\r?\n/, '')), bodies);
+    }
+    return;
+  }
+
+  if (/^\s*attachment/i.test(entity.headers.get('content-disposition') || '')) return;
+  if (mimeType !== 'text/plain' && mimeType !== 'text/html') return;
+
+  const text = decodeTransferEncoding(
+    entity.body,
+    entity.headers.get('content-transfer-encoding'),
+    getCharset(contentType)
+  );
+  (mimeType === 'text/html' ? bodies.html : bodies.plain).push(text.trim());
+}
+
+/**
+ * Parses message source as shown by "Show original" in Gmail or "View source" elsewhere.
+ * Returns null when the text doesn't start with mail headers.
+ */
+export function parseMimeMessage(source: string): MimeMessage | null {
+  const entity = parseEntity(source.replace(/^\s+/, ''));
+  const isMessage = (entity.headers.has('from') || entity.headers.has('subject')) &&
+    (entity.headers.has('content-type') || entity.headers.has('mime-version') || entity.headers.has('date'));
+  if (!isMessage || !entity.body) return null;
+
+  const bodies = { plain: [] as string[], html: [] as string[] };
+  collectBodies(entity, bodies);
+
+  return {
+    subject: decodeHeader(entity.headers.get('subject') || ''),
+    from: decodeHeader(entity.headers.get('from') || ''),
+    text: getNewMessage(mergeSegments(bodies.plain.some(Boolean)
+      ? bodies.plain.map(splitEmailText)
+      : bodies.html.map(splitHtmlEmail))),
+  };
+}
+
+/**
+ * The new message of an email, or the quotes when it is nothing else (a bare forward)
+ */
+function getNewMessage({ body, quoted }: EmailSegments): string {
+  return body || quoted;
+}
+
+/**
+ * Whether pasted text is a quoted-printable body: "=D7=A9=D7=9C=D7=95=D7=9D" or "=\n" soft breaks
+ */
+function isQuotedPrintable(text: string): boolean {
+  const escapes = text.match(/=[0-9A-F]{2}/g) || [];
+  return escapes.length >= 3 && /=\r?\n|=[89A-F][0-9A-F]/.test(text);
+}
+
+/**
+ * Decodes email text pasted by the user: the full message source, or a body still in
+ * quoted-printable. Quoted replies and the signature are left out.
+ */
+export function decodePastedEmail(text: string): MimeMessage {
+  const message = parseMimeMessage(text);
+  if (message) return message;
+
+  const decoded = isQuotedPrintable(text) ? decodeText(decodeQuotedPrintable(text)) : text;
+  return { subject: '', from: '', text: getNewMessage(splitEmailText(decoded)) || decoded };
+}
@@ -0,0 +1,219 @@
+import { ApplicationStatus, PipelineStage, StageCategory, StageColor } from './types';
+
+const STORAGE_KEY = 'pipeline_stages';
+
+export const DEFAULT_PIPELINE_STAGES: PipelineStage[] = [
+  { id: 'saved', label: 'Saved / Wishlist', order: 0, terminal: false, category: 'saved', color: 'muted' },
+  { id: 'applied', label: 'Applied', order: 1, terminal: false, category: 'applied', color: 'secondary', staleAfterDays: 21 },
+  { id: 'recruiter_screen', label: 'Recruiter Screen', order: 2, terminal: false, category: 'screening', color: 'blue', staleAfterDays: 10 },
+  { id: 'phone_screen', label: 'Phone Screen', order: 3, terminal: false, category: 'screening', color: 'blue', staleAfterDays: 10 },
+  { id: 'take_home', label: 'Take-Home', order: 4, terminal: false, category: 'assessment', color: 'purple', staleAfterDays: 14 },
+  { id: 'interview', label: 'Interview', order: 5, terminal: false, category: 'interview', color: 'primary', staleAfterDays: 10 },
+  { id: 'onsite', label: 'Onsite', order: 6, terminal: false, category: 'interview', color: 'primary', staleAfterDays: 10 },
+  { id: 'final_round', label: 'Final Round', order: 7, terminal: false, category: 'interview', color: 'primary', staleAfterDays: 10 },
+  { id: 'offer', label: 'Offer', order: 8, terminal: false, category: 'offer', color: 'accent' },
+  { id: 'offer_accepted', label: 'Offer Accepted', order: 9, terminal: true, category: 'accepted', color: 'green' },
+  { id: 'offer_declined', label: 'Offer Declined', order: 10, terminal: true, category: 'declined', color: 'orange' },
+  { id: 'rejected', label: 'Rejected', order: 11, terminal: true, category: 'rejected', color: 'destructive' },
+  { id: 'withdrawn', label: 'Withdrawn', order: 12, terminal: true, category: 'withdrawn', color: 'muted' },
+  { id: 'ghosted', label: 'Ghosted', order: 13, terminal: true, category: 'ghosted', color: 'yellow' },
+];
+
+export const stageCategoryLabels: Record<StageCategory, string> = {
+  saved: 'Saved',
+  applied: 'Applied',
+  screening: 'Screening',
+  assessment: 'Assessment',
+  interview: 'Interview',
+  offer: 'Offer',
+  accepted: 'Offer accepted',
+  declined: 'Offer declined',
+  rejected: 'Rejected',
+  withdrawn: 'Withdrawn',
+  ghosted: 'Ghosted',
+};
+
+export const stageColorClasses: Record<StageColor, string> = {
+  primary: 'bg-primary text-primary-foreground',
+  secondary: 'bg-secondary text-secondary-foreground',
+  accent: 'bg-accent text-accent-foreground',
+  destructive: 'bg-destructive text-destructive-foreground',
+  muted: 'bg-muted text-muted-foreground',
+  blue: 'bg-blue-100 text-blue-800',
+  green: 'bg-green-100 text-green-800',
+  yellow: 'bg-yellow-100 text-yellow-800',
+  purple: 'bg-purple-100 text-purple-800',
+  orange: 'bg-orange-100 text-orange-800',
+};
+
+/**
+ * Stage categories that count as an active interview process
+ */
+export const INTERVIEW_CATEGORIES: StageCategory[] = ['screening', 'assessment', 'interview'];
+
+/**
+ * Stage categories that count as having received an offer
+ */
+export const OFFER_CATEGORIES: StageCategory[] = ['offer', 'accepted', 'declined'];
+
+class PipelineManager {
+  private stages: PipelineStage[] = DEFAULT_PIPELINE_STAGES;
+  private listeners: Array<(stages: PipelineStage[]) => void> = [];
+
+  constructor() {
+    this.loadStages();
+  }
+
+  private loadStages() {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        const parsed: PipelineStage[] = JSON.parse(stored);
+        if (Array.isArray(parsed) && parsed.length > 0) {
+          this.stages = this.normalizeOrder(parsed);
+        }
+      }
+    } catch (error) {
+      console.error('Error loading pipeline stages:', error);
+    }
+  }
+
+  private normalizeOrder(stages: PipelineStage[]): PipelineStage[] {
+    return [...stages]
+      .sort((a, b) => a.order - b.order)
+      .map((stage, index) => ({ ...stage, order: index }));
+  }
+
+  /**
+   * Returns all stages sorted by pipeline order
+   */
+  getStages(): PipelineStage[] {
+    return [...this.stages];
+  }
+
+  getStage(id: ApplicationStatus): PipelineStage | undefined {
+    return this.stages.find(stage => stage.id === id);
+  }
+
+  getStageIds(): ApplicationStatus[] {
+    return this.stages.map(stage => stage.id);
+  }
+
+  getStagesInCategories(categories: StageCategory[]): PipelineStage[] {
+    return this.stages.filter(stage => categories.includes(stage.category));
+  }
+
+  getLabel(id: ApplicationStatus): string {
+    return this.getStage(id)?.label || id;
+  }
+
+  getColorClass(id: ApplicationStatus): string {
+    const stage = this.getStage(id);
+    return stage ? stageColorClasses[stage.color] : stageColorClasses.muted;
+  }
+
+  isTerminal(id: ApplicationStatus): boolean {
+    return this.getStage(id)?.terminal ?? false;
+  }
+
+  getDefaultStageId(): ApplicationStatus {
+    return this.resolveStageForCategory('applied');
+  }
+
+  /**
+   * Maps a detected category onto a concrete stage of the user's pipeline.
+   * Keeps the current stage when it already belongs to the category (so a second
+   * interview email doesn't move "Final Round" back to "Interview"), otherwise picks
+   * the first stage of that category after the current one.
+   */
+  resolveStageForCategory(category: StageCategory, currentStatus?: ApplicationStatus): ApplicationStatus {
+    const candidates = this.stages.filter(stage => stage.category === category);
+    if (candidates.length === 0) {
+      // Pipeline has no stage for this category - keep what we have
+      return currentStatus || this.stages[0]?.id || category;
+    }
+
+    const current = currentStatus ? this.getStage(currentStatus) : undefined;
+    if (current && current.category === category) {
+      return current.id;
+    }
+
+    const ahead = current ? candidates.find(stage => stage.order > current.order) : undefined;
+    return (ahead || candidates[0]).id;
+  }
+
+  /**
+   * A transition is valid when leaving a non-terminal stage, moving forward in the
+   * pipeline or into any terminal stage
+   */
+  isValidTransition(from: ApplicationStatus, to: ApplicationStatus): boolean {
+    const fromStage = this.getStage(from);
+    const toStage = this.getStage(to);
+    if (!fromStage || !toStage) return false;
+    if (fromStage.terminal) return false;
+
+    return toStage.terminal || toStage.order >= fromStage.order;
+  }
+
+  saveStages(stages: PipelineStage[]): void {
+    if (stages.length === 0) {
+      throw new Error('Pipeline must contain at least one stage');
+    }
+
+    const ids = new Set(stages.map(stage => stage.id));
+    if (ids.size !== stages.length) {
+      throw new Error('Pipeline stage ids must be unique');
+    }
+
+    this.stages = this.normalizeOrder(stages);
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.stages));
+    } catch (error) {
+      console.error('Error persisting pipeline stages:', error);
+    }
+    this.notifyListeners();
+  }
+
+  resetToDefaults(): void {
+    this.stages = DEFAULT_PIPELINE_STAGES;
+    localStorage.removeItem(STORAGE_KEY);
+    this.notifyListeners();
+  }
+
+  /**
+   * Creates a stage id from a label that doesn't collide with existing stages
+   */
+  createStageId(label: string, existing: PipelineStage[] = this.stages): ApplicationStatus {
+    const base = label.toLowerCase().trim().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'stage';
+    const ids = new Set(existing.map(stage => stage.id));
+    let id = base;
+    let suffix = 2;
+    while (ids.has(id)) {
+      id = `${base}_${suffix++}`;
+    }
+    return id;
+  }
+
+  subscribe(listener: (stages: PipelineStage[]) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  private notifyListeners() {
+    const stages = this.getStages();
+    this.listeners.forEach(listener => {
+      try {
+        listener(stages);
+      } catch (error) {
+        console.error('Error in pipeline listener:', error);
+      }
+    });
+  }
+}
+
+export const pipeline = new PipelineManager();
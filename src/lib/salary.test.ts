@@ -0,0 +1,65 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { parseSalary } from './salary';
+
+describe('parseSalary', () => {
+  it('reads a shekel monthly range in thousands', () => {
+    expect(parseSalary('₪35-40K/month')).toEqual({
+      min: 35000,
+      max: 40000,
+      currency: 'ILS',
+      period: 'month',
+      periodInferred: false,
+      components: ['base'],
+      raw: '₪35-40K/month',
+    });
+  });
+
+  it('infers a yearly period for a dollar amount and keeps the components', () => {
+    expect(parseSalary('$180k base + equity')).toEqual({
+      min: 180000,
+      max: 180000,
+      currency: 'USD',
+      period: 'year',
+      periodInferred: true,
+      components: ['base', 'equity'],
+      raw: '$180k base + equity',
+    });
+  });
+
+  it('reads a currency code after the amount', () => {
+    expect(parseSalary('120,000 EUR annually')).toMatchObject({
+      min: 120000,
+      currency: 'EUR',
+      period: 'year',
+      periodInferred: false,
+    });
+  });
+
+  it('reads Hebrew currency and period words', () => {
+    expect(parseSalary('30,000 ש"ח + בונוס')).toMatchObject({
+      min: 30000,
+      currency: 'ILS',
+      period: 'month',
+      periodInferred: true,
+      components: ['base', 'bonus'],
+    });
+    expect(parseSalary('20-25 אלף לחודש')).toMatchObject({
+      min: 20000,
+      max: 25000,
+      currency: undefined,
+      period: 'month',
+      periodInferred: false,
+    });
+  });
+
+  it('reads an hourly rate', () => {
+    expect(parseSalary('$45/hr')).toMatchObject({ min: 45, max: 45, currency: 'USD', period: 'hour' });
+  });
+
+  it('returns null for text without a salary', () => {
+    expect(parseSalary('Notice period 2 weeks')).toBeNull();
+    expect(parseSalary('')).toBeNull();
+    expect(parseSalary()).toBeNull();
+  });
+});
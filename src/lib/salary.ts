@@ -0,0 +1,262 @@
+import { JobApplication } from './types';
+
+const SETTINGS_KEY = 'salary_settings';
+
+export type SalaryPeriod = 'hour' | 'day' | 'month' | 'year';
+
+export type SalaryComponent = 'base' | 'bonus' | 'equity' | 'commission' | 'signing' | 'benefits';
+
+export interface ParsedSalary {
+  min: number;
+  max: number;
+  currency?: string; // ISO code, undefined when the text doesn't say
+  period: SalaryPeriod;
+  periodInferred: boolean; // true when the period was guessed from the amount
+  components: SalaryComponent[];
+  raw: string;
+}
+
+export interface SalarySettings {
+  baseCurrency: string;
+  // Value of one unit of each currency in the base currency
+  exchangeRates: Record<string, number>;
+}
+
+const DEFAULT_SETTINGS: SalarySettings = {
+  baseCurrency: 'ILS',
+  exchangeRates: {
+    ILS: 1,
+    USD: 3.7,
+    EUR: 4.0,
+    GBP: 4.7,
+  },
+};
+
+const PERIODS_PER_YEAR: Record<SalaryPeriod, number> = {
+  hour: 2080,
+  day: 260,
+  month: 12,
+  year: 1,
+};
+
+export const salaryPeriodLabels: Record<SalaryPeriod, string> = {
+  hour: 'hr',
+  day: 'day',
+  month: 'mo',
+  year: 'yr',
+};
+
+const CURRENCY_PATTERNS: Array<{ code: string; pattern: RegExp }> = [
+  { code: 'ILS', pattern: /₪|\bnis\b|\bils\b|ש["״]?ח|שקל/i },
+  { code: 'USD', pattern: /\$|\busd\b|dollars?/i },
+  { code: 'EUR', pattern: /€|\beur\b|euros?/i },
+  { code: 'GBP', pattern: /£|\bgbp\b|pounds?/i },
+];
+
+const PERIOD_PATTERNS: Array<{ period: SalaryPeriod; pattern: RegExp }> = [
+  { period: 'hour', pattern: /\/\s*h(ou)?r\b|per hour|hourly|an hour|לשעה/i },
+  { period: 'day', pattern: /\/\s*day\b|per day|daily|a day|ליום/i },
+  { period: 'month', pattern: /\/\s*mo(nth)?\b|per month|monthly|a month|לחודש|חודשי/i },
+  { period: 'year', pattern: /\/\s*y(ea)?r\b|per year|yearly|annual(ly)?|a year|per annum|\bp\.?a\.?\b|לשנה|שנתי/i },
+];
+
+const COMPONENT_PATTERNS: Array<{ component: SalaryComponent; pattern: RegExp }> = [
+  { component: 'signing', pattern: /sign(ing|-on)\s*bonus|מענק חתימה/i },
+  { component: 'bonus', pattern: /bonus|בונוס/i },
+  { component: 'equity', pattern: /equity|stock|rsus?\b|options|shares|אופציות|מניות/i },
+  { component: 'commission', pattern: /commission|עמלות/i },
+  { component: 'benefits', pattern: /benefits|perks|הטבות/i },
+];
+
+const MULTIPLIERS: Record<string, number> = {
+  k: 1_000,
+  thousand: 1_000,
+  'אלף': 1_000,
+  m: 1_000_000,
+  million: 1_000_000,
+};
+
+// A number with an optional thousands/millions suffix, not followed by a percent sign
+const AMOUNT_PATTERN = /(\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?)\s*(k|thousand|אלף|m(?:illion)?)?(?![a-z\d])(?!\s*%)/gi;
+const RANGE_SEPARATOR = /^\s*(?:-|–|—|to|until|עד)\s*[$€£₪]?\s*$/i;
+
+/**
+ * Parses free-text compensation like "₪35-40K/month", "$180k base + equity" or
+ * "120,000 EUR annually". Returns null when no amount is found.
+ */
+export function parseSalary(text?: string): ParsedSalary | null {
+  if (!text?.trim()) return null;
+
+  const amounts: Array<{ value: number; hasMultiplier: boolean; start: number; end: number }> = [];
+  for (const match of text.matchAll(AMOUNT_PATTERN)) {
+    const suffix = match[2]?.toLowerCase();
+    const multiplier = suffix ? MULTIPLIERS[suffix] : 1;
+    const value = parseFloat(match[1].replace(/,/g, '')) * multiplier;
+    const start = match.index ?? 0;
+
+    amounts.push({ value, hasMultiplier: !!suffix, start, end: start + match[0].length });
+  }
+
+  // Ignore stray small numbers such as "2 weeks" unless they look like an hourly rate
+  const meaningful = amounts.filter(amount => amount.value >= 10);
+  if (meaningful.length === 0) return null;
+
+  const first = meaningful[0];
+  let min = first.value;
+  let max = first.value;
+
+  const second = meaningful[1];
+  if (second && RANGE_SEPARATOR.test(text.slice(first.end, second.start))) {
+    max = second.value;
+    // "35-40K" - the suffix on the upper bound applies to the lower bound too
+    if (!first.hasMultiplier && second.hasMultiplier && first.value * 1000 <= second.value * 2) {
+      min = first.value * (second.value >= 1_000_000 ? 1_000_000 : 1_000);
+    }
+  }
+
+  if (min > max) {
+    [min, max] = [max, min];
+  }
+
+  const currency = CURRENCY_PATTERNS.find(({ pattern }) => pattern.test(text))?.code;
+  const explicitPeriod = PERIOD_PATTERNS.find(({ pattern }) => pattern.test(text))?.period;
+
+  const components = COMPONENT_PATTERNS
+    .filter(({ pattern }) => pattern.test(text))
+    .map(({ component }) => component);
+  // "bonus" also matches "signing bonus"
+  const hasPlainBonus = /bonus|בונוס/i.test(text.replace(/sign(ing|-on)\s*bonus/gi, ''));
+
+  return {
+    min,
+    max,
+    currency,
+    period: explicitPeriod || inferPeriod(max, currency),
+    periodInferred: !explicitPeriod,
+    components: [
+      'base' as const,
+      ...components.filter(component => component !== 'bonus' || hasPlainBonus),
+    ],
+    raw: text,
+  };
+}
+
+/**
+ * Guesses the pay period from the size of the amount. Shekel salaries are
+ * usually quoted per month, other currencies per year.
+ */
+function inferPeriod(amount: number, currency?: string): SalaryPeriod {
+  if (amount < 500) return 'hour';
+  if (amount < 100_000 && (currency === 'ILS' || !currency)) return 'month';
+  if (amount < 20_000) return 'month';
+  return 'year';
+}
+
+class SalaryNormalizer {
+  private settings: SalarySettings = DEFAULT_SETTINGS;
+  private listeners: Array<(settings: SalarySettings) => void> = [];
+
+  constructor() {
+    this.loadSettings();
+  }
+
+  private loadSettings() {
+    try {
+      const stored = localStorage.getItem(SETTINGS_KEY);
+      if (stored) {
+        const parsed = JSON.parse(stored);
+        this.settings = {
+          ...DEFAULT_SETTINGS,
+          ...parsed,
+          exchangeRates: { ...DEFAULT_SETTINGS.exchangeRates, ...parsed.exchangeRates },
+        };
+      }
+    } catch (error) {
+      console.error('Error loading salary settings:', error);
+    }
+  }
+
+  getSettings(): SalarySettings {
+    return { ...this.settings, exchangeRates: { ...this.settings.exchangeRates } };
+  }
+
+  updateSettings(updates: Partial<SalarySettings>): void {
+    this.settings = { ...this.settings, ...updates };
+    try {
+      localStorage.setItem(SETTINGS_KEY, JSON.stringify(this.settings));
+    } catch (error) {
+      console.error('Error persisting salary settings:', error);
+    }
+    this.listeners.forEach(listener => listener(this.getSettings()));
+  }
+
+  /**
+   * Switches the base currency and rebases the exchange-rate table onto it
+   */
+  setBaseCurrency(currency: string): void {
+    const rate = this.settings.exchangeRates[currency];
+    if (!rate) {
+      throw new Error(`No exchange rate configured for ${currency}`);
+    }
+
+    const exchangeRates = Object.fromEntries(
+      Object.entries(this.settings.exchangeRates).map(([code, value]) => [code, value / rate])
+    );
+    this.updateSettings({ baseCurrency: currency, exchangeRates });
+  }
+
+  resetToDefaults(): void {
+    localStorage.removeItem(SETTINGS_KEY);
+    this.settings = DEFAULT_SETTINGS;
+    this.listeners.forEach(listener => listener(this.getSettings()));
+  }
+
+  subscribe(listener: (settings: SalarySettings) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Converts a parsed salary to a yearly range in the base currency.
+   * Returns null when the currency has no configured exchange rate.
+   */
+  toAnnual(salary: ParsedSalary): { min: number; max: number } | null {
+    const currency = salary.currency || this.settings.baseCurrency;
+    const rate = currency === this.settings.baseCurrency ? 1 : this.settings.exchangeRates[currency];
+    if (!rate) return null;
+
+    const factor = PERIODS_PER_YEAR[salary.period] * rate;
+    return { min: salary.min * factor, max: salary.max * factor };
+  }
+
+  /**
+   * Annualized salary of an application in the base currency, or null when it can't be parsed
+   */
+  getAnnualSalary(application: JobApplication): { min: number; max: number } | null {
+    const parsed = parseSalary(application.salary);
+    return parsed ? this.toAnnual(parsed) : null;
+  }
+
+  /**
+   * Formats an amount in the base currency, e.g. "₪444K"
+   */
+  formatAmount(amount: number): string {
+    try {
+      return new Intl.NumberFormat('en', {
+        style: 'currency',
+        currency: this.settings.baseCurrency,
+        notation: 'compact',
+        maximumFractionDigits: 1,
+      }).format(amount);
+    } catch {
+      return `${Math.round(amount).toLocaleString()} ${this.settings.baseCurrency}`;
+    }
+  }
+}
+
+export const salaryNormalizer = new SalaryNormalizer();
@@ -0,0 +1,230 @@
+const DB_NAME = 'job-tracker';
+
+export const STORES = {
+  applications: 'applications',
+  reviewQueue: 'reviewQueue',
+  meta: 'meta', // key-value records such as the last sync result
+  trash: 'trash',
+  auditLog: 'auditLog',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+// localStorage keys used before the data moved to IndexedDB
+const LEGACY_KEYS = {
+  applications: 'job-applications',
+  reviewQueue: 'gmail_review_queue',
+  lastSync: 'gmail_last_sync',
+};
+export const LAST_SYNC_KEY = 'lastSyncResult';
+export const GMAIL_HISTORY_KEY = 'gmailHistory';
+const LEGACY_IMPORTED_KEY = 'legacyImportedAt';
+// Moved by migration 2
+const LEGACY_TRASH_KEY = 'application_trash';
+const LEGACY_AUDIT_LOG_KEY = 'application_audit_log';
+
+function readLegacyJson<T>(key: string): T | undefined {
+  const stored = localStorage.getItem(key);
+  return stored ? JSON.parse(stored) : undefined;
+}
+
+/**
+ * A legacy list for a migration. Unreadable data is skipped, since an error would keep the
+ * database from opening at all.
+ */
+function readLegacyList<T>(key: string): T[] {
+  try {
+    const stored = readLegacyJson<T[]>(key);
+    return Array.isArray(stored) ? stored.filter(Boolean) : [];
+  } catch (error) {
+    console.error(`Skipping unreadable ${key} from localStorage:`, error);
+    return [];
+  }
+}
+
+/**
+ * A forward-only schema change. `upgrade` runs inside the versionchange transaction,
+ * so it can create stores and indexes and rewrite existing records.
+ */
+interface Migration {
+  version: number;
+  description: string;
+  upgrade: (db: IDBDatabase, transaction: IDBTransaction) => void;
+}
+
+// Append new migrations at the end with the next version number; never edit released ones
+const migrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Stores for applications, the Gmail review queue and sync metadata',
+    upgrade: (db) => {
+      const applications = db.createObjectStore(STORES.applications, { keyPath: 'id' });
+      applications.createIndex('status', 'status');
+      applications.createIndex('companyId', 'companyId');
+      db.createObjectStore(STORES.reviewQueue, { keyPath: 'id' });
+      db.createObjectStore(STORES.meta);
+    },
+  },
+  {
+    version: 2,
+    description: 'Stores for the trash and the audit log, imported from localStorage',
+    upgrade: (db, transaction) => {
+      const trash = db.createObjectStore(STORES.trash, { keyPath: 'application.id' });
+      trash.createIndex('deletedAt', 'deletedAt');
+      const auditLog = db.createObjectStore(STORES.auditLog, { keyPath: 'id' });
+      auditLog.createIndex('applicationId', 'applicationId');
+
+      // Records without a key would abort the upgrade, so they are dropped
+      const trashItems = readLegacyList<{ application?: { id?: string } }>(LEGACY_TRASH_KEY)
+        .filter(item => item.application?.id);
+      const auditEntries = readLegacyList<{ id?: string }>(LEGACY_AUDIT_LOG_KEY).filter(entry => entry.id);
+      trashItems.forEach(item => trash.put(item));
+      auditEntries.forEach(entry => auditLog.put(entry));
+
+      // The keys go only once the records are committed; an aborted upgrade runs again
+      transaction.addEventListener('complete', () => {
+        localStorage.removeItem(LEGACY_TRASH_KEY);
+        localStorage.removeItem(LEGACY_AUDIT_LOG_KEY);
+        console.log(`Imported ${trashItems.length} trash items and ${auditEntries.length} audit entries from localStorage`);
+      });
+    },
+  },
+];
+
+export const SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+/**
+ * Wraps an IndexedDB request in a promise
+ */
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolves when a transaction commits
+ */
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+  });
+}
+
+function runMigrations(db: IDBDatabase, transaction: IDBTransaction, oldVersion: number) {
+  for (const migration of migrations) {
+    if (migration.version > oldVersion) {
+      console.log(`Migrating database to v${migration.version}: ${migration.description}`);
+      migration.upgrade(db, transaction);
+    }
+  }
+}
+
+/**
+ * Copies one legacy localStorage key into a store and frees the key. A key that fails is
+ * logged and left in localStorage, so its data is not lost.
+ */
+async function importLegacyKey(
+  db: IDBDatabase,
+  key: string,
+  storeName: string,
+  write: (store: IDBObjectStore, value: unknown) => void
+): Promise<boolean> {
+  try {
+    const value = readLegacyJson<unknown>(key);
+    if (value !== undefined) {
+      const transaction = db.transaction(storeName, 'readwrite');
+      const done = transactionDone(transaction);
+      try {
+        write(transaction.objectStore(storeName), value);
+      } catch (error) {
+        // Don't let the puts made before the error commit
+        transaction.abort();
+        done.catch(() => {});
+        throw error;
+      }
+      await done;
+    }
+    localStorage.removeItem(key);
+    return true;
+  } catch (error) {
+    console.error(`Error importing ${key} from localStorage:`, error);
+    return false;
+  }
+}
+
+/**
+ * Copies data from the old localStorage keys into the database once, then frees the keys.
+ * The import is marked done even when a key fails, so a bad key doesn't fail every startup.
+ */
+async function importLegacyData(db: IDBDatabase): Promise<void> {
+  const metaStore = db.transaction(STORES.meta, 'readonly').objectStore(STORES.meta);
+  if (await promisifyRequest(metaStore.get(LEGACY_IMPORTED_KEY))) return;
+
+  const putAll = (store: IDBObjectStore, value: unknown) => {
+    if (!Array.isArray(value)) throw new Error('Expected a list');
+    value.filter(Boolean).forEach(item => store.put(item));
+  };
+
+  const imported = [
+    await importLegacyKey(db, LEGACY_KEYS.applications, STORES.applications, putAll),
+    await importLegacyKey(db, LEGACY_KEYS.reviewQueue, STORES.reviewQueue, putAll),
+    await importLegacyKey(db, LEGACY_KEYS.lastSync, STORES.meta, (store, value) => {
+      if (value) store.put(value, LAST_SYNC_KEY);
+    }),
+  ];
+
+  const transaction = db.transaction(STORES.meta, 'readwrite');
+  transaction.objectStore(STORES.meta).put(new Date().toISOString(), LEGACY_IMPORTED_KEY);
+  await transactionDone(transaction);
+
+  const failed = imported.filter(ok => !ok).length;
+  console.log(`Imported data from localStorage${failed > 0 ? `, ${failed} key(s) failed and were kept` : ''}`);
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens the database, running pending migrations and the one-time localStorage import
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, SCHEMA_VERSION);
+      request.onupgradeneeded = (event) => {
+        runMigrations(request.result, request.transaction!, event.oldVersion);
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let a newer version of the app in another tab upgrade the schema
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => console.warn('Database upgrade blocked by another open tab');
+    }).then(async db => {
+      try {
+        await importLegacyData(db);
+      } catch (error) {
+        console.error('Error importing data from localStorage:', error);
+      }
+      return db;
+    });
+
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
@@ -0,0 +1,118 @@
+import { JobApplication } from '../types';
+import { ReviewQueueItem, SyncResult } from '../gmail/SyncScheduler';
+import { GmailHistoryCheckpoint } from '../gmail/GmailService';
+import { TrashItem } from '../trash';
+import { AuditEntry } from '../audit-log';
+import { openDatabase, promisifyRequest, transactionDone, STORES, StoreName, LAST_SYNC_KEY, GMAIL_HISTORY_KEY } from './database';
+
+/**
+ * Async CRUD over one object store whose records carry their own key (`id` unless the
+ * store says otherwise)
+ */
+class Repository<T> {
+  constructor(private storeName: StoreName) {}
+
+  private async transaction(mode: IDBTransactionMode): Promise<IDBTransaction> {
+    const db = await openDatabase();
+    return db.transaction(this.storeName, mode);
+  }
+
+  async getAll(): Promise<T[]> {
+    const transaction = await this.transaction('readonly');
+    return promisifyRequest<T[]>(transaction.objectStore(this.storeName).getAll());
+  }
+
+  async get(id: string): Promise<T | undefined> {
+    const transaction = await this.transaction('readonly');
+    return promisifyRequest<T | undefined>(transaction.objectStore(this.storeName).get(id));
+  }
+
+  /**
+   * Inserts or replaces records in a single transaction
+   */
+  async put(records: T[]): Promise<void> {
+    if (records.length === 0) return;
+    const transaction = await this.transaction('readwrite');
+    const store = transaction.objectStore(this.storeName);
+    records.forEach(record => store.put(record));
+    await transactionDone(transaction);
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const transaction = await this.transaction('readwrite');
+    const store = transaction.objectStore(this.storeName);
+    ids.forEach(id => store.delete(id));
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Replaces the whole store with `records` atomically
+   */
+  async replaceAll(records: T[]): Promise<void> {
+    const transaction = await this.transaction('readwrite');
+    const store = transaction.objectStore(this.storeName);
+    store.clear();
+    records.forEach(record => store.put(record));
+    await transactionDone(transaction);
+  }
+
+  async clear(): Promise<void> {
+    await this.replaceAll([]);
+  }
+}
+
+/**
+ * Key-value records that don't belong to a collection
+ */
+class MetaRepository {
+  async get<T>(key: string): Promise<T | undefined> {
+    const db = await openDatabase();
+    const store = db.transaction(STORES.meta, 'readonly').objectStore(STORES.meta);
+    return promisifyRequest<T | undefined>(store.get(key));
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.meta, 'readwrite');
+    transaction.objectStore(STORES.meta).put(value, key);
+    await transactionDone(transaction);
+  }
+
+  async delete(key: string): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.meta, 'readwrite');
+    transaction.objectStore(STORES.meta).delete(key);
+    await transactionDone(transaction);
+  }
+
+  getLastSyncResult(): Promise<SyncResult | undefined> {
+    return this.get<SyncResult>(LAST_SYNC_KEY);
+  }
+
+  setLastSyncResult(result: SyncResult): Promise<void> {
+    return this.set(LAST_SYNC_KEY, result);
+  }
+
+  clearLastSyncResult(): Promise<void> {
+    return this.delete(LAST_SYNC_KEY);
+  }
+
+  getGmailHistory(): Promise<GmailHistoryCheckpoint | undefined> {
+    return this.get<GmailHistoryCheckpoint>(GMAIL_HISTORY_KEY);
+  }
+
+  setGmailHistory(checkpoint: GmailHistoryCheckpoint): Promise<void> {
+    return this.set(GMAIL_HISTORY_KEY, checkpoint);
+  }
+
+  clearGmailHistory(): Promise<void> {
+    return this.delete(GMAIL_HISTORY_KEY);
+  }
+}
+
+export const applicationRepository = new Repository<JobApplication>(STORES.applications);
+export const reviewQueueRepository = new Repository<ReviewQueueItem>(STORES.reviewQueue);
+export const trashRepository = new Repository<TrashItem>(STORES.trash);
+export const auditLogRepository = new Repository<AuditEntry>(STORES.auditLog);
+export const metaRepository = new MetaRepository();
@@ -0,0 +1,293 @@
+import { ApplicationStatus, ApplicationTask, JobApplication, StageCategory } from './types';
+import { aiStatusDetector } from './ai-status-detector';
+import { pipeline } from './pipeline';
+
+const SETTINGS_KEY = 'task_reminder_settings';
+const NOTIFIED_KEY = 'task_reminders_notified';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TaskReminderSettings {
+  suggestTasks: boolean; // add a follow-up task when an application changes stage
+  browserNotifications: boolean; // also show reminders through the Notification API
+}
+
+export interface DueTask {
+  application: JobApplication;
+  task: ApplicationTask;
+  dueAt: string;
+}
+
+const DEFAULT_SETTINGS: TaskReminderSettings = {
+  suggestTasks: true,
+  browserNotifications: false,
+};
+
+// Days until a suggested task is due, per stage category. Categories without an
+// entry (rejected, withdrawn) don't get a suggested task.
+const SUGGESTION_DUE_DAYS: Partial<Record<StageCategory, number>> = {
+  saved: 3,
+  applied: 7,
+  screening: 1,
+  assessment: 2,
+  interview: 1,
+  offer: 2,
+  accepted: 7,
+  declined: 1,
+  ghosted: 3,
+};
+
+export const snoozeOptions: Array<{ label: string; ms: number }> = [
+  { label: '1 hour', ms: 60 * 60 * 1000 },
+  { label: '1 day', ms: DAY_MS },
+  { label: '3 days', ms: 3 * DAY_MS },
+  { label: '1 week', ms: 7 * DAY_MS },
+];
+
+function generateTaskId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).substr(2);
+}
+
+export function createTask(
+  data: Partial<ApplicationTask> & { title: string }
+): ApplicationTask {
+  const now = new Date().toISOString();
+  return {
+    source: 'manual',
+    ...data,
+    id: generateTaskId(),
+    title: data.title.trim(),
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export function updateTask(task: ApplicationTask, updates: Partial<ApplicationTask>): ApplicationTask {
+  return { ...task, ...updates, updatedAt: new Date().toISOString() };
+}
+
+export function isTaskOpen(task: ApplicationTask): boolean {
+  return !task.completedAt;
+}
+
+/**
+ * When the task should remind the user - the snooze time if snoozed, otherwise the due date
+ */
+export function getTaskDueAt(task: ApplicationTask): string | undefined {
+  return task.snoozedUntil || task.dueDate;
+}
+
+export function isTaskOverdue(task: ApplicationTask, now: Date = new Date()): boolean {
+  const dueAt = getTaskDueAt(task);
+  return isTaskOpen(task) && !!dueAt && new Date(dueAt).getTime() <= now.getTime();
+}
+
+export function completeTask(task: ApplicationTask): ApplicationTask {
+  return updateTask(task, { completedAt: new Date().toISOString() });
+}
+
+export function reopenTask(task: ApplicationTask): ApplicationTask {
+  return updateTask(task, { completedAt: undefined });
+}
+
+export function snoozeTask(task: ApplicationTask, ms: number, now: Date = new Date()): ApplicationTask {
+  return updateTask(task, { snoozedUntil: new Date(now.getTime() + ms).toISOString() });
+}
+
+/**
+ * Open tasks first (soonest due first, undated last), then completed ones
+ */
+export function sortTasks(tasks: ApplicationTask[] = []): ApplicationTask[] {
+  const dueTime = (task: ApplicationTask) => {
+    const dueAt = getTaskDueAt(task);
+    return dueAt ? new Date(dueAt).getTime() : Infinity;
+  };
+
+  return [...tasks].sort((a, b) => {
+    if (isTaskOpen(a) !== isTaskOpen(b)) return isTaskOpen(a) ? -1 : 1;
+    if (!isTaskOpen(a)) return (b.completedAt || '').localeCompare(a.completedAt || '');
+    return dueTime(a) - dueTime(b);
+  });
+}
+
+/**
+ * Builds the follow-up task for an application that moved to the given stage.
+ * Uses the next action suggested by the email analysis when there is one.
+ */
+export function suggestTaskForStatus(
+  status: ApplicationStatus,
+  suggestedNextAction?: string,
+  now: Date = new Date()
+): ApplicationTask | null {
+  const stage = pipeline.getStage(status);
+  if (!stage) return null;
+
+  const dueInDays = SUGGESTION_DUE_DAYS[stage.category];
+  if (dueInDays === undefined) return null;
+
+  return createTask({
+    title: suggestedNextAction?.trim() || aiStatusDetector.getSuggestedAction(stage.category),
+    dueDate: new Date(now.getTime() + dueInDays * DAY_MS).toISOString(),
+    source: 'suggested',
+    suggestedForStatus: status,
+  });
+}
+
+/**
+ * Adds the suggested task for a stage change, unless suggestions are disabled or an
+ * open task was already suggested for that stage. Open suggestions for earlier stages
+ * are dropped since they no longer apply; manual tasks are always kept.
+ */
+export function addSuggestedTask(
+  tasks: ApplicationTask[] = [],
+  status: ApplicationStatus,
+  suggestedNextAction?: string
+): ApplicationTask[] {
+  if (!taskReminder.getSettings().suggestTasks) return tasks;
+  if (tasks.some(task => isTaskOpen(task) && task.suggestedForStatus === status)) return tasks;
+
+  const suggestion = suggestTaskForStatus(status, suggestedNextAction);
+  const remaining = tasks.filter(task => task.source !== 'suggested' || !isTaskOpen(task));
+  return suggestion ? [...remaining, suggestion] : remaining;
+}
+
+/**
+ * Open tasks across all applications that are due, soonest first
+ */
+export function getDueTasks(applications: JobApplication[], now: Date = new Date()): DueTask[] {
+  const due: DueTask[] = [];
+
+  for (const application of applications) {
+    for (const task of application.tasks || []) {
+      if (isTaskOverdue(task, now)) {
+        due.push({ application, task, dueAt: getTaskDueAt(task)! });
+      }
+    }
+  }
+
+  return due.sort((a, b) => new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime());
+}
+
+/**
+ * Replaces one task of an application, returning the updated application list
+ */
+export function replaceTask(
+  applications: JobApplication[],
+  applicationId: string,
+  task: ApplicationTask
+): JobApplication[] {
+  return applications.map(application => application.id !== applicationId ? application : {
+    ...application,
+    tasks: (application.tasks || []).map(item => item.id === task.id ? task : item),
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+class TaskReminder {
+  private settings: TaskReminderSettings = DEFAULT_SETTINGS;
+  private listeners: Array<(settings: TaskReminderSettings) => void> = [];
+  // "taskId@dueAt" keys, so snoozing or rescheduling a task reminds again
+  private notified = new Set<string>();
+
+  constructor() {
+    this.loadSettings();
+  }
+
+  private loadSettings() {
+    try {
+      const stored = localStorage.getItem(SETTINGS_KEY);
+      if (stored) {
+        this.settings = { ...DEFAULT_SETTINGS, ...JSON.parse(stored) };
+      }
+      const notified = localStorage.getItem(NOTIFIED_KEY);
+      if (notified) {
+        this.notified = new Set(JSON.parse(notified));
+      }
+    } catch (error) {
+      console.error('Error loading task reminder settings:', error);
+    }
+  }
+
+  getSettings(): TaskReminderSettings {
+    return { ...this.settings };
+  }
+
+  updateSettings(updates: Partial<TaskReminderSettings>): void {
+    this.settings = { ...this.settings, ...updates };
+    try {
+      localStorage.setItem(SETTINGS_KEY, JSON.stringify(this.settings));
+    } catch (error) {
+      console.error('Error persisting task reminder settings:', error);
+    }
+    this.listeners.forEach(listener => listener(this.getSettings()));
+  }
+
+  subscribe(listener: (settings: TaskReminderSettings) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  isNotificationSupported(): boolean {
+    return typeof window !== 'undefined' && 'Notification' in window;
+  }
+
+  /**
+   * Asks for browser notification permission and enables notifications when granted
+   */
+  async enableBrowserNotifications(): Promise<boolean> {
+    if (!this.isNotificationSupported()) return false;
+
+    const permission = Notification.permission === 'granted'
+      ? 'granted'
+      : await Notification.requestPermission();
+    this.updateSettings({ browserNotifications: permission === 'granted' });
+    return permission === 'granted';
+  }
+
+  /**
+   * Returns due tasks that haven't been reminded about yet and marks them as reminded.
+   * Shows a browser notification for each when enabled; in-app reminders are up to the caller.
+   */
+  collectReminders(applications: JobApplication[], now: Date = new Date()): DueTask[] {
+    const pending = getDueTasks(applications, now)
+      .filter(({ task, dueAt }) => !this.notified.has(`${task.id}@${dueAt}`));
+    if (pending.length === 0) return [];
+
+    pending.forEach(({ task, dueAt }) => this.notified.add(`${task.id}@${dueAt}`));
+    this.persistNotified(applications);
+
+    if (this.settings.browserNotifications && this.isNotificationSupported() && Notification.permission === 'granted') {
+      for (const { application, task } of pending) {
+        try {
+          new Notification(task.title, {
+            body: `${application.position} at ${application.company}`,
+            tag: task.id,
+          });
+        } catch (error) {
+          console.warn('Failed to show task notification:', error);
+        }
+      }
+    }
+
+    return pending;
+  }
+
+  /**
+   * Stores the reminded keys, dropping ones for tasks that no longer exist
+   */
+  private persistNotified(applications: JobApplication[]) {
+    const taskIds = new Set(applications.flatMap(application => (application.tasks || []).map(task => task.id)));
+    this.notified = new Set([...this.notified].filter(key => taskIds.has(key.split('@')[0])));
+    try {
+      localStorage.setItem(NOTIFIED_KEY, JSON.stringify([...this.notified]));
+    } catch (error) {
+      console.error('Error persisting task reminders:', error);
+    }
+  }
+}
+
+export const taskReminder = new TaskReminder();
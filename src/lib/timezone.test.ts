@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { utcToZonedTime, zonedTimeToUtc } from './timezone';
+
+describe('zonedTimeToUtc', () => {
+  it('applies the offset in effect on the given date', () => {
+    expect(zonedTimeToUtc('2024-01-15', '14:00', 'Asia/Jerusalem')).toBe('2024-01-15T12:00:00.000Z');
+    expect(zonedTimeToUtc('2024-07-15', '14:00', 'Asia/Jerusalem')).toBe('2024-07-15T11:00:00.000Z');
+  });
+
+  it('picks the first occurrence of a repeated hour when clocks go back', () => {
+    expect(zonedTimeToUtc('2024-11-03', '01:30', 'America/New_York')).toBe('2024-11-03T05:30:00.000Z');
+  });
+});
+
+describe('utcToZonedTime', () => {
+  it('is the inverse of zonedTimeToUtc', () => {
+    expect(utcToZonedTime('2024-07-15T11:00:00.000Z', 'Asia/Jerusalem')).toEqual({ date: '2024-07-15', time: '14:00' });
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Wall-clock conversions for IANA time zones, built on Intl so no time zone data is bundled
+ */
+import syncSettings from '../config/sync-settings.json';
+
+export const DEFAULT_TIMEZONE = syncSettings.syncSchedule.timezone;
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0');
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Offset of a time zone from UTC in minutes at the given instant
+ */
+function getTimeZoneOffset(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(instant));
+
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return Math.round((asUtc - instant) / 60000);
+}
+
+/**
+ * Converts a wall-clock date ("2024-01-15") and time ("14:00") in a time zone to an ISO instant
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+
+  const offset = getTimeZoneOffset(guess, timeZone);
+  let instant = guess - offset * 60000;
+  // Second pass in case the first guess landed on the other side of a DST change
+  const corrected = getTimeZoneOffset(instant, timeZone);
+  if (corrected !== offset) {
+    instant = guess - corrected * 60000;
+  }
+
+  return new Date(instant).toISOString();
+}
+
+/**
+ * Splits an ISO instant into the wall-clock date and time of a time zone
+ */
+export function utcToZonedTime(iso: string, timeZone: string): { date: string; time: string } {
+  const instant = new Date(iso).getTime();
+  const local = new Date(instant + getTimeZoneOffset(instant, timeZone) * 60000);
+  return {
+    date: `${local.getUTCFullYear()}-${pad(local.getUTCMonth() + 1)}-${pad(local.getUTCDate())}`,
+    time: `${pad(local.getUTCHours())}:${pad(local.getUTCMinutes())}`,
+  };
+}
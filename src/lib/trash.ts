@@ -0,0 +1,125 @@
+import { JobApplication } from './types';
+import { trashRepository } from './storage/repositories';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const TRASH_RETENTION_DAYS = 30;
+
+export interface TrashItem {
+  application: JobApplication;
+  deletedAt: string;
+}
+
+class ApplicationTrash {
+  private items: TrashItem[] = [];
+  private listeners: Array<(items: TrashItem[]) => void> = [];
+  private loaded: Promise<void>;
+
+  constructor() {
+    this.loaded = this.loadItems();
+  }
+
+  private async loadItems() {
+    try {
+      const stored = await trashRepository.getAll();
+      // Keep anything trashed while the database was loading
+      const trashedIds = new Set(this.items.map(item => item.application.id));
+      this.items = [...stored.filter(item => !trashedIds.has(item.application.id)), ...this.items];
+      this.notifyListeners();
+      this.purgeExpired();
+    } catch (error) {
+      console.error('Error loading trash:', error);
+    }
+  }
+
+  /**
+   * Resolves once the trash is loaded from the database
+   */
+  ready(): Promise<void> {
+    return this.loaded;
+  }
+
+  private persist(write: Promise<void>) {
+    write.catch(error => {
+      console.error('Error persisting trash:', error);
+    });
+    this.notifyListeners();
+  }
+
+  private notifyListeners() {
+    this.listeners.forEach(listener => listener(this.getItems()));
+  }
+
+  /**
+   * Returns trashed applications, most recently deleted first
+   */
+  getItems(): TrashItem[] {
+    return [...this.items].sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+  }
+
+  /**
+   * Days until an item is purged, rounded up
+   */
+  getDaysLeft(item: TrashItem, now: Date = new Date()): number {
+    const expiresAt = new Date(item.deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY_MS;
+    return Math.max(0, Math.ceil((expiresAt - now.getTime()) / DAY_MS));
+  }
+
+  add(applications: JobApplication[]): void {
+    if (applications.length === 0) return;
+
+    const ids = new Set(applications.map(application => application.id));
+    const deletedAt = new Date().toISOString();
+    const added = applications.map(application => ({ application, deletedAt }));
+    this.items = [...this.items.filter(item => !ids.has(item.application.id)), ...added];
+    this.persist(trashRepository.put(added));
+  }
+
+  /**
+   * Removes items from the trash (when restored or deleted for good)
+   */
+  remove(ids: string[]): void {
+    if (ids.length === 0) return;
+
+    // Deleted from the database even when not loaded yet
+    const idSet = new Set(ids);
+    this.items = this.items.filter(item => !idSet.has(item.application.id));
+    this.persist(trashRepository.delete(ids));
+  }
+
+  /**
+   * Replaces the whole trash, e.g. with the one from a backup
+   */
+  replaceItems(items: TrashItem[]): void {
+    this.items = [...items];
+    this.persist(trashRepository.replaceAll(this.items));
+  }
+
+  empty(): void {
+    this.items = [];
+    this.persist(trashRepository.clear());
+  }
+
+  /**
+   * Drops items deleted more than TRASH_RETENTION_DAYS ago
+   */
+  purgeExpired(now: Date = new Date()): void {
+    const expired = this.items.filter(item => this.getDaysLeft(item, now) === 0);
+    if (expired.length > 0) {
+      this.items = this.items.filter(item => !expired.includes(item));
+      this.persist(trashRepository.delete(expired.map(item => item.application.id)));
+    }
+  }
+
+  subscribe(listener: (items: TrashItem[]) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+}
+
+export const applicationTrash = new ApplicationTrash();
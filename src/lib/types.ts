@@ -1,13 +1,66 @@
-export type ApplicationStatus = 
+/**
+ * Id of a stage in the user's pipeline (see lib/pipeline.ts)
+ */
+export type ApplicationStatus = string;
+
+/**
+ * Fixed meaning behind a pipeline stage - detectors work in categories and
+ * the pipeline maps them onto the user's own stages
+ */
+export type StageCategory = 
+  | 'saved' 
   | 'applied' 
+  | 'screening' 
+  | 'assessment' 
   | 'interview' 
   | 'offer' 
+  | 'accepted' 
+  | 'declined' 
   | 'rejected' 
-  | 'withdrawn';
+  | 'withdrawn' 
+  | 'ghosted';
+
+export type StageColor = 
+  | 'primary' 
+  | 'secondary' 
+  | 'accent' 
+  | 'destructive' 
+  | 'muted' 
+  | 'blue' 
+  | 'green' 
+  | 'yellow' 
+  | 'purple' 
+  | 'orange';
+
+export interface PipelineStage {
+  id: ApplicationStatus;
+  label: string;
+  order: number;
+  terminal: boolean;
+  category: StageCategory;
+  color: StageColor;
+  staleAfterDays?: number; // days without activity before the application counts as stale
+}
+
+export type StatusChangeSource = 
+  | 'manual' 
+  | 'gmail-sync' 
+  | 'review-queue' 
+  | 'inactivity'
+  | 'import';
+
+export interface StatusHistoryEntry {
+  status: ApplicationStatus;
+  date: string;
+  source: StatusChangeSource;
+  emailId?: string;
+  confidence?: number;
+}
 
 export interface JobApplication {
   id: string;
   company: string;
+  companyId?: string; // see lib/companies.ts
   position: string;
   status: ApplicationStatus;
   appliedDate: string;
@@ -19,6 +72,119 @@ export interface JobApplication {
   salary?: string;
   location?: string;
   emailContent?: string;
+  statusHistory?: StatusHistoryEntry[];
+  lastActivityAt?: string; // last inbound email or manual update
+  contactIds?: string[]; // people involved, see lib/contacts.ts
+  interviews?: InterviewEvent[];
+  tasks?: ApplicationTask[]; // follow-ups and reminders, see lib/tasks.ts
+  tags?: string[];
+  documentIds?: string[]; // resume/cover letter versions sent and offer letters/invites received, see lib/documents.ts
+  customFields?: Record<string, CustomFieldValue>; // keyed by field definition id, see lib/custom-fields.ts
+  gmailThreadIds?: string[]; // threads whose later messages update this application, see lib/gmail/SyncScheduler.ts
+  gmailMessageIds?: string[]; // messages the application was built or updated from
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type InterviewFormat = 
+  | 'phone' 
+  | 'video' 
+  | 'onsite' 
+  | 'take-home' 
+  | 'other';
+
+export interface InterviewEvent {
+  id: string;
+  round: number;
+  title?: string;
+  start?: string; // ISO instant, undefined until a time is known
+  end?: string;
+  timeZone: string; // IANA zone the interview was scheduled in
+  format: InterviewFormat;
+  location?: string;
+  meetingLink?: string;
+  interviewers: string[];
+  notes?: string;
+  sourceEmailId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type DocumentKind = 
+  | 'resume' 
+  | 'cover-letter'
+  | 'offer-letter' // stored from Gmail attachments
+  | 'calendar-invite';
+
+/**
+ * Metadata of one version of a document. The file itself lives in IndexedDB.
+ */
+export interface DocumentVersion {
+  id: string;
+  kind: DocumentKind;
+  name: string; // versions with the same kind and name form one document
+  version: number;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  notes?: string;
+  createdAt: string;
+}
+
+export type CustomFieldType = 
+  | 'text' 
+  | 'number' 
+  | 'date' 
+  | 'select';
+
+// Dates are stored as YYYY-MM-DD strings
+export type CustomFieldValue = string | number;
+
+export interface CustomFieldDefinition {
+  id: string;
+  label: string;
+  type: CustomFieldType;
+  options?: string[]; // choices for select fields
+  showOnCard: boolean;
+  order: number;
+}
+
+export type TaskSource = 
+  | 'manual' 
+  | 'suggested';
+
+export interface ApplicationTask {
+  id: string;
+  title: string;
+  dueDate?: string; // ISO instant
+  snoozedUntil?: string; // overrides dueDate for reminders
+  completedAt?: string;
+  source: TaskSource;
+  suggestedForStatus?: ApplicationStatus; // stage change that suggested the task
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Company {
+  id: string;
+  name: string; // canonical display name
+  aliases: string[]; // other spellings, e.g. "Wix.com Ltd", "וויקס"
+  domains: string[]; // email domains, e.g. wix.com
+  linkedInId?: string;
+  mergedIds?: string[]; // ids of companies merged into this one
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Contact {
+  id: string;
+  name: string;
+  emails: string[];
+  phone?: string;
+  company?: string;
+  role?: string; // e.g. Recruiter, Hiring Manager, Interviewer
+  linkedInUrl?: string;
+  notes?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -0,0 +1,83 @@
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+export interface ZipEntry {
+  name: string; // path inside the archive, e.g. "Jobs/Job Applications.csv"
+  text: () => Promise<string>;
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('This browser cannot unpack ZIP files - extract the archive and upload the CSV instead');
+  }
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Lists the files of a ZIP archive. Supports stored and deflated entries, which covers
+ * archives from LinkedIn, Google Takeout and the usual zip tools; ZIP64 is not supported.
+ */
+export async function readZipEntries(file: Blob): Promise<ZipEntry[]> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+
+  // The end-of-central-directory record sits at the end, before an optional comment
+  let endOffset = -1;
+  for (let offset = bytes.length - 22; offset >= Math.max(0, bytes.length - 22 - 0xffff); offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      endOffset = offset;
+      break;
+    }
+  }
+  if (endOffset === -1) {
+    throw new Error('Not a ZIP file');
+  }
+
+  const entryCount = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+  if (offset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error('Corrupted ZIP directory');
+    }
+
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeaderOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue; // directory
+
+    entries.push({
+      name,
+      text: async () => {
+        if (view.getUint32(localHeaderOffset, true) !== LOCAL_FILE_HEADER) {
+          throw new Error(`Corrupted ZIP entry ${name}`);
+        }
+        // The local header has its own name and extra field lengths
+        const dataStart = localHeaderOffset + 30 +
+          view.getUint16(localHeaderOffset + 26, true) +
+          view.getUint16(localHeaderOffset + 28, true);
+        const data = bytes.subarray(dataStart, dataStart + compressedSize);
+
+        if (method === 0) return decoder.decode(data);
+        if (method === 8) return decoder.decode(await inflateRaw(data));
+        throw new Error(`Unsupported compression in ${name}`);
+      },
+    });
+  }
+
+  return entries;
+}